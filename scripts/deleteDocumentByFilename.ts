@@ -1,4 +1,4 @@
-import { getQdrantClient, QDRANT_COLLECTION_NAME } from '../src/lib/vector/qdrantClient.js';
+import { createClient } from '@supabase/supabase-js';
 import dotenv from 'dotenv';
 import path from 'path';
 import { fileURLToPath } from 'url';
@@ -13,86 +13,48 @@ const YELLOW_OUTPUT = "\x1b[33m%s\x1b[0m";
 
 dotenv.config({ path: envPath, debug: process.env.DOTENV_DEBUG === 'true' });
 
+// Deletes a knowledge base document by its file name (the URL, for documents added from a URL). Its
+// versions and chunks are removed with it. Admins can do the same from /admin/documents.
 async function deleteDocumentByFilename(filenameToDelete: string) {
-  console.log(`Attempting to delete document chunks for filename: "${filenameToDelete}" from collection "${QDRANT_COLLECTION_NAME}"`);
+  console.log(`Attempting to delete the knowledge document with file name: "${filenameToDelete}"`);
 
-  if (!process.env.QDRANT_URL) {
-    console.error(RED_OUTPUT, 'Error: QDRANT_URL environment variable is not set.');
-    return;
-  }
-  if (!QDRANT_COLLECTION_NAME) {
-    console.error(RED_OUTPUT, 'Error: QDRANT_COLLECTION_NAME is not defined.');
-    return;
-  }
-  if (!filenameToDelete) {
-    console.error(RED_OUTPUT, 'Error: No filename provided to delete.');
-    console.log(YELLOW_OUTPUT, 'Usage: npx ts-node scripts/deleteDocumentByFilename.ts <filename_to_delete>');
+  if (!process.env.NEXT_PUBLIC_SUPABASE_URL || !process.env.SUPABASE_SERVICE_ROLE_KEY) {
+    console.error(RED_OUTPUT, 'Error: NEXT_PUBLIC_SUPABASE_URL and SUPABASE_SERVICE_ROLE_KEY must be set.');
     return;
   }
 
   try {
-    const qdrantClient = getQdrantClient();
-    console.log('Qdrant client initialized.');
-
-    const filterObject = {
-      must: [
-        {
-          key: 'fileName', 
-          match: {
-            value: filenameToDelete,
-          },
-        },
-      ],
-    };
+    const supabase = createClient(process.env.NEXT_PUBLIC_SUPABASE_URL, process.env.SUPABASE_SERVICE_ROLE_KEY);
+    console.log('Supabase client initialized.');
 
-    console.log(`Constructed filter: ${JSON.stringify(filterObject, null, 2)}`);
-    console.log(YELLOW_OUTPUT, `\nWARNING: This will attempt to delete all points matching the filename "${filenameToDelete}" from the collection "${QDRANT_COLLECTION_NAME}".\n`);
-    
-    try {
-      const countResponse = await qdrantClient.count(QDRANT_COLLECTION_NAME, { filter: filterObject, exact: true });
-      console.log(`Found ${countResponse.count} points matching the filename "${filenameToDelete}".`);
-      if (countResponse.count === 0) {
-        console.log(GREEN_OUTPUT, 'No points found with that filename. Nothing to delete.');
-        return;
-      }
-    } catch (countError: any) {
-      console.warn(YELLOW_OUTPUT, `Could not retrieve count of points before deletion. Error: ${countError.message}`);
-      console.warn(YELLOW_OUTPUT, `Proceeding with deletion attempt...`);
+    const { data: document, error: findError } = await supabase
+      .from('knowledge_documents')
+      .select('id, title, status')
+      .eq('file_name', filenameToDelete)
+      .maybeSingle();
+    if (findError) throw findError;
+    if (!document) {
+      console.log(GREEN_OUTPUT, 'No document found with that file name. Nothing to delete.');
+      return;
     }
 
-    console.log(`Attempting to delete points using client.delete()...`);
-    // Using client.delete() as an alternative if deletePoints is not available or has a different signature
-    // The exact signature for deleting by filter can vary. Common patterns include passing a filter object directly
-    // or within a points selector. This assumes the filter can be passed like this.
-    const deleteResult = await qdrantClient.delete(QDRANT_COLLECTION_NAME, { filter: filterObject });
-    
-    console.log(GREEN_OUTPUT, 'Deletion operation submitted. Result:');
-    console.dir(deleteResult, { depth: null });
-
-    // The structure of deleteResult can vary. Checking for a status property.
-    // Qdrant delete operations usually return "acknowledged" or "completed".
-    if (deleteResult && (deleteResult.status === 'acknowledged' || deleteResult.status === 'completed')) {
-      console.log(GREEN_OUTPUT, `Successfully submitted deletion for points associated with filename: "${filenameToDelete}".`);
-      console.log(YELLOW_OUTPUT, `Note: Deletion in Qdrant is an operation that might take some time to fully complete and reflect in counts.`);
+    const { count, error: countError } = await supabase
+      .from('documents')
+      .select('*', { count: 'exact', head: true })
+      .eq('document_id', document.id);
+    if (countError) {
+      console.warn(YELLOW_OUTPUT, `Could not count the document's chunks: ${countError.message}`);
     } else {
-      console.error(RED_OUTPUT, `Deletion operation may not have been successful or status unknown. Result status: ${deleteResult?.status}`);
+      console.log(`Found "${document.title}" (${document.status}) with ${count} chunks across its versions.`);
     }
 
-  } catch (error: any) {
-    console.error(RED_OUTPUT, 'Failed to delete document chunks from Qdrant:');
-    if (error.message) {
-      console.error(RED_OUTPUT, error.message);
-    }
-    if (error.stack) {
-      // console.error(error.stack);
-    }
-    if (error.data) {
-      console.error(RED_OUTPUT, `Qdrant error data: ${JSON.stringify(error.data, null, 2)}`);
-    }
-     // More generic error logging if specific properties aren't found
-     if (typeof error === 'object' && error !== null && error.hasOwnProperty('status')) {
-        console.error(RED_OUTPUT, `Error Status: ${error.status}`);
-    }
+    const { error } = await supabase.from('knowledge_documents').delete().eq('id', document.id);
+    if (error) throw error;
+
+    console.log(GREEN_OUTPUT, `Successfully deleted "${filenameToDelete}" with its versions and chunks.`);
+  } catch (error: unknown) {
+    console.error(RED_OUTPUT, 'Failed to delete the document from Supabase:');
+    console.error(RED_OUTPUT, error instanceof Error ? error.message : JSON.stringify(error, null, 2));
   }
 }
 
@@ -100,7 +62,7 @@ const filenameArg = process.argv[2];
 
 if (!filenameArg) {
   console.error(RED_OUTPUT, 'Error: Please provide the filename to delete as a command-line argument.');
-  console.log(YELLOW_OUTPUT, 'Usage: npx ts-node scripts/deleteDocumentByFilename.ts <filename_to_delete>');
+  console.log(YELLOW_OUTPUT, 'Usage: npx tsx scripts/deleteDocumentByFilename.ts <filename_to_delete>');
 } else {
   deleteDocumentByFilename(filenameArg);
-} 
\ No newline at end of file
+}
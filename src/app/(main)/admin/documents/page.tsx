@@ -0,0 +1,329 @@
+'use client';
+
+import { useState, useEffect, useCallback, FormEvent } from 'react';
+import Link from 'next/link';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import IngestionJobCard from '@/components/documents/IngestionJobCard';
+import KnowledgeDocumentDetail from '@/components/documents/KnowledgeDocumentDetail';
+import { getApiErrorMessage } from '@/lib/api/errorCodes';
+import type {
+  IngestionJobResponse,
+  KnowledgeDocumentDeleteResponse,
+  KnowledgeDocumentListResponse,
+  KnowledgeDocumentReingestResponse,
+} from '@/lib/api/schemas';
+import type { KnowledgeDocumentListItem, KnowledgeDocumentSearchField } from '@/lib/vector/knowledgeDocuments';
+import type { IngestionJobSummary } from '@/types/ingestion';
+
+type UserProfile = {
+  user_tier: 'free_trial' | 'byok' | 'vip_tester' | 'admin';
+};
+
+const PAGE_SIZE = 25;
+
+const STATUS_VARIANTS: Record<KnowledgeDocumentListItem['status'], 'default' | 'secondary' | 'destructive'> = {
+  active: 'default',
+  processing: 'secondary',
+  failed: 'destructive',
+};
+
+export default function KnowledgeBasePage() {
+  const [profile, setProfile] = useState<UserProfile | null>(null);
+  const [isProfileLoading, setIsProfileLoading] = useState(true);
+
+  // Listing state
+  const [listing, setListing] = useState<KnowledgeDocumentListResponse | null>(null);
+  const [query, setQuery] = useState('');
+  const [searchIn, setSearchIn] = useState<KnowledgeDocumentSearchField>('name');
+  const [search, setSearch] = useState<{ q: string; searchIn: KnowledgeDocumentSearchField }>({ q: '', searchIn: 'name' });
+  const [offset, setOffset] = useState(0);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+
+  // Selection and actions
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const [isDeleting, setIsDeleting] = useState(false);
+  const [reingestingId, setReingestingId] = useState<string | null>(null);
+  const [jobs, setJobs] = useState<IngestionJobSummary[]>([]); // Re-ingestion jobs started here, newest first
+  const [jobActionId, setJobActionId] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetch('/api/user/profile')
+      .then(response => (response.ok ? response.json() : null))
+      .then(data => setProfile(data?.profile ?? null))
+      .catch(err => console.error('Failed to fetch user profile:', err))
+      .finally(() => setIsProfileLoading(false));
+  }, []);
+
+  const loadDocuments = useCallback(async () => {
+    setIsLoading(true);
+    setError(null);
+    try {
+      const params = new URLSearchParams({ searchIn: search.searchIn, limit: String(PAGE_SIZE), offset: String(offset) });
+      if (search.q) params.set('q', search.q);
+      const response = await fetch(`/api/admin/documents?${params}`);
+      const result = await response.json();
+      if (!response.ok) throw new Error(getApiErrorMessage(result, 'Failed to load the knowledge base.'));
+      setListing(result as KnowledgeDocumentListResponse);
+    } catch (err: unknown) {
+      setError(err instanceof Error ? err.message : 'Failed to load the knowledge base.');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [search, offset]);
+
+  useEffect(() => {
+    if (profile?.user_tier === 'admin') loadDocuments();
+  }, [profile?.user_tier, loadDocuments]);
+
+  const upsertJob = useCallback((job: IngestionJobSummary) => {
+    setJobs(prev => prev.some(j => j.id === job.id)
+      ? prev.map(j => (j.id === job.id ? job : j))
+      : [job, ...prev]);
+  }, []);
+
+  // Poll queued and running jobs until they finish; the listing is refreshed when one succeeds
+  const activeJobIds = jobs
+    .filter(job => job.status === 'queued' || job.status === 'running')
+    .map(job => job.id)
+    .join(',');
+  useEffect(() => {
+    if (!activeJobIds) return;
+    const interval = setInterval(() => {
+      for (const id of activeJobIds.split(',')) {
+        fetch(`/api/documents/jobs/${id}`)
+          .then(response => (response.ok ? response.json() as Promise<IngestionJobResponse> : null))
+          .then(data => {
+            if (!data) return;
+            upsertJob(data.job);
+            if (data.job.status === 'succeeded') loadDocuments();
+          })
+          .catch(err => console.error(`Failed to poll ingestion job ${id}:`, err));
+      }
+    }, 2000);
+    return () => clearInterval(interval);
+  }, [activeJobIds, upsertJob, loadDocuments]);
+
+  const handleSearch = (event: FormEvent) => {
+    event.preventDefault();
+    setOffset(0);
+    setSelectedIds([]);
+    setSearch({ q: query.trim(), searchIn });
+  };
+
+  const toggleSelected = (id: string) => {
+    setSelectedIds(prev => (prev.includes(id) ? prev.filter(selected => selected !== id) : [...prev, id]));
+  };
+
+  const handleDelete = async () => {
+    const count = selectedIds.length;
+    if (!window.confirm(`Delete ${count} document${count === 1 ? '' : 's'} with all their versions and chunks? This cannot be undone.`)) return;
+    setIsDeleting(true);
+    setError(null);
+    setMessage(null);
+    try {
+      const response = await fetch('/api/admin/documents', {
+        method: 'DELETE',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ ids: selectedIds }),
+      });
+      const result = await response.json();
+      if (!response.ok) throw new Error(getApiErrorMessage(result, 'Failed to delete documents.'));
+      const { deleted } = result as KnowledgeDocumentDeleteResponse;
+      setMessage(`Deleted ${deleted.length} document${deleted.length === 1 ? '' : 's'}.`);
+      setSelectedIds([]);
+      if (expandedId && deleted.includes(expandedId)) setExpandedId(null);
+      await loadDocuments();
+    } catch (err: unknown) {
+      setError(err instanceof Error ? err.message : 'Failed to delete documents.');
+    } finally {
+      setIsDeleting(false);
+    }
+  };
+
+  const handleReingest = async (document: KnowledgeDocumentListItem) => {
+    setReingestingId(document.id);
+    setError(null);
+    setMessage(null);
+    try {
+      const response = await fetch(`/api/admin/documents/${document.id}/reingest`, { method: 'POST' });
+      const result = await response.json();
+      if (!response.ok) throw new Error(getApiErrorMessage(result, 'Failed to re-ingest the document.'));
+      const { message: reingestMessage, job } = result as KnowledgeDocumentReingestResponse;
+      setMessage(reingestMessage);
+      if (job) upsertJob(job);
+      else await loadDocuments();
+    } catch (err: unknown) {
+      setError(err instanceof Error ? err.message : 'Failed to re-ingest the document.');
+    } finally {
+      setReingestingId(null);
+    }
+  };
+
+  const handleJobAction = async (job: IngestionJobSummary, action: 'retry' | 'cancel') => {
+    setJobActionId(job.id);
+    setError(null);
+    try {
+      const response = await fetch(`/api/documents/jobs/${job.id}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ action }),
+      });
+      const result = await response.json();
+      if (!response.ok) throw new Error(getApiErrorMessage(result, `Failed to ${action} the job.`));
+      upsertJob((result as IngestionJobResponse).job);
+    } catch (err: unknown) {
+      setError(err instanceof Error ? err.message : `Failed to ${action} the job.`);
+    } finally {
+      setJobActionId(null);
+    }
+  };
+
+  if (isProfileLoading) {
+    return <div className="container mx-auto p-8 text-muted-foreground">Loading...</div>;
+  }
+
+  if (profile?.user_tier !== 'admin') {
+    return (
+      <div className="container mx-auto p-8 text-center">
+        <h2 className="text-2xl font-bold text-destructive mb-2">Insufficient Permissions</h2>
+        <p className="text-muted-foreground">Only admins can manage the knowledge base.</p>
+      </div>
+    );
+  }
+
+  const documents = listing?.documents ?? [];
+  const total = listing?.total ?? 0;
+
+  return (
+    <div className="container mx-auto p-4 md:p-8 max-w-4xl space-y-8">
+      <section>
+        <div className="flex items-center justify-between gap-4 mb-2">
+          <h1 className="text-2xl md:text-3xl font-bold text-primary">Knowledge Base</h1>
+          <Link href="/settings" passHref>
+            <Button variant="outline" size="sm">Upload documents</Button>
+          </Link>
+        </div>
+        {listing && (
+          <p className="text-sm text-muted-foreground">
+            {listing.stats.totalDocuments} documents · {listing.stats.totalChunks} chunks
+            {listing.stats.failedDocuments > 0 && ` · ${listing.stats.failedDocuments} failed`}
+          </p>
+        )}
+      </section>
+
+      <form onSubmit={handleSearch} className="flex flex-col md:flex-row gap-2">
+        <Input
+          type="search"
+          placeholder={searchIn === 'name' ? 'Search titles and file names' : 'Search document text'}
+          value={query}
+          onChange={(e) => setQuery(e.target.value)}
+        />
+        <Select value={searchIn} onValueChange={(value) => setSearchIn(value as KnowledgeDocumentSearchField)}>
+          <SelectTrigger className="md:w-40">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="name">Name</SelectItem>
+            <SelectItem value="content">Content</SelectItem>
+          </SelectContent>
+        </Select>
+        <Button type="submit" disabled={isLoading}>Search</Button>
+      </form>
+
+      {message && (
+        <p className="text-sm text-green-600 dark:text-green-400 py-2 px-3 bg-green-50 dark:bg-green-900/30 border border-green-200 dark:border-green-700 rounded-md">{message}</p>
+      )}
+      {error && (
+        <p className="text-sm text-destructive py-2 px-3 bg-red-50 dark:bg-red-900/30 border border-red-200 dark:border-red-700 rounded-md">{error}</p>
+      )}
+
+      {jobs.length > 0 && (
+        <div className="space-y-3">
+          <h3 className="text-sm font-semibold text-muted-foreground">Re-ingestion</h3>
+          {jobs.map(job => (
+            <IngestionJobCard key={job.id} job={job} onAction={handleJobAction} busy={jobActionId === job.id} />
+          ))}
+        </div>
+      )}
+
+      <section className="space-y-3">
+        <div className="flex items-center justify-between gap-2">
+          <span className="text-sm text-muted-foreground">
+            {isLoading ? 'Loading...' : `${total} document${total === 1 ? '' : 's'}${search.q ? ` matching "${search.q}"` : ''}`}
+          </span>
+          <Button type="button" variant="destructive" size="sm" disabled={selectedIds.length === 0 || isDeleting} onClick={handleDelete}>
+            {isDeleting ? 'Deleting...' : `Delete selected (${selectedIds.length})`}
+          </Button>
+        </div>
+
+        {documents.map(document => (
+          <div key={document.id} className="p-4 rounded-md border bg-card space-y-2">
+            <div className="flex items-start gap-3">
+              <input
+                type="checkbox"
+                className="mt-1"
+                aria-label={`Select ${document.title}`}
+                checked={selectedIds.includes(document.id)}
+                onChange={() => toggleSelected(document.id)}
+              />
+              <div className="min-w-0 flex-grow">
+                <div className="flex items-center gap-2">
+                  <span className="text-sm font-medium truncate" title={document.file_name}>{document.title}</span>
+                  <Badge variant={STATUS_VARIANTS[document.status]}>{document.status}</Badge>
+                  {document.source_type === 'url' && <Badge variant="secondary">URL</Badge>}
+                </div>
+                <div className="text-xs text-muted-foreground mt-1">
+                  {document.chunk_count} chunks
+                  {document.active_version !== null && ` · v${document.active_version}`}
+                  {document.page_count !== null && ` · ${document.page_count} pages`}
+                  {` · added ${new Date(document.created_at).toLocaleDateString()}`}
+                  {document.updated_at !== document.created_at && `, updated ${new Date(document.updated_at).toLocaleDateString()}`}
+                </div>
+                {document.source_url && (
+                  <a href={document.source_url} target="_blank" rel="noopener noreferrer" className="text-xs text-primary hover:underline break-all">
+                    {document.source_url}
+                  </a>
+                )}
+              </div>
+              <div className="flex gap-2 shrink-0">
+                <Button type="button" variant="outline" size="sm" disabled={reingestingId !== null} onClick={() => handleReingest(document)}>
+                  {reingestingId === document.id ? 'Re-ingesting...' : 'Re-ingest'}
+                </Button>
+                <Button type="button" variant="ghost" size="sm" onClick={() => setExpandedId(expandedId === document.id ? null : document.id)}>
+                  {expandedId === document.id ? 'Hide' : 'View'}
+                </Button>
+              </div>
+            </div>
+            {expandedId === document.id && <KnowledgeDocumentDetail documentId={document.id} onChanged={loadDocuments} />}
+          </div>
+        ))}
+
+        {!isLoading && listing && documents.length === 0 && (
+          <p className="text-center text-muted-foreground py-12">
+            {search.q ? 'No documents match your search.' : 'The knowledge base is empty.'}
+          </p>
+        )}
+
+        {total > PAGE_SIZE && (
+          <div className="flex items-center justify-between">
+            <Button type="button" variant="outline" size="sm" disabled={offset === 0 || isLoading} onClick={() => setOffset(Math.max(0, offset - PAGE_SIZE))}>
+              Previous
+            </Button>
+            <span className="text-xs text-muted-foreground">
+              {offset + 1}-{Math.min(offset + PAGE_SIZE, total)} of {total}
+            </span>
+            <Button type="button" variant="outline" size="sm" disabled={offset + PAGE_SIZE >= total || isLoading} onClick={() => setOffset(offset + PAGE_SIZE)}>
+              Next
+            </Button>
+          </div>
+        )}
+      </section>
+    </div>
+  );
+}
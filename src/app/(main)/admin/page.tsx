@@ -1,10 +1,12 @@
 'use client';
 
 import { useState, useEffect } from 'react';
+import Link from 'next/link';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
-import { CheckCircle, Clock, UserPlus, Users, Mail } from 'lucide-react';
+import { BookOpen, CheckCircle, Clock, UserPlus, Users, Mail } from 'lucide-react';
+import { getApiErrorMessage } from '@/lib/api/errorCodes';
 
 // Define the type for an invite request
 interface InviteRequest {
@@ -75,7 +77,7 @@ export default function AdminPage() {
       const result = await response.json();
       
       if (!response.ok) {
-        throw new Error(result.error || 'Failed to approve invite.');
+        throw new Error(getApiErrorMessage(result, 'Failed to approve invite.'));
       }
 
       // Set approved state
@@ -205,9 +207,17 @@ export default function AdminPage() {
     <div className="min-h-screen bg-gradient-to-br from-slate-900 via-purple-900 to-slate-900">
       <div className="container mx-auto p-6">
         {/* Header */}
-        <div className="mb-8">
-          <h1 className="text-4xl font-bold text-white mb-2">Admin Dashboard</h1>
-          <p className="text-gray-300">Manage user invitations and system settings</p>
+        <div className="mb-8 flex items-start justify-between gap-4">
+          <div>
+            <h1 className="text-4xl font-bold text-white mb-2">Admin Dashboard</h1>
+            <p className="text-gray-300">Manage user invitations and system settings</p>
+          </div>
+          <Link href="/admin/documents" passHref>
+            <Button variant="secondary">
+              <BookOpen className="w-4 h-4 mr-2" />
+              Knowledge Base
+            </Button>
+          </Link>
         </div>
 
         {/* Stats Cards */}
@@ -1,11 +1,15 @@
 "use client";
 
-import { useState, FormEvent, ChangeEvent, useEffect } from 'react';
+import { useState, FormEvent, ChangeEvent, useEffect, useCallback } from 'react';
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import Link from 'next/link';
+import IngestionJobCard from '@/components/documents/IngestionJobCard';
+import { getApiErrorMessage } from '@/lib/api/errorCodes';
+import type { IngestionJobListResponse, IngestionJobResponse } from '@/lib/api/schemas';
+import type { IngestionJobSummary } from '@/types/ingestion';
 // We'll create this API call function later
 // import { saveApiKey } from '@/lib/actions/userKeys'; 
 
@@ -18,6 +22,7 @@ export default function ManageApiKeysPage() {
   const [provider, setProvider] = useState('anthropic');
   const [apiKey, setApiKey] = useState('');
   const [keyLabel, setKeyLabel] = useState(''); // Renamed from label to avoid conflict
+  const [baseUrl, setBaseUrl] = useState(''); // Custom endpoint; required for a local server
   const [isKeyLoading, setIsKeyLoading] = useState(false);
   const [keyMessage, setKeyMessage] = useState<string | null>(null);
   const [keyError, setKeyError] = useState<string | null>(null);
@@ -30,6 +35,8 @@ export default function ManageApiKeysPage() {
   const [isUploading, setIsUploading] = useState(false);
   const [uploadMessage, setUploadMessage] = useState<string | null>(null);
   const [uploadError, setUploadError] = useState<string | null>(null);
+  const [ingestionJobs, setIngestionJobs] = useState<IngestionJobSummary[]>([]); // Newest first
+  const [jobActionId, setJobActionId] = useState<string | null>(null); // Job with a retry/cancel in flight
 
   // URL Upload State
   const [urlInput, setUrlInput] = useState('');
@@ -52,6 +59,62 @@ export default function ManageApiKeysPage() {
     fetchUserProfile();
   }, []);
 
+  const upsertJob = useCallback((job: IngestionJobSummary) => {
+    setIngestionJobs(prev => prev.some(j => j.id === job.id)
+      ? prev.map(j => (j.id === job.id ? job : j))
+      : [job, ...prev]);
+  }, []);
+
+  // Recent uploads, so jobs still processing show up after a reload
+  useEffect(() => {
+    if (userProfile?.user_tier !== 'admin') return;
+    fetch('/api/documents/jobs')
+      .then(response => (response.ok ? response.json() as Promise<IngestionJobListResponse> : null))
+      .then(data => data && setIngestionJobs(data.jobs.slice(0, 5)))
+      .catch(error => console.error("Failed to load ingestion jobs:", error));
+  }, [userProfile?.user_tier]);
+
+  // Poll queued and running jobs until they finish
+  const activeJobIds = ingestionJobs
+    .filter(job => job.status === 'queued' || job.status === 'running')
+    .map(job => job.id)
+    .join(',');
+  useEffect(() => {
+    if (!activeJobIds) return;
+    const interval = setInterval(() => {
+      for (const id of activeJobIds.split(',')) {
+        fetch(`/api/documents/jobs/${id}`)
+          .then(response => (response.ok ? response.json() as Promise<IngestionJobResponse> : null))
+          .then(data => data && upsertJob(data.job))
+          .catch(error => console.error(`Failed to poll ingestion job ${id}:`, error));
+      }
+    }, 2000);
+    return () => clearInterval(interval);
+  }, [activeJobIds, upsertJob]);
+
+  const handleJobAction = async (job: IngestionJobSummary, action: 'retry' | 'cancel') => {
+    setJobActionId(job.id);
+    setUploadError(null);
+    try {
+      const response = await fetch(`/api/documents/jobs/${job.id}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ action }),
+      });
+      const result = await response.json();
+      if (response.ok) {
+        upsertJob((result as IngestionJobResponse).job);
+      } else {
+        setUploadError(getApiErrorMessage(result, `Failed to ${action} the upload.`));
+      }
+    } catch (err) {
+      console.error(`Failed to ${action} ingestion job:`, err);
+      setUploadError(`An unexpected error occurred while trying to ${action} the upload.`);
+    } finally {
+      setJobActionId(null);
+    }
+  };
+
   const handleApiKeySubmit = async (event: FormEvent) => {
     event.preventDefault();
     setIsKeyLoading(true);
@@ -70,7 +133,7 @@ export default function ManageApiKeysPage() {
         headers: {
           'Content-Type': 'application/json',
         },
-        body: JSON.stringify({ provider, apiKey, label: keyLabel }), // Use keyLabel here
+        body: JSON.stringify({ provider, apiKey, label: keyLabel, baseUrl: baseUrl.trim() || undefined }), // Use keyLabel here
       });
 
       const result = await response.json();
@@ -79,8 +142,9 @@ export default function ManageApiKeysPage() {
         setKeyMessage(result.message || 'API Key saved successfully!');
         setApiKey('');
         setKeyLabel('');
+        setBaseUrl('');
       } else {
-        setKeyError(result.error || result.details || 'Failed to save API Key.');
+        setKeyError(getApiErrorMessage(result, 'Failed to save API Key.'));
       }
     } catch (err) {
       console.error("Failed to save API key:", err);
@@ -121,13 +185,16 @@ export default function ManageApiKeysPage() {
       const result = await response.json();
 
       if (response.ok) {
-        setUploadMessage(result.message || `Successfully uploaded ${selectedFile.name}`);
+        // Processing continues in the background; the job card shows its progress
+        const { message, job } = result as IngestionJobResponse;
+        setUploadMessage(message || `Uploaded ${selectedFile.name}. Processing...`);
+        upsertJob(job);
         setSelectedFile(null);
         // Clear the file input visually (optional, depends on input styling)
         const fileInput = document.getElementById('documentUpload') as HTMLInputElement;
         if (fileInput) fileInput.value = ''; 
       } else {
-        setUploadError(result.error || result.details || 'Failed to upload document.');
+        setUploadError(getApiErrorMessage(result, 'Failed to upload document.'));
       }
     } catch (err) {
       console.error("Failed to upload document:", err);
@@ -174,7 +241,7 @@ export default function ManageApiKeysPage() {
         );
         setUrlInput('');
       } else {
-        setUrlError(result.error || result.details || 'Failed to process URL.');
+        setUrlError(getApiErrorMessage(result, 'Failed to process URL.'));
       }
     } catch (err) {
       console.error("Failed to process URL:", err);
@@ -205,7 +272,8 @@ export default function ManageApiKeysPage() {
               <SelectContent>
                 <SelectItem value="anthropic">Anthropic (Claude)</SelectItem>
                 <SelectItem value="openai">OpenAI (ChatGPT)</SelectItem>
-                {/* <SelectItem value="gemini">Google (Gemini)</SelectItem> */}
+                <SelectItem value="local">OpenAI-compatible server (Ollama, vLLM)</SelectItem>
+                <SelectItem value="google">Google (Gemini)</SelectItem>
               </SelectContent>
             </Select>
             <p className="text-xs text-muted-foreground mt-1">Select the LLM provider for the API key.</p>
@@ -224,6 +292,24 @@ export default function ManageApiKeysPage() {
             />
           </div>
 
+          <div>
+            <Label htmlFor="baseUrl">Base URL{provider === 'local' ? '' : ' (Optional)'}</Label>
+            <Input
+              id="baseUrl"
+              type="url"
+              placeholder={provider === 'local' ? 'e.g., https://llm.example.com/v1' : "Leave empty for the provider's API"}
+              value={baseUrl}
+              onChange={(e) => setBaseUrl(e.target.value)}
+              required={provider === 'local'}
+              className="mt-1"
+            />
+            <p className="text-xs text-muted-foreground mt-1">
+              {provider === 'local'
+                ? 'The OpenAI-compatible endpoint to send chats to. Enter any API key if your server does not check one.'
+                : 'Only needed if you use this key through a proxy or gateway.'}
+            </p>
+          </div>
+
           <div>
             <Label htmlFor="keyLabel">Label (Optional)</Label>
             <Input
@@ -277,6 +363,15 @@ export default function ManageApiKeysPage() {
                 {isUploading ? 'Uploading...' : 'Upload Document'}
               </Button>
             </form>
+
+            {ingestionJobs.length > 0 && (
+              <div className="mt-6 space-y-3">
+                <h3 className="text-sm font-semibold text-muted-foreground">Recent uploads</h3>
+                {ingestionJobs.map(job => (
+                  <IngestionJobCard key={job.id} job={job} onAction={handleJobAction} busy={jobActionId === job.id} />
+                ))}
+              </div>
+            )}
           </section>
 
           <section>
@@ -1,7 +1,9 @@
-import { createServerClient } from '@supabase/ssr';
-import { cookies } from 'next/headers';
 import { NextResponse } from 'next/server';
+import { errorResponse, ConflictError, InternalError } from '@/lib/api/errors';
+import { approveInviteSchema } from '@/lib/api/schemas';
+import { parseJsonBody } from '@/lib/api/validation';
 import { createClient } from '@supabase/supabase-js';
+import { withAuth } from '@/lib/supabase/withAuth';
 
 // Define a specific interface for the invite options to avoid using 'any'
 interface InviteUserOptions {
@@ -14,45 +16,11 @@ interface InviteUserOptions {
 
 export const dynamic = 'force-dynamic'
 
-export async function POST(request: Request) {
-  const { email, firstName, lastName } = await request.json();
-
-  if (!email || !firstName) {
-    return new NextResponse(JSON.stringify({ error: 'Email and first name are required.' }), { status: 400 });
-  }
-
-  const cookieStore = await cookies();
-  const supabase = createServerClient(
-    process.env.NEXT_PUBLIC_SUPABASE_URL!,
-    process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!,
-    {
-      cookies: {
-        get(name: string) {
-          return cookieStore.get(name)?.value;
-        },
-      },
-    }
-  );
+export const POST = withAuth({ tier: ['admin'] }, async (request) => {
+  const { email, firstName, lastName } = await parseJsonBody(request, approveInviteSchema);
 
   try {
-    // 1. Get the current user and verify they are an admin
-    const { data: { user }, error: userError } = await supabase.auth.getUser();
-
-    if (userError || !user) {
-      return new NextResponse(JSON.stringify({ error: 'You must be logged in to perform this action.' }), { status: 401 });
-    }
-
-    const { data: profile, error: profileError } = await supabase
-      .from('profiles')
-      .select('user_tier')
-      .eq('id', user.id)
-      .single();
-
-    if (profileError || profile?.user_tier !== 'admin') {
-      return new NextResponse(JSON.stringify({ error: 'You do not have permission to perform this action.' }), { status: 403 });
-    }
-
-    // 2. Create the Supabase Admin Client with the service role key
+    // 1. Create the Supabase Admin Client with the service role key
     const supabaseAdmin = createClient(
       process.env.NEXT_PUBLIC_SUPABASE_URL!,
       process.env.SUPABASE_SERVICE_ROLE_KEY!,
@@ -69,7 +37,7 @@ export async function POST(request: Request) {
       ? 'https://lucient-app.vercel.app/set-password'
       : `${new URL(request.url).protocol}//${new URL(request.url).host}/set-password`;
 
-    // 3. Invite the new user
+    // 2. Invite the new user
     const { data, error: inviteError } = await supabaseAdmin.auth.admin.inviteUserByEmail(
       email,
       {
@@ -85,9 +53,9 @@ export async function POST(request: Request) {
       console.error('Detailed error inviting user:', JSON.stringify(inviteError, null, 2));
       // Provide more specific feedback if the user already exists
       if (inviteError.message.includes('User already registered')) {
-        return new NextResponse(JSON.stringify({ error: 'A user with this email already exists.' }), { status: 409 });
+        return errorResponse(new ConflictError('A user with this email already exists.'));
       }
-      return new NextResponse(JSON.stringify({ error: `Failed to invite user: ${inviteError.message}` }), { status: 500 });
+      return errorResponse(new InternalError('Failed to invite user.', inviteError));
     }
 
     // The trigger `handle_new_user` will automatically create a profile for this new user.
@@ -96,7 +64,6 @@ export async function POST(request: Request) {
 
   } catch (error: unknown) {
     console.error('Unexpected error in /api/admin/approve:', error);
-    const errorMessage = error instanceof Error ? error.message : 'An unknown error occurred.';
-    return new NextResponse(JSON.stringify({ error: 'An unexpected error occurred.', details: errorMessage }), { status: 500 });
+    return errorResponse(error);
   }
-} 
\ No newline at end of file
+});
@@ -0,0 +1,25 @@
+import { NextResponse } from 'next/server'
+import { errorResponse } from '@/lib/api/errors'
+import { creditLedgerQuerySchema } from '@/lib/api/schemas'
+import { parseSearchParams } from '@/lib/api/validation'
+import { withAuth } from '@/lib/supabase/withAuth'
+import { listCreditLedger } from '@/lib/credits'
+
+export const dynamic = 'force-dynamic'
+
+// GET /api/admin/credits?userId=&type=&before=&limit= - credit ledger entries for audit, newest first
+export const GET = withAuth({ tier: ['admin'] }, async (request, { supabase }) => {
+  try {
+    // 1. Read the filters
+    const { userId, type, before, limit } = parseSearchParams(request.nextUrl.searchParams, creditLedgerQuerySchema)
+
+    // 2. Fetch the ledger (the admin RLS policy returns every user's entries)
+    const entries = await listCreditLedger(supabase, { userId, entryType: type, before, limit })
+
+    return NextResponse.json({ entries });
+
+  } catch (error) {
+    console.error('Unexpected error in /api/admin/credits:', error);
+    return errorResponse(error, 'Failed to fetch the credit ledger.');
+  }
+})
@@ -0,0 +1,80 @@
+import { after, NextResponse } from 'next/server';
+import { ConflictError, errorResponse, InvalidRequestError, NotFoundError } from '@/lib/api/errors';
+import type { KnowledgeDocumentReingestResponse } from '@/lib/api/schemas';
+import { withAuth } from '@/lib/supabase/withAuth';
+import { createTextIngestionJob, toIngestionJobSummary } from '@/lib/ingestion/jobs';
+import { ingestFetchedUrl } from '@/lib/ingestion/urlIngestion';
+import { processIngestionJobs } from '@/lib/ingestion/worker';
+import { rateLimitExceededResponse, rateLimiter } from '@/lib/rateLimit/rateLimiter';
+import { fetchUrlContent, type FetchedContent } from '@/lib/urlFetcher';
+import { getActiveDocumentVersion } from '@/lib/vector/documentVersions';
+import { getKnowledgeDocument } from '@/lib/vector/knowledgeDocuments';
+
+// Leaves time for the worker started after the response, as for uploads
+export const maxDuration = 60;
+
+// POST /api/admin/documents/[id]/reingest - writes a new version of a document with the current
+// chunking and embedding settings. A URL is fetched again (200, with the chunk count); a file is
+// re-chunked from its live version's text by an ingestion job (202, with the job).
+export const POST = withAuth<{ id: string }>({ tier: ['admin'] }, async (_request, { user, profile, supabase }, { params }) => {
+  const { id } = await params;
+
+  const rateLimit = await rateLimiter.check('document_upload', { id: `user:${user.id}`, tier: 'admin' });
+  if (!rateLimit.allowed) {
+    return rateLimitExceededResponse(rateLimit);
+  }
+
+  try {
+    const document = await getKnowledgeDocument(supabase, id);
+    if (!document) {
+      return errorResponse(new NotFoundError('Document not found.'));
+    }
+
+    if (document.source_type === 'url' && document.source_url) {
+      let content: FetchedContent;
+      try {
+        content = await fetchUrlContent(document.source_url);
+      } catch (fetchError: unknown) {
+        console.error(`Failed to fetch ${document.source_url} for re-ingestion:`, fetchError);
+        return errorResponse(new InvalidRequestError(fetchError instanceof Error ? fetchError.message : 'Failed to fetch content from URL.'));
+      }
+      if (!content.text || content.text.trim() === '') {
+        return errorResponse(new InvalidRequestError('No content could be extracted from the URL.'));
+      }
+
+      const chunks = await ingestFetchedUrl(document.source_url, content, user.id, {
+        userId: user.id,
+        userTier: profile.user_tier,
+        keySource: 'internal',
+        mode: 'ingest',
+      });
+      if (chunks === 0) {
+        return errorResponse(new InvalidRequestError('Content is empty after chunking.'));
+      }
+      return NextResponse.json<KnowledgeDocumentReingestResponse>({
+        message: `${document.title} was fetched again and stored as a new version.`,
+        chunks,
+      });
+    }
+
+    const version = await getActiveDocumentVersion(supabase, id);
+    if (!version) {
+      return errorResponse(new ConflictError('This document has no live version to re-ingest. Upload the file again.'));
+    }
+
+    const job = await createTextIngestionJob(document.file_name, version.original_text, version.page_count, user.id);
+    console.log(`Queued ingestion job ${job.id} to re-ingest ${document.file_name} from version ${version.version}.`);
+
+    after(() => processIngestionJobs({ jobId: job.id }).catch(error => {
+      console.error(`Worker failed for re-ingestion job ${job.id}:`, error);
+    }));
+
+    return NextResponse.json<KnowledgeDocumentReingestResponse>(
+      { message: `${document.title} was queued for re-ingestion.`, job: toIngestionJobSummary(job) },
+      { status: 202 }
+    );
+  } catch (error) {
+    console.error(`Unexpected error in /api/admin/documents/${id}/reingest:`, error);
+    return errorResponse(error, 'Failed to re-ingest the document.');
+  }
+});
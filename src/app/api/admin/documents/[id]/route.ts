@@ -0,0 +1,27 @@
+import { NextResponse } from 'next/server';
+import { errorResponse, NotFoundError } from '@/lib/api/errors';
+import { knowledgeDocumentChunksQuerySchema, type KnowledgeDocumentResponse } from '@/lib/api/schemas';
+import { parseSearchParams } from '@/lib/api/validation';
+import { withAuth } from '@/lib/supabase/withAuth';
+import { getKnowledgeDocument, listKnowledgeDocumentChunks } from '@/lib/vector/knowledgeDocuments';
+
+export const dynamic = 'force-dynamic';
+
+// GET /api/admin/documents/[id]?limit=&offset= - a document and a page of its live chunks
+export const GET = withAuth<{ id: string }>({ tier: ['admin'] }, async (request, { supabase }, { params }) => {
+  const { id } = await params;
+  const { limit, offset } = parseSearchParams(request.nextUrl.searchParams, knowledgeDocumentChunksQuerySchema);
+
+  try {
+    const document = await getKnowledgeDocument(supabase, id);
+    if (!document) {
+      return errorResponse(new NotFoundError('Document not found.'));
+    }
+
+    const { chunks, total } = await listKnowledgeDocumentChunks(supabase, id, { limit, offset });
+    return NextResponse.json<KnowledgeDocumentResponse>({ document, chunks, totalChunks: total });
+  } catch (error) {
+    console.error(`Unexpected error in /api/admin/documents/${id}:`, error);
+    return errorResponse(error, 'Failed to load the document.');
+  }
+});
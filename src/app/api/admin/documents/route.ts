@@ -0,0 +1,45 @@
+import { NextResponse } from 'next/server';
+import { errorResponse } from '@/lib/api/errors';
+import {
+  deleteKnowledgeDocumentsSchema,
+  knowledgeDocumentsQuerySchema,
+  type KnowledgeDocumentDeleteResponse,
+  type KnowledgeDocumentListResponse,
+} from '@/lib/api/schemas';
+import { parseJsonBody, parseSearchParams } from '@/lib/api/validation';
+import { withAuth } from '@/lib/supabase/withAuth';
+import { deleteKnowledgeDocuments, listKnowledgeDocuments } from '@/lib/vector/knowledgeDocuments';
+import { getUserDocumentStats } from '@/lib/vector/supabaseVectorClient';
+
+export const dynamic = 'force-dynamic';
+
+// GET /api/admin/documents?q=&searchIn=name|content&limit=&offset= - knowledge base documents with
+// their chunk counts, newest first, and totals for the whole knowledge base
+export const GET = withAuth({ tier: ['admin'] }, async (request, { supabase }) => {
+  const { q, searchIn, limit, offset } = parseSearchParams(request.nextUrl.searchParams, knowledgeDocumentsQuerySchema);
+
+  try {
+    const [{ documents, total }, stats] = await Promise.all([
+      listKnowledgeDocuments(supabase, { query: q, searchIn, limit, offset }),
+      getUserDocumentStats(),
+    ]);
+    return NextResponse.json<KnowledgeDocumentListResponse>({ documents, total, stats });
+  } catch (error) {
+    console.error('Unexpected error in /api/admin/documents:', error);
+    return errorResponse(error, 'Failed to load the knowledge base.');
+  }
+});
+
+// DELETE /api/admin/documents - deletes documents ({ ids }) with all their versions and chunks
+export const DELETE = withAuth({ tier: ['admin'] }, async (request, { user, supabase }) => {
+  const { ids } = await parseJsonBody(request, deleteKnowledgeDocumentsSchema);
+
+  try {
+    const deleted = await deleteKnowledgeDocuments(supabase, ids);
+    console.log(`Admin ${user.id} deleted ${deleted.length} of ${ids.length} knowledge documents.`);
+    return NextResponse.json<KnowledgeDocumentDeleteResponse>({ deleted });
+  } catch (error) {
+    console.error('Unexpected error in DELETE /api/admin/documents:', error);
+    return errorResponse(error, 'Failed to delete documents.');
+  }
+});
@@ -0,0 +1,59 @@
+import { NextResponse } from 'next/server';
+import { errorResponse, InvalidRequestError, NotFoundError } from '@/lib/api/errors';
+import { documentVersionDiffQuerySchema, type DocumentVersionDiffResponse } from '@/lib/api/schemas';
+import { parseSearchParams } from '@/lib/api/validation';
+import { withAuth } from '@/lib/supabase/withAuth';
+import { diffLines, toHunks } from '@/lib/textProcessing/diffLines';
+import { getDocumentVersion, listDocumentVersions } from '@/lib/vector/documentVersions';
+
+export const dynamic = 'force-dynamic';
+
+// GET /api/admin/documents/versions/[id]/diff?against= - line diff of the version's text against
+// another version of the same document (by default the active one, or the previous one if this
+// version is active). The older version is always the "from" side.
+export const GET = withAuth<{ id: string }>({ tier: ['admin'] }, async (request, { supabase }, { params }) => {
+  const { id } = await params;
+  const { against } = parseSearchParams(request.nextUrl.searchParams, documentVersionDiffQuerySchema);
+
+  try {
+    const version = await getDocumentVersion(supabase, id);
+    if (!version) {
+      return errorResponse(new NotFoundError('Document version not found.'));
+    }
+
+    let otherId = against;
+    if (!otherId) {
+      const versions = await listDocumentVersions(supabase, version.document_id);
+      const other = version.status === 'active'
+        ? versions.find(v => v.version < version.version)
+        : versions.find(v => v.status === 'active');
+      if (!other) {
+        return errorResponse(new InvalidRequestError('There is no other version of this document to compare with.'));
+      }
+      otherId = other.id;
+    }
+
+    const other = await getDocumentVersion(supabase, otherId);
+    if (!other || other.document_id !== version.document_id) {
+      return errorResponse(new NotFoundError('The version to compare with was not found for this document.'));
+    }
+
+    const [from, to] = other.version < version.version ? [other, version] : [version, other];
+    const lines = diffLines(from.original_text, to.original_text);
+    const { original_text: _fromText, ...fromVersion } = from; // eslint-disable-line @typescript-eslint/no-unused-vars
+    const { original_text: _toText, ...toVersion } = to; // eslint-disable-line @typescript-eslint/no-unused-vars
+
+    return NextResponse.json<DocumentVersionDiffResponse>({
+      from: fromVersion,
+      to: toVersion,
+      hunks: toHunks(lines),
+      stats: {
+        added: lines.filter(line => line.type === 'added').length,
+        removed: lines.filter(line => line.type === 'removed').length,
+      },
+    });
+  } catch (error) {
+    console.error(`Unexpected error in /api/admin/documents/versions/${id}/diff:`, error);
+    return errorResponse(error, 'Failed to compare document versions.');
+  }
+});
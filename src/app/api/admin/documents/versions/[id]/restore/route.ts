@@ -0,0 +1,28 @@
+import { NextResponse } from 'next/server';
+import { ConflictError, errorResponse, NotFoundError } from '@/lib/api/errors';
+import type { DocumentVersionResponse } from '@/lib/api/schemas';
+import { withAuth } from '@/lib/supabase/withAuth';
+import { activateDocumentVersion, getDocumentVersion } from '@/lib/vector/documentVersions';
+
+// POST /api/admin/documents/versions/[id]/restore - makes an earlier version the live one again. Its
+// chunks were kept, so this is an atomic swap; the replaced version stays available to restore.
+export const POST = withAuth<{ id: string }>({ tier: ['admin'] }, async (_request, { supabase }, { params }) => {
+  const { id } = await params;
+
+  try {
+    const version = await getDocumentVersion(supabase, id);
+    if (!version) {
+      return errorResponse(new NotFoundError('Document version not found.'));
+    }
+    if (version.status === 'failed' || version.status === 'building') {
+      return errorResponse(new ConflictError(`Version ${version.version} is ${version.status === 'failed' ? 'a failed upload' : 'still being written'} and cannot be restored.`));
+    }
+
+    const restored = await activateDocumentVersion(supabase, id);
+    console.log(`Restored version ${restored.version} of document ${restored.document_id}.`);
+    return NextResponse.json<DocumentVersionResponse>({ version: restored });
+  } catch (error) {
+    console.error(`Unexpected error in /api/admin/documents/versions/${id}/restore:`, error);
+    return errorResponse(error, 'Failed to restore document version.');
+  }
+});
@@ -0,0 +1,26 @@
+import { NextResponse } from 'next/server';
+import { errorResponse, NotFoundError } from '@/lib/api/errors';
+import { documentVersionsQuerySchema, type DocumentVersionListResponse } from '@/lib/api/schemas';
+import { parseSearchParams } from '@/lib/api/validation';
+import { withAuth } from '@/lib/supabase/withAuth';
+import { listDocumentVersions } from '@/lib/vector/documentVersions';
+import { getKnowledgeDocument } from '@/lib/vector/knowledgeDocuments';
+
+export const dynamic = 'force-dynamic';
+
+// GET /api/admin/documents/versions?documentId= - a document and its versions, newest first
+export const GET = withAuth({ tier: ['admin'] }, async (request, { supabase }) => {
+  const { documentId } = parseSearchParams(request.nextUrl.searchParams, documentVersionsQuerySchema);
+
+  try {
+    const document = await getKnowledgeDocument(supabase, documentId);
+    if (!document) {
+      return errorResponse(new NotFoundError('Document not found.'));
+    }
+    const versions = await listDocumentVersions(supabase, documentId);
+    return NextResponse.json<DocumentVersionListResponse>({ document, versions });
+  } catch (error) {
+    console.error('Unexpected error in /api/admin/documents/versions:', error);
+    return errorResponse(error, 'Failed to load document versions.');
+  }
+});
@@ -0,0 +1,59 @@
+import { NextResponse } from 'next/server';
+import { errorResponse, NotFoundError } from '@/lib/api/errors';
+import { updateConversationSchema, type ConversationDetailResponse, type ConversationResponse } from '@/lib/api/schemas';
+import { parseJsonBody } from '@/lib/api/validation';
+import { withAuth } from '@/lib/supabase/withAuth';
+import { deleteConversation, getConversation, updateConversation } from '@/lib/conversations';
+
+export const dynamic = 'force-dynamic';
+
+// GET /api/conversations/[id] - a conversation with all its messages
+export const GET = withAuth<{ id: string }>({}, async (_request, { user, supabase }, { params }) => {
+  const { id } = await params;
+
+  try {
+    const conversation = await getConversation(supabase, user.id, id);
+    if (!conversation) {
+      return errorResponse(new NotFoundError('Conversation not found.'));
+    }
+    return NextResponse.json<ConversationDetailResponse>({ conversation });
+  } catch (e) {
+    console.error(`Error in GET /api/conversations/${id}:`, e);
+    return errorResponse(e, 'Failed to load conversation.');
+  }
+});
+
+// PATCH /api/conversations/[id] - rename ({ title }) and/or pin ({ pinned })
+export const PATCH = withAuth<{ id: string }>({}, async (request, { user, supabase }, { params }) => {
+  const { id } = await params;
+
+  const { title, pinned } = await parseJsonBody(request, updateConversationSchema);
+
+  try {
+    const conversation = await updateConversation(supabase, user.id, id, { title, pinned });
+    if (!conversation) {
+      return errorResponse(new NotFoundError('Conversation not found.'));
+    }
+    return NextResponse.json<ConversationResponse>({ conversation });
+  } catch (e) {
+    console.error(`Error in PATCH /api/conversations/${id}:`, e);
+    return errorResponse(e, 'Failed to update conversation.');
+  }
+});
+
+// DELETE /api/conversations/[id] - delete a conversation and its messages
+export const DELETE = withAuth<{ id: string }>({}, async (_request, { user, supabase }, { params }) => {
+  const { id } = await params;
+
+  try {
+    const deleted = await deleteConversation(supabase, user.id, id);
+    if (!deleted) {
+      return errorResponse(new NotFoundError('Conversation not found.'));
+    }
+    return NextResponse.json({ success: true });
+  } catch (e) {
+    console.error(`Error in DELETE /api/conversations/${id}:`, e);
+    return errorResponse(e, 'Failed to delete conversation.');
+  }
+});
+
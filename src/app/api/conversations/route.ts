@@ -0,0 +1,40 @@
+import { NextResponse } from 'next/server';
+import { errorResponse } from '@/lib/api/errors';
+import {
+  conversationListQuerySchema,
+  createConversationSchema,
+  type ConversationListResponse,
+  type ConversationResponse,
+} from '@/lib/api/schemas';
+import { parseSearchParams, parseWith } from '@/lib/api/validation';
+import { withAuth } from '@/lib/supabase/withAuth';
+import { createConversation, listConversations } from '@/lib/conversations';
+
+export const dynamic = 'force-dynamic';
+
+// GET /api/conversations?q=<search> - the user's conversations for the sidebar
+export const GET = withAuth({}, async (request, { user, supabase }) => {
+  const search = parseSearchParams(request.nextUrl.searchParams, conversationListQuerySchema).q || undefined;
+
+  try {
+    const conversations = await listConversations(supabase, user.id, search);
+    return NextResponse.json<ConversationListResponse>({ conversations });
+  } catch (e) {
+    console.error('Error in GET /api/conversations:', e);
+    return errorResponse(e, 'Failed to load conversations.');
+  }
+});
+
+// POST /api/conversations - start an empty conversation
+export const POST = withAuth({}, async (request, { user, supabase }) => {
+  // The body is optional
+  const { title, chatMode } = parseWith(createConversationSchema, await request.json().catch(() => ({})));
+
+  try {
+    const conversation = await createConversation(supabase, user.id, { title, chatMode });
+    return NextResponse.json<ConversationResponse>({ conversation }, { status: 201 });
+  } catch (e) {
+    console.error('Error in POST /api/conversations:', e);
+    return errorResponse(e, 'Failed to create conversation.');
+  }
+});
@@ -1,4 +1,7 @@
 import { NextResponse } from 'next/server';
+import { errorResponse } from '@/lib/api/errors';
+import { debugChatRequestSchema } from '@/lib/api/schemas';
+import { parseJsonBody } from '@/lib/api/validation';
 import { queryTopK } from '@/lib/vector/supabaseVectorClient';
 
 export async function GET() {
@@ -26,17 +29,13 @@ export async function GET() {
     
   } catch (error) {
     console.error('Debug chat GET error:', error);
-    return NextResponse.json({
-      success: false,
-      error: error instanceof Error ? error.message : 'Unknown error'
-    }, { status: 500 });
+    return errorResponse(error, 'Debug RAG query failed.');
   }
 }
 
 export async function POST(request: Request) {
   try {
-    const body = await request.json();
-    const { message, conversationHistory } = body;
+    const { message, conversationHistory } = await parseJsonBody(request, debugChatRequestSchema);
     
     console.log('Debug Chat - Message:', message);
     console.log('Debug Chat - Conversation History:', conversationHistory);
@@ -61,9 +60,6 @@ export async function POST(request: Request) {
     
   } catch (error) {
     console.error('Debug chat POST error:', error);
-    return NextResponse.json({
-      success: false,
-      error: error instanceof Error ? error.message : 'Unknown error'
-    }, { status: 500 });
+    return errorResponse(error, 'Debug RAG query failed.');
   }
 }
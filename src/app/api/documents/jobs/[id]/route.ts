@@ -0,0 +1,68 @@
+import { after, NextResponse } from 'next/server';
+import { ConflictError, errorResponse, NotFoundError } from '@/lib/api/errors';
+import { ingestionJobActionSchema, type IngestionJobResponse } from '@/lib/api/schemas';
+import { parseJsonBody } from '@/lib/api/validation';
+import { withAuth } from '@/lib/supabase/withAuth';
+import { cancelIngestionJob, getIngestionJob, retryIngestionJob, toIngestionJobSummary } from '@/lib/ingestion/jobs';
+import { processIngestionJobs } from '@/lib/ingestion/worker';
+
+export const dynamic = 'force-dynamic';
+export const maxDuration = 60;
+
+// Runs the job after the response is sent. Claiming is atomic, so a job another worker holds is skipped.
+function startWorker(jobId: string) {
+  after(() => processIngestionJobs({ jobId }).catch(error => {
+    console.error(`Ingestion worker failed for job ${jobId}:`, error);
+  }));
+}
+
+// GET /api/documents/jobs/[id] - a job's status with per-stage progress. A queued job is picked up
+// here too, so a job paused by the worker's time budget keeps going while someone watches it.
+export const GET = withAuth<{ id: string }>({ tier: ['admin'] }, async (_request, _auth, { params }) => {
+  const { id } = await params;
+
+  try {
+    const job = await getIngestionJob(id);
+    if (!job) {
+      return errorResponse(new NotFoundError('Ingestion job not found.'));
+    }
+    if (job.status === 'queued') startWorker(job.id);
+    return NextResponse.json<IngestionJobResponse>({ job: toIngestionJobSummary(job) });
+  } catch (e) {
+    console.error(`Error in GET /api/documents/jobs/${id}:`, e);
+    return errorResponse(e, 'Failed to load ingestion job.');
+  }
+});
+
+// POST /api/documents/jobs/[id] - { action: 'retry' } a failed or cancelled job (it resumes at the
+// stage it stopped in), or { action: 'cancel' } a queued or running one
+export const POST = withAuth<{ id: string }>({ tier: ['admin'] }, async (request, _auth, { params }) => {
+  const { id } = await params;
+
+  const { action } = await parseJsonBody(request, ingestionJobActionSchema);
+
+  try {
+    const job = await getIngestionJob(id);
+    if (!job) {
+      return errorResponse(new NotFoundError('Ingestion job not found.'));
+    }
+
+    if (action === 'cancel') {
+      const cancelled = await cancelIngestionJob(id);
+      if (!cancelled) {
+        return errorResponse(new ConflictError(`The job has already ${job.status === 'succeeded' ? 'succeeded' : 'stopped'} and cannot be cancelled.`));
+      }
+      return NextResponse.json<IngestionJobResponse>({ message: 'Job cancelled.', job: toIngestionJobSummary(cancelled) });
+    }
+
+    const retried = await retryIngestionJob(id, job.attempts);
+    if (!retried) {
+      return errorResponse(new ConflictError('Only failed or cancelled jobs can be retried.'));
+    }
+    startWorker(id);
+    return NextResponse.json<IngestionJobResponse>({ message: 'Job queued again.', job: toIngestionJobSummary(retried) });
+  } catch (e) {
+    console.error(`Error in POST /api/documents/jobs/${id}:`, e);
+    return errorResponse(e, `Failed to ${action} ingestion job.`);
+  }
+});
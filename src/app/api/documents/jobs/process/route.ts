@@ -0,0 +1,24 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { errorResponse, UnauthorizedError } from '@/lib/api/errors';
+import { processIngestionJobs } from '@/lib/ingestion/worker';
+
+export const dynamic = 'force-dynamic';
+export const maxDuration = 60;
+
+// GET /api/documents/jobs/process - runs waiting ingestion jobs for up to ~50 seconds. Meant for a
+// scheduler (e.g. Vercel Cron), which sends `Authorization: Bearer $CRON_SECRET`; it picks up jobs
+// whose worker timed out or stopped with nobody watching the upload.
+export async function GET(request: NextRequest) {
+  const secret = process.env.CRON_SECRET;
+  if (!secret || request.headers.get('authorization') !== `Bearer ${secret}`) {
+    return errorResponse(new UnauthorizedError('Invalid or missing worker secret.'));
+  }
+
+  try {
+    const steps = await processIngestionJobs();
+    return NextResponse.json({ steps });
+  } catch (e) {
+    console.error('Error in GET /api/documents/jobs/process:', e);
+    return errorResponse(e, 'Failed to process ingestion jobs.');
+  }
+}
@@ -0,0 +1,18 @@
+import { NextResponse } from 'next/server';
+import { errorResponse } from '@/lib/api/errors';
+import type { IngestionJobListResponse } from '@/lib/api/schemas';
+import { withAuth } from '@/lib/supabase/withAuth';
+import { listIngestionJobs, toIngestionJobSummary } from '@/lib/ingestion/jobs';
+
+export const dynamic = 'force-dynamic';
+
+// GET /api/documents/jobs - recent ingestion jobs, newest first
+export const GET = withAuth({ tier: ['admin'] }, async () => {
+  try {
+    const jobs = await listIngestionJobs();
+    return NextResponse.json<IngestionJobListResponse>({ jobs: jobs.map(toIngestionJobSummary) });
+  } catch (e) {
+    console.error('Error in GET /api/documents/jobs:', e);
+    return errorResponse(e, 'Failed to load ingestion jobs.');
+  }
+});
@@ -1,55 +1,29 @@
-import { NextResponse, type NextRequest } from 'next/server';
-import { cookies } from 'next/headers';
-import { createServerClient, type CookieOptions } from '@supabase/ssr';
+import { NextResponse } from 'next/server';
+import { errorResponse, InternalError, InvalidRequestError, KeyMissingError, ProviderError } from '@/lib/api/errors';
+import { imageGenerateSchema, type ImageGenerateResponse } from '@/lib/api/schemas';
+import { parseJsonBody } from '@/lib/api/validation';
+import { withAuth } from '@/lib/supabase/withAuth';
 import { decrypt } from '@/lib/encryption';
 import OpenAI from 'openai';
-
-export async function POST(request: NextRequest) {
-  const cookieStore = await cookies();
-
-  const supabase = createServerClient(
-    process.env.NEXT_PUBLIC_SUPABASE_URL!,
-    process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!,
-    {
-      cookies: {
-        get(name: string) {
-          return cookieStore.get(name)?.value;
-        },
-        set(name: string, value: string, options: CookieOptions) {
-          cookieStore.set({ name, value, ...options });
-        },
-        remove(name: string, options: CookieOptions) {
-          cookieStore.set({ name, value: '', ...options });
-        },
-      },
-    }
-  );
-
-  // 1. Authenticate user
-  const { data: { user }, error: userError } = await supabase.auth.getUser();
-
-  if (userError) {
-    console.error('Image API: Error getting user:', userError.message);
-    return NextResponse.json({ error: 'Authentication failed.', details: userError.message }, { status: 500 });
-  }
-  if (!user) {
-    console.log('Image API: No user found.');
-    return NextResponse.json({ error: 'Unauthorized. Please sign in.' }, { status: 401 });
+import { meter } from '@/lib/usage';
+import { rateLimitExceededResponse, rateLimiter } from '@/lib/rateLimit/rateLimiter';
+
+const IMAGE_MODEL = 'dall-e-3';
+
+export const POST = withAuth({}, async (request, { user, profile, supabase }) => {
+  // The user's tier sets their rate limit and is recorded with usage
+  const rateLimit = await rateLimiter.check('image', {
+    id: `user:${user.id}`,
+    tier: profile.user_tier,
+  });
+  if (!rateLimit.allowed) {
+    return rateLimitExceededResponse(rateLimit);
   }
 
-  // 2. Get the prompt from the request body
-  let prompt: string;
-  try {
-    const body = await request.json();
-    prompt = body.prompt;
-    if (!prompt || typeof prompt !== 'string') {
-      return NextResponse.json({ error: 'Prompt is required and must be a string.' }, { status: 400 });
-    }
-  } catch (_) { // eslint-disable-line @typescript-eslint/no-unused-vars
-    return NextResponse.json({ error: 'Invalid request body.' }, { status: 400 });
-  }
+  // 1. Get the prompt from the request body
+  const { prompt } = await parseJsonBody(request, imageGenerateSchema);
 
-  // 3. Retrieve and decrypt the OpenAI API key
+  // 2. Retrieve and decrypt the OpenAI API key
   let apiKey: string;
   try {
     const { data: apiKeyData, error: dbError } = await supabase
@@ -59,12 +33,12 @@ export async function POST(request: NextRequest) {
       .eq('provider', 'openai') 
       .single();
 
-    if (dbError) {
+    if (dbError && dbError.code !== 'PGRST116') {
       console.error('Image API: DB error fetching API key:', dbError.message);
-      return NextResponse.json({ error: 'Failed to retrieve OpenAI API key.', details: dbError.message }, { status: 500 });
+      return errorResponse(new InternalError('Failed to retrieve OpenAI API key.', dbError));
     }
     if (!apiKeyData) {
-      return NextResponse.json({ error: 'OpenAI API key not found for this user. Cannot generate image.' }, { status: 404 });
+      return errorResponse(new KeyMissingError('openai', 'OpenAI API key not found for this user. Cannot generate image.'));
     }
 
     apiKey = decrypt({
@@ -74,27 +48,26 @@ export async function POST(request: NextRequest) {
     });
 
   } catch (decryptionError: unknown) {
-    let errorDetails = 'Unknown decryption error';
-    if (decryptionError instanceof Error) {
-      errorDetails = decryptionError.message;
-      console.error('Image API: Decryption failed:', errorDetails);
-    } else {
-      console.error('Image API: Non-error thrown during decryption:', decryptionError);
-    }
-    return NextResponse.json({ error: 'Failed to decrypt OpenAI API key.', details: errorDetails }, { status: 500 });
+    console.error('Image API: Decryption failed:', decryptionError);
+    return errorResponse(new InternalError('Failed to decrypt OpenAI API key.', decryptionError));
   }
 
-  // 4. Call OpenAI Image Generation API (DALL-E)
+  // 3. Call OpenAI Image Generation API (DALL-E), recorded as a usage event on the user's key
   try {
     const openai = new OpenAI({ apiKey });
 
-    const imageResponse = await openai.images.generate({
-      model: "dall-e-3",
-      prompt: prompt,
-      n: 1,
-      size: "1024x1024",
-      response_format: "url",
-    });
+    const imageResponse = await meter(
+      { userId: user.id, userTier: profile.user_tier, keySource: 'byok', purpose: 'image' },
+      { operation: 'image', provider: 'openai', model: IMAGE_MODEL },
+      () => openai.images.generate({
+        model: IMAGE_MODEL,
+        prompt: prompt,
+        n: 1,
+        size: "1024x1024",
+        response_format: "url",
+      }),
+      result => ({ images: result.data?.length ?? 0 })
+    );
 
     // Refined check for image data and URL
     if (!imageResponse.data || imageResponse.data.length === 0) {
@@ -110,7 +83,7 @@ export async function POST(request: NextRequest) {
       throw new Error('Failed to get image URL from OpenAI image object.');
     }
 
-    return NextResponse.json({ imageUrl: imageUrl, fullResponse: firstImage }, { status: 200 });
+    return NextResponse.json<ImageGenerateResponse>({ imageUrl: imageUrl, fullResponse: firstImage }, { status: 200 });
 
   } catch (openaiError: unknown) {
     console.error('Image API: OpenAI API error object:', openaiError);
@@ -118,6 +91,7 @@ export async function POST(request: NextRequest) {
     let errorMessage = 'Failed to generate image using OpenAI API.';
     let errorStatus = 500;
     let errorDetails: string | undefined = undefined;
+    let isContentPolicyViolation = false;
 
     if (openaiError instanceof OpenAI.APIError) {
       errorMessage = openaiError.message || errorMessage;
@@ -152,6 +126,7 @@ export async function POST(request: NextRequest) {
       } else if (errorStatus === 400 && nestedError?.code === 'content_policy_violation') {
         errorMessage = `Your prompt was rejected by OpenAI\'s content policy. Please modify your prompt.`;
         errorDetails = nestedError?.message || 'Content policy violation'; // Ensure details has a value
+        isContentPolicyViolation = true;
       }
       // Safely try to get the most relevant error object to log
       let errorToLog: unknown = openaiError.error; // Default to APIError.error
@@ -172,6 +147,9 @@ export async function POST(request: NextRequest) {
       console.error('Image API: Non-standard error thrown from OpenAI Image call:', openaiError);
     }
     
-    return NextResponse.json({ error: errorMessage, details: errorDetails || errorMessage }, { status: errorStatus });
+    // A rejected prompt is the user's to fix; anything else is reported as a provider failure
+    return errorResponse(isContentPolicyViolation
+      ? new InvalidRequestError(errorMessage, errorDetails)
+      : new ProviderError('openai', errorDetails ?? openaiError, errorMessage));
   }
-} 
\ No newline at end of file
+});
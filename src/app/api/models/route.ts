@@ -0,0 +1,20 @@
+import { NextResponse } from 'next/server';
+import { withAuth } from '@/lib/supabase/withAuth';
+import { getChatModelsForTier, getDefaultChatModel } from '@/lib/ai/models';
+import { CHAT_PROVIDER_IDS } from '@/lib/ai/chatProvider';
+import type { ModelListResponse } from '@/lib/api/schemas';
+
+export const dynamic = 'force-dynamic';
+
+// GET /api/models - the chat models the user's tier may use, with each provider's default, for the model picker
+export const GET = withAuth({}, async (_request, { profile }) => {
+  const models = getChatModelsForTier(profile.user_tier);
+
+  const defaults: ModelListResponse['defaults'] = {};
+  for (const provider of CHAT_PROVIDER_IDS) {
+    const model = getDefaultChatModel(profile.user_tier, provider);
+    if (model) defaults[provider] = model;
+  }
+
+  return NextResponse.json<ModelListResponse>({ models, defaults });
+});
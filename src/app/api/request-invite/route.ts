@@ -1,6 +1,10 @@
 import { NextResponse, type NextRequest } from 'next/server';
+import { ApiError, errorResponse, ConflictError, InternalError, InvalidRequestError } from '@/lib/api/errors';
+import { requestInviteSchema } from '@/lib/api/schemas';
+import { parseJsonBody } from '@/lib/api/validation';
 import { createClient } from '@supabase/supabase-js';
 import { Resend } from 'resend';
+import { getClientIp, rateLimitExceededResponse, rateLimiter } from '@/lib/rateLimit/rateLimiter';
 
 // Instantiate Resend - this is safe to do here as it only uses the key when a method is called
 const resend = new Resend(process.env.RESEND_API_KEY);
@@ -9,21 +13,27 @@ const FROM_EMAIL = 'lucient <noreply@hellolucient.com>'; // Using your verified
 
 export async function POST(request: NextRequest) {
   console.log('Request-invite API called');
+
+  // Public form: limit submissions per client IP
+  const rateLimit = await rateLimiter.check('invite_request', { id: `ip:${getClientIp(request.headers)}`, tier: 'anonymous' });
+  if (!rateLimit.allowed) {
+    return rateLimitExceededResponse(rateLimit);
+  }
   
   // Check for required environment variables
   if (!process.env.NEXT_PUBLIC_SUPABASE_URL) {
     console.error('Missing NEXT_PUBLIC_SUPABASE_URL');
-    return NextResponse.json({ error: 'Server configuration error.' }, { status: 500 });
+    return errorResponse(new InternalError('Server configuration error.'));
   }
   
   if (!process.env.SUPABASE_SERVICE_ROLE_KEY) {
     console.error('Missing SUPABASE_SERVICE_ROLE_KEY');
-    return NextResponse.json({ error: 'Server configuration error.' }, { status: 500 });
+    return errorResponse(new InternalError('Server configuration error.'));
   }
   
   if (!process.env.RESEND_API_KEY) {
     console.error('Missing RESEND_API_KEY');
-    return NextResponse.json({ error: 'Server configuration error.' }, { status: 500 });
+    return errorResponse(new InternalError('Server configuration error.'));
   }
   
   // Initialize Supabase client inside the handler
@@ -33,17 +43,8 @@ export async function POST(request: NextRequest) {
   );
 
   try {
-    const { firstName, lastName, email } = await request.json();
-
-    // Basic validation
-    if (!firstName || !lastName || !email) {
-      return NextResponse.json({ error: 'All fields are required.' }, { status: 400 });
-    }
-    if (typeof email !== 'string' || !email.includes('@')) {
-        return NextResponse.json({ error: 'A valid email is required.' }, { status: 400 });
-    }
-
-    const trimmedEmail = email.toLowerCase().trim();
+    // The schema trims and lower-cases the email
+    const { firstName, lastName, email } = await parseJsonBody(request, requestInviteSchema);
 
     // Insert the new invite request into the database
     const { error: dbError } = await supabase
@@ -51,17 +52,17 @@ export async function POST(request: NextRequest) {
       .insert({
         first_name: firstName,
         last_name: lastName,
-        email: trimmedEmail,
+        email,
         status: 'pending', // Default status
       });
 
     if (dbError) {
         // Handle potential unique constraint violation (duplicate email) gracefully
         if (dbError.code === '23505') {
-            return NextResponse.json({ error: 'This email address has already been submitted.' }, { status: 409 });
+            return errorResponse(new ConflictError('This email address has already been submitted.'));
         }
         console.error('Supabase error inserting invite request:', dbError);
-        return NextResponse.json({ error: 'Could not submit your request at this time.' }, { status: 500 });
+        return errorResponse(new InternalError('Could not submit your request at this time.'));
     }
 
     // --- Send Email Notifications ---
@@ -79,14 +80,14 @@ export async function POST(request: NextRequest) {
             <ul>
               <li><strong>First Name:</strong> ${firstName}</li>
               <li><strong>Last Name:</strong> ${lastName}</li>
-              <li><strong>Email:</strong> ${trimmedEmail}</li>
+              <li><strong>Email:</strong> ${email}</li>
             </ul>
           `,
         }),
         // Email 2: Send confirmation to the User
         resend.emails.send({
           from: FROM_EMAIL,
-          to: trimmedEmail, // Send to the user who signed up
+          to: email, // Send to the user who signed up
           subject: 'Thanks for your interest in lucient!',
           html: `
             <h1>Request Received!</h1>
@@ -108,7 +109,7 @@ export async function POST(request: NextRequest) {
 
   } catch (e) {
     console.error('Error processing invite request:', e);
-    return NextResponse.json({ error: 'Invalid request format.' }, { status: 400 });
+    return errorResponse(e instanceof ApiError ? e : new InvalidRequestError('Invalid request format.'));
   }
 }
 
@@ -1,12 +1,18 @@
 import { createClient } from '@supabase/supabase-js';
 import { NextResponse } from 'next/server';
+import type { z } from 'zod';
+import { errorResponse, InternalError, InvalidRequestError, UnauthorizedError } from '@/lib/api/errors';
+import { setPasswordSchema } from '@/lib/api/schemas';
+import { parseJsonBody } from '@/lib/api/validation';
 
 export async function POST(request: Request) {
-  const { password, accessToken } = await request.json();
-
-  if (!password || !accessToken) {
-    return new NextResponse(JSON.stringify({ error: 'Password and access token are required.' }), { status: 400 });
+  let body: z.infer<typeof setPasswordSchema>;
+  try {
+    body = await parseJsonBody(request, setPasswordSchema);
+  } catch (error) {
+    return errorResponse(error);
   }
+  const { password, accessToken } = body;
 
   const supabase = createClient(
     process.env.NEXT_PUBLIC_SUPABASE_URL!,
@@ -20,7 +26,7 @@ export async function POST(request: Request) {
   });
 
   if (sessionError) {
-    return new NextResponse(JSON.stringify({ error: 'Failed to authenticate user with token.' }), { status: 401 });
+    return errorResponse(new UnauthorizedError('Failed to authenticate user with token.'));
   }
 
   // Now that the user is authenticated, update their password
@@ -29,7 +35,11 @@ export async function POST(request: Request) {
   });
 
   if (updateError) {
-    return new NextResponse(JSON.stringify({ error: `Failed to update password: ${updateError.message}` }), { status: 500 });
+    // 4xx auth errors (e.g. a weak password) are the user's to fix, so their message is shown
+    if (updateError.status && updateError.status < 500) {
+      return errorResponse(new InvalidRequestError(`Failed to update password: ${updateError.message}`));
+    }
+    return errorResponse(new InternalError('Failed to update password.', updateError));
   }
 
   return NextResponse.json({ message: 'Password updated successfully.' });
@@ -1,4 +1,5 @@
 import { NextResponse } from 'next/server';
+import { errorResponse } from '@/lib/api/errors';
 import { queryTopK } from '@/lib/vector/supabaseVectorClient';
 
 export async function GET() {
@@ -47,10 +48,6 @@ export async function GET() {
     
   } catch (error) {
     console.error('RAG test error:', error);
-    return NextResponse.json({
-      success: false,
-      error: error instanceof Error ? error.message : 'Unknown error',
-      stack: error instanceof Error ? error.stack : undefined
-    }, { status: 500 });
+    return errorResponse(error, 'RAG test failed.');
   }
 }
@@ -0,0 +1,37 @@
+import { NextResponse } from 'next/server';
+import { errorResponse } from '@/lib/api/errors';
+import { usageQuerySchema } from '@/lib/api/schemas';
+import { parseSearchParams } from '@/lib/api/validation';
+import { withAuth } from '@/lib/supabase/withAuth';
+import { getUsageSummary, rollUpUsage } from '@/lib/usage';
+
+export const dynamic = 'force-dynamic';
+
+// GET /api/usage?from=&to=&keySource= - usage and estimated cost, rolled up by user, mode, purpose and model.
+// Admins see every user (e.g. keySource=internal for spend on our keys); other users see their own usage.
+export const GET = withAuth({}, async (request, { supabase }) => {
+  const { from, to, keySource } = parseSearchParams(request.nextUrl.searchParams, usageQuerySchema);
+
+  try {
+    const rows = await getUsageSummary(supabase, { from, to, keySource });
+    const [totals] = rollUpUsage(rows, () => 'total');
+
+    return NextResponse.json({
+      from: from.toISOString(),
+      to: to.toISOString(),
+      keySource: keySource ?? null,
+      totals: totals ?? { key: 'total', calls: 0, failures: 0, inputTokens: 0, outputTokens: 0, images: 0, costUsd: 0 },
+      byUser: rollUpUsage(rows, row => row.user_id ?? 'system').map(group => {
+        const row = rows.find(r => (r.user_id ?? 'system') === group.key);
+        return { ...group, email: row?.email ?? null, userTier: row?.user_tier ?? null };
+      }),
+      byMode: rollUpUsage(rows, row => row.mode ?? 'none'),
+      byPurpose: rollUpUsage(rows, row => `${row.operation}:${row.purpose ?? 'none'}`),
+      byModel: rollUpUsage(rows, row => `${row.provider}/${row.model}`),
+      rows,
+    });
+  } catch (e) {
+    console.error('Error in GET /api/usage:', e);
+    return errorResponse(e, 'Failed to load usage.');
+  }
+});
@@ -1,122 +1,51 @@
-import { NextResponse, type NextRequest } from 'next/server';
-import { createServerClient, type CookieOptions } from '@supabase/ssr'; // Changed import
-import { cookies } from 'next/headers';
+import { NextResponse } from 'next/server';
+import { errorResponse, InternalError, InvalidRequestError, KeyMissingError } from '@/lib/api/errors';
+import { saveUserKeySchema, userKeyQuerySchema, type UserKeyResponse } from '@/lib/api/schemas';
+import { parseJsonBody, parseSearchParams } from '@/lib/api/validation';
+import { withAuth } from '@/lib/supabase/withAuth';
 import { encrypt } from '@/lib/encryption'; // Your encryption utility
-import { getUserApiKey } from '@/lib/user-keys'; // Import the new function
+import { getUserProviderCredentials } from '@/lib/user-keys';
+import { isAllowedEndpoint } from '@/lib/ai/providers/local';
 
-export async function GET(request: NextRequest) {
-  const cookieStore = await cookies();
-  const supabase = createServerClient(
-    process.env.NEXT_PUBLIC_SUPABASE_URL!,
-    process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!,
-    {
-      cookies: {
-        get(name: string) {
-          return cookieStore.get(name)?.value;
-        },
-      },
-    }
-  );
-
-  const { data: { user } } = await supabase.auth.getUser();
-
-  if (!user) {
-    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
-  }
-
-  const { searchParams } = new URL(request.url);
-  const provider = searchParams.get('provider');
-
-  if (!provider) {
-    return NextResponse.json({ error: 'Provider query parameter is required' }, { status: 400 });
-  }
+export const GET = withAuth({}, async (request, { user, supabase }) => {
+  const { provider } = parseSearchParams(request.nextUrl.searchParams, userKeyQuerySchema);
 
   try {
     // Use the reusable function to get the key
-    const decryptedKey = await getUserApiKey(user.id, provider, supabase);
+    const credentials = await getUserProviderCredentials(user.id, provider, supabase);
 
-    if (!decryptedKey) {
-      return NextResponse.json({ error: 'API key for this provider not found.' }, { status: 404 });
+    if (!credentials) {
+      return errorResponse(new KeyMissingError(provider, 'API key for this provider not found.'));
     }
     
     // Return a masked version of the key for display purposes
-    return NextResponse.json({ apiKey: `...${decryptedKey.slice(-4)}` });
+    return NextResponse.json<UserKeyResponse>({
+      apiKey: `...${credentials.apiKey.slice(-4)}`,
+      baseUrl: credentials.baseUrl,
+    });
 
   } catch (e) {
     console.error('Error in GET /api/user-keys:', e);
-    return NextResponse.json({ error: 'Failed to process API key.' }, { status: 500 });
-  }
-}
-
-export async function POST(request: NextRequest) {
-  const cookieStore = await cookies(); // Await cookies
-
-  // Initialize Supabase client using @supabase/ssr
-  const supabase = createServerClient(
-    process.env.NEXT_PUBLIC_SUPABASE_URL!,
-    process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!,
-    {
-      cookies: {
-        get(name: string) {
-          return cookieStore.get(name)?.value;
-        },
-        set(name: string, value: string, options: CookieOptions) {
-          // For API Routes, we need to be able to set cookies
-          cookieStore.set({ name, value, ...options });
-        },
-        remove(name: string, options: CookieOptions) {
-          // For API Routes, we need to be able to remove cookies
-          cookieStore.set({ name, value: '', ...options }); // Or cookieStore.delete for newer next versions if applicable
-        }
-      }
-    }
-  );
-
-  // 1. Get the current user (more secure than getSession for this operation)
-  const { data: { user }, error: userError } = await supabase.auth.getUser();
-
-  if (userError) {
-    console.error('Error getting user:', userError.message);
-    return NextResponse.json({ error: 'Failed to get user session.', details: userError.message }, { status: 500 });
-  }
-
-  if (!user) {
-    console.log('[API /api/user-keys] No user found (getUser).');
-    return NextResponse.json({ error: 'Unauthorized. Please sign in.' }, { status: 401 });
+    return errorResponse(e, 'Failed to process API key.');
   }
+});
 
+export const POST = withAuth({}, async (request, { user, supabase }) => {
   const userId = user.id;
 
-  // 2. Parse the request body
-  let provider: string;
-  let apiKey: string;
-  let label: string | undefined;
+  // 1. Parse the request body
+  const { provider, apiKey, label, baseUrl } = await parseJsonBody(request, saveUserKeySchema);
 
-  try {
-    const body = await request.json();
-    provider = body.provider;
-    apiKey = body.apiKey;
-    label = body.label;
-
-    if (!provider || typeof provider !== 'string') {
-      return NextResponse.json({ error: 'Provider is required and must be a string.' }, { status: 400 });
-    }
-    if (!apiKey || typeof apiKey !== 'string') {
-      return NextResponse.json({ error: 'API Key is required and must be a string.' }, { status: 400 });
-    }
-    if (label && typeof label !== 'string') {
-      return NextResponse.json({ error: 'Label must be a string if provided.' }, { status: 400 });
-    }
-
-  } catch (_) { // eslint-disable-line @typescript-eslint/no-unused-vars
-    return NextResponse.json({ error: 'Invalid request body.' }, { status: 400 });
+  // The server calls this endpoint for the user, so it must not reach our own network
+  if (baseUrl && !(await isAllowedEndpoint(baseUrl))) {
+    return errorResponse(new InvalidRequestError('Base URL must be a publicly reachable endpoint.'));
   }
 
   try {
-    // 3. Encrypt the API key
+    // 2. Encrypt the API key
     const { encryptedText, iv, authTag } = encrypt(apiKey);
 
-    // 4. Save/Update the key in the database
+    // 3. Save/Update the key in the database
     const { data, error: dbError } = await supabase
       .from('user_llm_api_keys')
       .upsert({
@@ -126,6 +55,7 @@ export async function POST(request: NextRequest) {
         iv: iv,
         auth_tag: authTag,
         label: label,
+        base_url: baseUrl ?? null,
       }, {
         onConflict: 'user_id,provider',
       })
@@ -134,25 +64,18 @@ export async function POST(request: NextRequest) {
 
     if (dbError) {
       console.error('Supabase DB Error:', dbError.message);
-      return NextResponse.json({ error: 'Failed to save API key to database.', details: dbError.message }, { status: 500 });
+      return errorResponse(new InternalError('Failed to save API key to database.', dbError));
     }
 
     return NextResponse.json({ message: 'API Key saved successfully.', data }, { status: 200 });
 
   } catch (encryptionError: unknown) {
-    let errorMessage = 'An unexpected error occurred while saving the API key.';
-    let errorDetails = 'Unknown error during encryption/save process.';
-
-    if (encryptionError instanceof Error) {
-      errorDetails = encryptionError.message;
-      console.error('Encryption/Save Error:', errorDetails);
-      if (errorDetails.includes('USER_API_KEY_ENCRYPTION_SECRET') || errorDetails.includes('Encryption input must be')) {
-        // Keep original more specific message for this known server config issue
-        errorMessage = 'Server configuration error during encryption.'; 
-      }
-    } else {
-      console.error('Encryption/Save Error (non-standard error object):', encryptionError);
-    }
-    return NextResponse.json({ error: errorMessage, details: errorDetails }, { status: 500 });
+    console.error('Encryption/Save Error:', encryptionError);
+    const errorDetails = encryptionError instanceof Error ? encryptionError.message : '';
+    // Keep a more specific message for this known server config issue
+    const errorMessage = errorDetails.includes('USER_API_KEY_ENCRYPTION_SECRET') || errorDetails.includes('Encryption input must be')
+      ? 'Server configuration error during encryption.'
+      : 'An unexpected error occurred while saving the API key.';
+    return errorResponse(encryptionError, errorMessage);
   }
-} 
\ No newline at end of file
+});
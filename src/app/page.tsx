@@ -2,7 +2,7 @@
 
 import Link from 'next/link';
 import { Button } from '@/components/ui/button';
-import { useState, useEffect, FormEvent, useRef } from 'react';
+import { useState, useEffect, useCallback, FormEvent, useRef } from 'react';
 import { 
   DropdownMenu,
   DropdownMenuContent,
@@ -16,8 +16,25 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@
 import { Label } from "@/components/ui/label";
 import TextareaAutosize from 'react-textarea-autosize';
 import Image from 'next/image';
-import { ChevronDown, Check, Info } from 'lucide-react';
+import { ChevronDown, Check, History, Info } from 'lucide-react';
 import ReactMarkdown from 'react-markdown';
+import { readSSEStream } from '@/lib/sse';
+import { ApiRequestError, toApiRequestError, type ApiErrorBody, type ApiErrorCode } from '@/lib/api/errorCodes';
+import type {
+  ChatRequestBody,
+  ConversationDetailResponse,
+  ConversationListResponse,
+  ImageGenerateResponse,
+  ModelListResponse,
+} from '@/lib/api/schemas';
+import type { ChatProviderId } from '@/lib/ai/chatProvider';
+import type { ChatModelInfo } from '@/lib/ai/models';
+import CitationDrawer from '@/components/chat/CitationDrawer';
+import CitationFootnotes from '@/components/chat/CitationFootnotes';
+import ConversationSidebar from '@/components/chat/ConversationSidebar';
+import VerificationNotice from '@/components/chat/VerificationNotice';
+import { CITATION_MARKER_PATTERN } from '@/lib/rag/citations';
+import type { ChatChannel, ChatStreamEvents, Citation, CitationVerification, ConversationSummary, StoredMessage } from '@/types/chat';
 
 // Preprocess text to convert URLs in parentheses to markdown links
 const preprocessMarkdown = (text: string): string => {
@@ -29,19 +46,25 @@ const preprocessMarkdown = (text: string): string => {
   });
 };
 
+// Turn [n] citation markers into #cite-n links, which the markdown renderer shows as footnote buttons.
+// [2, 5] becomes two links; numbers without a matching citation are left as plain text.
+const linkCitationMarkers = (text: string, citations: Citation[]): string => {
+  return text.replace(CITATION_MARKER_PATTERN, (match, group: string) => {
+    const indexes = group.split(',').map(part => Number(part.trim()));
+    if (!indexes.every(index => citations.some(citation => citation.index === index))) {
+      return match;
+    }
+    return indexes.map(index => `[${index}](#cite-${index})`).join('');
+  });
+};
+
 // Define a type for individual messages in the chat
 interface ChatMessage {
   role: 'user' | 'assistant' | 'system' | 'error';
   content: string;
-}
-
-// Define a type for the chat request body
-interface ChatRequestBody {
-  message: string;
-  model?: string; // Optional, as it's only for OpenAI
-  chatMode?: 'wellness' | 'general';
-  provider?: 'anthropic' | 'openai';
-  conversationHistory?: ChatMessage[]; // Optional conversation history
+  channel?: ChatChannel; // Which answer stream an assistant message belongs to
+  citations?: Citation[]; // Sources the [n] markers in a Wellness Evidence answer refer to
+  verification?: CitationVerification; // Sentences of a Wellness Evidence answer checked against their sources
 }
 
 // Add UserProfile type
@@ -50,13 +73,54 @@ type UserProfile = {
   message_credits: number;
 };
 
-// Define available OpenAI models - Optimized for Wellness RAG
-const openAIModels = [
-  { value: "gpt-4o", label: "GPT-4o (Omni) - Recommended for Wellness" },
-  { value: "gpt-4-turbo", label: "GPT-4 Turbo - For Complex Analysis" },
-  { value: "gpt-4", label: "GPT-4 - Legacy" },
-  { value: "gpt-3.5-turbo", label: "GPT-3.5 Turbo - Budget Option" },
-];
+// Provider names in the model picker; the models themselves come from /api/models
+const PROVIDER_LABELS: Record<ChatProviderId, string> = {
+  openai: 'OpenAI',
+  anthropic: 'Anthropic',
+  google: 'Google',
+  local: 'Local',
+};
+
+// Appends a streamed delta to the latest assistant message on the given channel.
+// `extra` (citations, verification) is merged into that message.
+const appendToChannel = (
+  messages: ChatMessage[],
+  channel: ChatChannel,
+  delta: string,
+  extra?: Pick<ChatMessage, 'citations' | 'verification'>
+): ChatMessage[] => {
+  for (let i = messages.length - 1; i >= 0; i--) {
+    if (messages[i].role === 'user') break;
+    if (messages[i].role === 'assistant' && messages[i].channel === channel) {
+      const updated = [...messages];
+      updated[i] = { ...messages[i], ...extra, content: messages[i].content + delta };
+      return updated;
+    }
+  }
+  return [...messages, { role: 'assistant', content: delta, channel, ...extra }];
+};
+
+// Maps a saved message back to the shape the chat renders. A saved wellness answer becomes its
+// General Knowledge and Wellness Evidence messages again.
+const toChatMessages = (message: StoredMessage): ChatMessage[] => {
+  const extra = {
+    ...(message.citations ? { citations: message.citations } : {}),
+    ...(message.verification ? { verification: message.verification } : {}),
+  };
+  if (message.channel === 'wellness') {
+    const { generalKnowledge = null, ragDocuments = null } = message.parts ?? {};
+    return [
+      ...(generalKnowledge !== null ? [{ role: 'assistant' as const, content: generalKnowledge, channel: 'generalKnowledge' as const }] : []),
+      ...(ragDocuments !== null ? [{ role: 'assistant' as const, content: ragDocuments, channel: 'ragDocuments' as const, ...extra }] : []),
+    ];
+  }
+  return [{
+    role: message.role,
+    content: message.content,
+    ...(message.channel ? { channel: message.channel } : {}),
+    ...extra,
+  }];
+};
 
 const LoadingSpinner = () => (
   <div className="flex items-center justify-center space-x-1">
@@ -81,9 +145,16 @@ export default function HomePage() {
   const [sessionExists, setSessionExists] = useState(false);
   const [initialCheckDone, setInitialCheckDone] = useState(false);
   const [userProfile, setUserProfile] = useState<UserProfile | null>(null); // Add profile state
-  const [selectedProvider, setSelectedProvider] = useState<'anthropic' | 'openai'>('openai');
-  const [selectedOpenAIModel, setSelectedOpenAIModel] = useState<string>(openAIModels[0].value); // Default to first OpenAI model
+  const [models, setModels] = useState<ChatModelInfo[]>([]); // Models the user's tier may use
+  const [selectedModelId, setSelectedModelId] = useState<string | null>(null);
   const [chatMode, setChatMode] = useState<'wellness' | 'general'>('wellness');
+  const [activeCitation, setActiveCitation] = useState<Citation | null>(null); // Source shown in the drawer
+
+  // State for saved conversations
+  const [conversations, setConversations] = useState<ConversationSummary[]>([]);
+  const [activeConversationId, setActiveConversationId] = useState<string | null>(null);
+  const [conversationSearch, setConversationSearch] = useState('');
+  const [isSidebarOpen, setIsSidebarOpen] = useState(false); // Mobile only
 
   // State for page mode (chat or image generation)
   const [currentMode, setCurrentMode] = useState<'chat' | 'image'>('chat');
@@ -93,6 +164,7 @@ export default function HomePage() {
   const [generatedImageUrl, setGeneratedImageUrl] = useState<string | null>(null);
   const [isGeneratingImage, setIsGeneratingImage] = useState(false);
   const [imageGenError, setImageGenError] = useState<string | null>(null);
+  const [imageGenErrorCode, setImageGenErrorCode] = useState<ApiErrorCode | null>(null);
 
   const messagesEndRef = useRef<HTMLDivElement>(null);
 
@@ -104,15 +176,12 @@ export default function HomePage() {
     scrollToBottom();
   }, [messages]);
 
+  const selectedModel = models.find(model => model.id === selectedModelId) ?? null;
+  const modelProviders = Array.from(new Set(models.map(model => model.provider)));
+
   const getCurrentModelLabel = () => {
-    if (selectedProvider === 'anthropic') {
-      return 'Anthropic (Claude)';
-    }
-    const model = openAIModels.find(m => m.value === selectedOpenAIModel);
-    if (!model) return 'Select a model';
-    // Extract just the model name (before the dash) for the button to avoid overflow
-    const modelName = model.label.split(' - ')[0];
-    return `OpenAI (${modelName})`;
+    if (!selectedModel) return 'Select a model';
+    return `${PROVIDER_LABELS[selectedModel.provider]} (${selectedModel.displayName})`;
   };
 
   useEffect(() => {
@@ -138,21 +207,96 @@ export default function HomePage() {
     checkSessionAndProfile();
   }, []);
 
-  // When a message is successfully sent and we get a reply,
-  // if the user is on a free trial, we decrement their credits locally
-  // This provides immediate feedback without needing to re-fetch the profile.
+  const loadConversations = useCallback(async (search: string) => {
+    try {
+      const query = search.trim() ? `?q=${encodeURIComponent(search.trim())}` : '';
+      const response = await fetch(`/api/conversations${query}`);
+      if (!response.ok) throw new Error('Failed to load conversations');
+      const data: ConversationListResponse = await response.json();
+      setConversations(data.conversations);
+    } catch (error) {
+      console.error("Error loading conversations:", error);
+    }
+  }, []);
+
+  // Load the model picker once signed in, keeping the current choice if the tier still allows it
   useEffect(() => {
-    if (messages.length > 0 && messages[messages.length - 1].role === 'assistant') {
-      if (userProfile?.user_tier === 'free_trial') {
-        setUserProfile(prev => prev ? { ...prev, message_credits: prev.message_credits - 1 } : null);
+    if (!sessionExists) return;
+    (async () => {
+      try {
+        const response = await fetch('/api/models');
+        if (!response.ok) throw new Error('Failed to load models');
+        const data: ModelListResponse = await response.json();
+        setModels(data.models);
+        setSelectedModelId(current =>
+          current && data.models.some(model => model.id === current)
+            ? current
+            : data.defaults.openai ?? data.models[0]?.id ?? null);
+      } catch (error) {
+        console.error("Error loading models:", error);
       }
-    }
-  }, [messages, userProfile?.user_tier]);
+    })();
+  }, [sessionExists, userProfile?.user_tier]);
 
-  // Debug: Log whenever messages state changes
+  // Load (and search) the conversation list once signed in; typing in the search box is debounced
   useEffect(() => {
-    console.log('🟢 CLIENT: Messages state changed:', messages);
-  }, [messages]);
+    if (!sessionExists) return;
+    const timeout = setTimeout(() => loadConversations(conversationSearch), 300);
+    return () => clearTimeout(timeout);
+  }, [sessionExists, conversationSearch, loadConversations]);
+
+  const handleSelectConversation = async (conversationId: string) => {
+    setIsSidebarOpen(false);
+    if (isLoading || conversationId === activeConversationId) return;
+    try {
+      const response = await fetch(`/api/conversations/${conversationId}`);
+      const data = await response.json();
+      if (!response.ok) throw toApiRequestError(data, 'Failed to load conversation');
+      const { conversation }: ConversationDetailResponse = data;
+      setActiveConversationId(conversationId);
+      setChatMode(conversation.chat_mode);
+      setMessages(conversation.messages.flatMap(toChatMessages));
+      setActiveCitation(null);
+    } catch (error) {
+      console.error("Error loading conversation:", error);
+    }
+  };
+
+  const handleNewChat = () => {
+    setIsSidebarOpen(false);
+    if (isLoading) return;
+    setActiveConversationId(null);
+    setMessages([]);
+    setActiveCitation(null);
+  };
+
+  const updateConversation = async (conversationId: string, fields: { title?: string; pinned?: boolean }) => {
+    try {
+      const response = await fetch(`/api/conversations/${conversationId}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(fields),
+      });
+      if (!response.ok) throw new Error('Failed to update conversation');
+    } catch (error) {
+      console.error("Error updating conversation:", error);
+    }
+    loadConversations(conversationSearch);
+  };
+
+  const handleDeleteConversation = async (conversationId: string) => {
+    try {
+      const response = await fetch(`/api/conversations/${conversationId}`, { method: 'DELETE' });
+      if (!response.ok) throw new Error('Failed to delete conversation');
+      if (conversationId === activeConversationId) {
+        setActiveConversationId(null);
+        setMessages([]);
+      }
+    } catch (error) {
+      console.error("Error deleting conversation:", error);
+    }
+    loadConversations(conversationSearch);
+  };
 
   const handleSendMessage = async (event?: FormEvent) => {
     if (event) event.preventDefault();
@@ -172,12 +316,15 @@ export default function HomePage() {
     const requestBody: ChatRequestBody = { 
       message: newUserMessage.content,
       chatMode: chatMode,
-      provider: selectedProvider, // Include the provider in the body
-      conversationHistory: messages.slice(-10), // Send last 10 messages for context
+      stream: true,
     };
-
-    if (selectedProvider === 'openai') {
-      requestBody.model = selectedOpenAIModel; // Add selected OpenAI model to request
+    if (activeConversationId) {
+      requestBody.conversationId = activeConversationId;
+    }
+    // Without a selection the server uses the tier's default model
+    if (selectedModel) {
+      requestBody.provider = selectedModel.provider;
+      requestBody.model = selectedModel.id;
     }
 
     try {
@@ -190,67 +337,89 @@ export default function HomePage() {
       });
 
       if (!response.ok) {
-        const errorData = await response.json();
-        throw new Error(errorData.error || errorData.details || 'Failed to get response from API');
+        const errorData = await response.json().catch(() => null);
+        throw toApiRequestError(errorData, 'Failed to get response from API');
       }
 
-      const data = await response.json();
-      
-      // Check if this is a two-process response (wellness mode)
-      if (data.generalKnowledge !== undefined && data.ragDocuments !== undefined) {
-        // Two-process response: Create two separate assistant messages
-        console.log('🟢 CLIENT: Two-process response detected (wellness mode).');
-        
-        // Process A: General Knowledge
-        const generalKnowledgeMessage: ChatMessage = { 
-          role: 'assistant', 
-          content: data.generalKnowledge 
-        };
-        console.log('🟢 CLIENT: Adding general knowledge message:', generalKnowledgeMessage);
-        
-        setMessages(prevMessages => {
-          const updatedMessages = [...prevMessages, generalKnowledgeMessage];
-          console.log('🟢 CLIENT: Updated messages array after general knowledge:', updatedMessages);
-          return updatedMessages;
-        });
-        
-        // Process B: RAG Documents (if available)
-        if (data.ragDocuments && data.ragDocuments.trim() !== '') {
-          const ragDocumentsMessage: ChatMessage = { 
-            role: 'assistant', 
-            content: data.ragDocuments 
-          };
-          console.log('🟢 CLIENT: Adding RAG documents message:', ragDocumentsMessage);
-          
-          setMessages(prevMessages => {
-            const updatedMessages = [...prevMessages, ragDocumentsMessage];
-            console.log('🟢 CLIENT: Final messages array after RAG documents:', updatedMessages);
-            return updatedMessages;
-          });
+      // Render each channel (reply, or General Knowledge + Wellness Evidence) as its tokens arrive
+      let streamError: ApiErrorBody | null = null;
+      let completed = false;
+      let citations: Citation[] = [];
+      await readSSEStream(response, (event, data) => {
+        switch (event) {
+          case 'conversation':
+            // The conversation this turn was saved to (a new one for the first message)
+            setActiveConversationId((data as ChatStreamEvents['conversation']).conversationId);
+            break;
+          case 'citations':
+            // Arrives before Process B starts streaming; attached to the Wellness Evidence message
+            citations = (data as ChatStreamEvents['citations']).citations;
+            break;
+          case 'channel_start': {
+            const { channel } = data as ChatStreamEvents['channel_start'];
+            setMessages(prevMessages => appendToChannel(prevMessages, channel, '', channel === 'ragDocuments' ? { citations } : undefined));
+            break;
+          }
+          case 'token': {
+            const { channel, delta } = data as ChatStreamEvents['token'];
+            setMessages(prevMessages => appendToChannel(prevMessages, channel, delta));
+            break;
+          }
+          case 'channel_error': {
+            // One wellness process failed; the other may still be streaming
+            const { channel, error } = data as ChatStreamEvents['channel_error'];
+            const label = channel === 'ragDocuments' ? 'Wellness Evidence' : 'General Knowledge';
+            setMessages(prevMessages => [...prevMessages, { role: 'error', content: `${label} unavailable: ${error}`, channel }]);
+            break;
+          }
+          case 'verification': {
+            const verification = data as ChatStreamEvents['verification'];
+            setMessages(prevMessages => appendToChannel(prevMessages, 'ragDocuments', '', { verification }));
+            break;
+          }
+          case 'done':
+            completed = true;
+            break;
+          case 'error':
+            streamError = data as ChatStreamEvents['error'];
+            break;
         }
-      } else {
-        // Single response (general mode)
-        const assistantMessage: ChatMessage = { role: 'assistant', content: data.reply };
-        console.log('🟢 CLIENT: Adding assistant message:', assistantMessage);
-        setMessages(prevMessages => {
-          const updatedMessages = [...prevMessages, assistantMessage];
-          console.log('🟢 CLIENT: Final messages array:', updatedMessages);
-          return updatedMessages;
-        });
+      });
+
+      if (streamError) {
+        throw toApiRequestError(streamError, 'Failed to get response from API');
+      }
+      if (!completed) {
+        throw new Error('The response stream ended before the answer was complete.');
+      }
+
+      // If the user is on a free trial, decrement their credits locally.
+      // This provides immediate feedback without needing to re-fetch the profile.
+      if (userProfile?.user_tier === 'free_trial') {
+        setUserProfile(prev => prev ? { ...prev, message_credits: prev.message_credits - 1 } : null);
       }
 
     } catch (error: unknown) {
-      console.error("Error sending message to", selectedProvider, ":", error);
+      console.error("Error sending message to", selectedModel?.id ?? 'the default model', ":", error);
+      if (error instanceof ApiRequestError) {
+        if (error.code === 'CREDITS_EXHAUSTED') {
+          // The server is the source of truth for credits; show the trial as used up
+          setUserProfile(prev => prev ? { ...prev, message_credits: 0 } : null);
+        } else if (error.code === 'UNAUTHORIZED') {
+          setSessionExists(false); // Back to the sign-in screen
+        }
+      }
       let errorMessageContent = 'An error occurred.';
       if (error instanceof Error) {
         errorMessageContent = error.message;
       } else if (typeof error === 'string') {
         errorMessageContent = error;
       }
-      const errorMessage: ChatMessage = { role: 'error', content: `Error with ${selectedProvider}${selectedProvider === 'openai' ? ' (' + selectedOpenAIModel + ')' : ''}: ${errorMessageContent}` };
+      const errorMessage: ChatMessage = { role: 'error', content: `Error with ${selectedModel ? getCurrentModelLabel() : 'the assistant'}: ${errorMessageContent}` };
       setMessages(prevMessages => [...prevMessages, errorMessage]);
     } finally {
       setIsLoading(false);
+      loadConversations(conversationSearch); // Pick up the new conversation or its new activity time
     }
   };
 
@@ -261,6 +430,7 @@ export default function HomePage() {
     setIsGeneratingImage(true);
     setGeneratedImageUrl(null);
     setImageGenError(null);
+    setImageGenErrorCode(null);
 
     try {
       const response = await fetch('/api/image/generate', {
@@ -271,9 +441,9 @@ export default function HomePage() {
 
       const result = await response.json();
       if (!response.ok) {
-        throw new Error(result.error || result.details || 'Failed to generate image.');
+        throw toApiRequestError(result, 'Failed to generate image.');
       }
-      setGeneratedImageUrl(result.imageUrl);
+      setGeneratedImageUrl((result as ImageGenerateResponse).imageUrl);
     } catch (error: unknown) {
       console.error("Error generating image:", error);
       let detailMessage = 'An unexpected error occurred while generating the image.';
@@ -283,6 +453,7 @@ export default function HomePage() {
         detailMessage = error;
       }
       setImageGenError(detailMessage);
+      if (error instanceof ApiRequestError) setImageGenErrorCode(error.code ?? null);
     } finally {
       setIsGeneratingImage(false);
     }
@@ -297,7 +468,7 @@ export default function HomePage() {
   }
 
   return (
-    <main className="flex min-h-[calc(100vh-64px)] flex-col items-center justify-between p-6 relative overflow-hidden">
+    <main className="flex min-h-[calc(100vh-64px)] relative overflow-hidden">
       {/* Background gradient */}
       <div className="absolute inset-0 bg-gradient-to-br from-background via-background to-primary/5 -z-10"></div>
       
@@ -305,7 +476,24 @@ export default function HomePage() {
       <div className="absolute top-20 left-10 w-32 h-32 bg-gradient-primary rounded-full opacity-10 blur-xl animate-pulse"></div>
       <div className="absolute bottom-20 right-10 w-24 h-24 bg-gradient-secondary rounded-full opacity-10 blur-xl animate-pulse delay-1000"></div>
       <div className="absolute top-1/2 left-1/4 w-16 h-16 bg-gradient-accent rounded-full opacity-10 blur-lg animate-pulse delay-500"></div>
-      
+
+      {sessionExists && (
+        <ConversationSidebar
+          conversations={conversations}
+          activeConversationId={activeConversationId}
+          search={conversationSearch}
+          isOpen={isSidebarOpen}
+          onSearchChange={setConversationSearch}
+          onSelect={handleSelectConversation}
+          onNewChat={handleNewChat}
+          onRename={(conversationId, title) => updateConversation(conversationId, { title })}
+          onTogglePin={(conversation) => updateConversation(conversation.id, { pinned: !conversation.pinned })}
+          onDelete={handleDeleteConversation}
+          onClose={() => setIsSidebarOpen(false)}
+        />
+      )}
+
+      <div className="flex flex-grow min-w-0 flex-col items-center justify-between p-6">
       <div className="w-full max-w-xl mx-auto flex flex-col h-full relative z-10">
         <div className="mb-8 text-center">
           <h1 className="text-4xl lg:text-5xl font-bold">
@@ -320,6 +508,14 @@ export default function HomePage() {
           <div className="flex flex-col h-full flex-grow">
             {/* Mode Switcher (Tabs) */}
             <div className="flex justify-center space-x-2 border-b">
+              <Button
+                variant="ghost"
+                onClick={() => setIsSidebarOpen(true)}
+                className="rounded-b-none lg:hidden"
+                aria-label="Show conversation history"
+              >
+                <History className="h-4 w-4" />
+              </Button>
               <Button 
                 variant={currentMode === 'chat' ? 'secondary' : 'ghost'}
                 onClick={() => setCurrentMode('chat')}
@@ -349,29 +545,24 @@ export default function HomePage() {
                         </Button>
                       </DropdownMenuTrigger>
                       <DropdownMenuContent className="w-[--radix-dropdown-menu-trigger-width]">
-                        <DropdownMenuItem onClick={() => setSelectedProvider('anthropic')}>
-                          Anthropic (Claude)
-                          {selectedProvider === 'anthropic' && <Check className="ml-auto h-4 w-4" />}
-                        </DropdownMenuItem>
-                        <DropdownMenuSub>
-                          <DropdownMenuSubTrigger>
-                            <span>OpenAI (ChatGPT)</span>
-                          </DropdownMenuSubTrigger>
-                          <DropdownMenuSubContent>
-                            {openAIModels.map(model => (
-                              <DropdownMenuItem
-                                key={model.value}
-                                onClick={() => {
-                                  setSelectedProvider('openai');
-                                  setSelectedOpenAIModel(model.value);
-                                }}
-                              >
-                                {model.label}
-                                {selectedProvider === 'openai' && selectedOpenAIModel === model.value && <Check className="ml-auto h-4 w-4" />}
-                              </DropdownMenuItem>
-                            ))}
-                          </DropdownMenuSubContent>
-                        </DropdownMenuSub>
+                        {modelProviders.map(provider => (
+                          <DropdownMenuSub key={provider}>
+                            <DropdownMenuSubTrigger>
+                              <span>{PROVIDER_LABELS[provider]}</span>
+                            </DropdownMenuSubTrigger>
+                            <DropdownMenuSubContent>
+                              {models.filter(model => model.provider === provider).map(model => (
+                                <DropdownMenuItem key={model.id} onClick={() => setSelectedModelId(model.id)}>
+                                  <div className="flex flex-col">
+                                    <span>{model.displayName}</span>
+                                    <span className="text-xs text-muted-foreground">{model.description}</span>
+                                  </div>
+                                  {selectedModelId === model.id && <Check className="ml-auto h-4 w-4" />}
+                                </DropdownMenuItem>
+                              ))}
+                            </DropdownMenuSubContent>
+                          </DropdownMenuSub>
+                        ))}
                       </DropdownMenuContent>
                     </DropdownMenu>
                   </div>
@@ -409,24 +600,16 @@ export default function HomePage() {
                     </div>
                   )}
                   {messages.map((msg, index) => {
-                    console.log(`🟢 CLIENT: Rendering message ${index}:`, msg);
-                    
-                    // Determine if this is a wellness mode two-process response
-                    // In wellness mode, two consecutive assistant messages mean:
-                    // - First one: General Knowledge (Process A)
-                    // - Second one: RAG Documents (Process B)
-                    const isWellnessMode = chatMode === 'wellness';
-                    const prevMessage = index > 0 ? messages[index - 1] : null;
-                    const isSecondAssistantMessage = isWellnessMode && 
-                      msg.role === 'assistant' && 
-                      prevMessage?.role === 'assistant' &&
-                      index > 0;
+                    // Wellness mode answers arrive on two channels:
+                    // - generalKnowledge: General Knowledge (Process A)
+                    // - ragDocuments: RAG Documents (Process B)
+                    const isWellnessChannel = msg.channel === 'generalKnowledge' || msg.channel === 'ragDocuments';
                     
                     return (
                       <div key={index} className="mb-3">
-                        {isWellnessMode && msg.role === 'assistant' && (
+                        {msg.role === 'assistant' && isWellnessChannel && (
                           <div className="text-xs text-muted-foreground mb-1 mr-auto font-medium">
-                            {isSecondAssistantMessage ? '📄 Wellness Evidence' : '🌐 General Knowledge'}
+                            {msg.channel === 'ragDocuments' ? '📄 Wellness Evidence' : '🌐 General Knowledge'}
                           </div>
                         )}
                         <div className={`p-3 rounded-lg max-w-[80%] transition-smooth ${
@@ -435,34 +618,66 @@ export default function HomePage() {
                           'bg-destructive text-destructive-foreground mr-auto font-semibold' 
                         }`}>
                           <div className="text-sm prose prose-sm dark:prose-invert max-w-none">
-                            <ReactMarkdown
-                              components={{
-                                // Make links open in new tab and style them
-                                a: ({ ...props }) => (
-                                  <a
-                                    {...props}
-                                    target="_blank"
-                                    rel="noopener noreferrer"
-                                    className="text-primary underline hover:text-primary/80 break-all"
-                                  />
-                                ),
-                                // Style headings
-                                h1: ({ ...props }) => <h1 {...props} className="text-lg font-bold mt-4 mb-2" />,
-                                h2: ({ ...props }) => <h2 {...props} className="text-base font-bold mt-3 mb-2" />,
-                                h3: ({ ...props }) => <h3 {...props} className="text-sm font-semibold mt-2 mb-1" />,
-                                // Style lists
-                                ul: ({ ...props }) => <ul {...props} className="list-disc list-inside my-2 space-y-1" />,
-                                ol: ({ ...props }) => <ol {...props} className="list-decimal list-inside my-2 space-y-1" />,
-                                li: ({ ...props }) => <li {...props} className="ml-2" />,
-                                // Style paragraphs
-                                p: ({ ...props }) => <p {...props} className="mb-2" />,
-                                // Style bold and italic
-                                strong: ({ ...props }) => <strong {...props} className="font-semibold" />,
-                                em: ({ ...props }) => <em {...props} className="italic" />,
-                              }}
-                            >
-                              {preprocessMarkdown(msg.content)}
-                            </ReactMarkdown>
+                            {msg.role === 'assistant' && msg.content === '' && isLoading ? (
+                              <LoadingSpinner />
+                            ) : (
+                              <ReactMarkdown
+                                components={{
+                                  // Make links open in new tab and style them; #cite-n links open the source drawer
+                                  a: ({ href, children, ...props }) => {
+                                    const citation = href?.startsWith('#cite-')
+                                      ? msg.citations?.find(c => `#cite-${c.index}` === href)
+                                      : undefined;
+                                    if (citation) {
+                                      return (
+                                        <sup>
+                                          <button
+                                            type="button"
+                                            onClick={() => setActiveCitation(citation)}
+                                            title={`${citation.title || citation.file_name}${citation.page_number !== null ? `, p. ${citation.page_number}` : ''}`}
+                                            className="text-primary font-semibold hover:text-primary/80 px-0.5"
+                                          >
+                                            [{children}]
+                                          </button>
+                                        </sup>
+                                      );
+                                    }
+                                    return (
+                                      <a
+                                        {...props}
+                                        href={href}
+                                        target="_blank"
+                                        rel="noopener noreferrer"
+                                        className="text-primary underline hover:text-primary/80 break-all"
+                                      >
+                                        {children}
+                                      </a>
+                                    );
+                                  },
+                                  // Style headings
+                                  h1: ({ ...props }) => <h1 {...props} className="text-lg font-bold mt-4 mb-2" />,
+                                  h2: ({ ...props }) => <h2 {...props} className="text-base font-bold mt-3 mb-2" />,
+                                  h3: ({ ...props }) => <h3 {...props} className="text-sm font-semibold mt-2 mb-1" />,
+                                  // Style lists
+                                  ul: ({ ...props }) => <ul {...props} className="list-disc list-inside my-2 space-y-1" />,
+                                  ol: ({ ...props }) => <ol {...props} className="list-decimal list-inside my-2 space-y-1" />,
+                                  li: ({ ...props }) => <li {...props} className="ml-2" />,
+                                  // Style paragraphs
+                                  p: ({ ...props }) => <p {...props} className="mb-2" />,
+                                  // Style bold and italic
+                                  strong: ({ ...props }) => <strong {...props} className="font-semibold" />,
+                                  em: ({ ...props }) => <em {...props} className="italic" />,
+                                }}
+                              >
+                                {msg.citations?.length
+                                  ? preprocessMarkdown(linkCitationMarkers(msg.content, msg.citations))
+                                  : preprocessMarkdown(msg.content)}
+                              </ReactMarkdown>
+                            )}
+                            {msg.citations && msg.citations.length > 0 && (
+                              <CitationFootnotes content={msg.content} citations={msg.citations} onSelect={setActiveCitation} />
+                            )}
+                            {msg.verification && <VerificationNotice verification={msg.verification} />}
                           </div>
                         </div>
                       </div>
@@ -471,6 +686,8 @@ export default function HomePage() {
                   <div ref={messagesEndRef} />
                 </div>
 
+                <CitationDrawer citation={activeCitation} onClose={() => setActiveCitation(null)} />
+
                 <form onSubmit={handleSendMessage} className="mt-auto w-full max-w-xl mx-auto">
                   <div className="relative">
                     <TextareaAutosize
@@ -482,7 +699,7 @@ export default function HomePage() {
                           handleSendMessage();
                         }
                       }}
-                      placeholder={isLoading ? `${selectedProvider === 'anthropic' ? 'Claude' : (openAIModels.find(m => m.value === selectedOpenAIModel)?.label || 'OpenAI')} is thinking...` : "Type your message..."}
+                      placeholder={isLoading ? `${selectedModel?.displayName ?? 'The assistant'} is thinking...` : "Type your message..."}
                       className="w-full p-3 pr-20 rounded-lg border border-border focus:ring-2 focus:ring-primary/50 focus:outline-none resize-none transition-smooth bg-background"
                       aria-label="Chat message input"
                       minRows={1}
@@ -532,6 +749,9 @@ export default function HomePage() {
                 {imageGenError && (
                   <div className="text-center p-3 rounded-lg bg-destructive text-destructive-foreground">
                     <p><strong>Error:</strong> {imageGenError}</p>
+                    {imageGenErrorCode === 'KEY_MISSING' && (
+                      <Link href="/settings" className="underline font-medium">Add your OpenAI API key in Settings</Link>
+                    )}
                   </div>
                 )}
 
@@ -570,6 +790,7 @@ export default function HomePage() {
             </div>
         )}
       </div>
+      </div>
     </main>
   );
 }
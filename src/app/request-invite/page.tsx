@@ -4,6 +4,7 @@ import { useState, type FormEvent } from 'react';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import Link from 'next/link';
+import { getApiErrorMessage } from '@/lib/api/errorCodes';
 
 export default function RequestInvitePage() {
   const [firstName, setFirstName] = useState('');
@@ -28,7 +29,7 @@ export default function RequestInvitePage() {
       const result = await response.json();
 
       if (!response.ok) {
-        throw new Error(result.error || 'Failed to submit request.');
+        throw new Error(getApiErrorMessage(result, 'Failed to submit request.'));
       }
 
       setIsSubmitted(true);
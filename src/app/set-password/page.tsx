@@ -1,6 +1,7 @@
 'use client';
 
 import { useState, useEffect } from 'react';
+import { getApiErrorMessage } from '@/lib/api/errorCodes';
 
 export default function SetPasswordPage() {
   const [password, setPassword] = useState('');
@@ -48,7 +49,7 @@ export default function SetPasswordPage() {
       const data = await response.json();
 
       if (!response.ok) {
-        throw new Error(data.error || 'An unknown error occurred.');
+        throw new Error(getApiErrorMessage(data, 'An unknown error occurred.'));
       }
 
       setMessage('Password updated successfully! Redirecting to your profile...');
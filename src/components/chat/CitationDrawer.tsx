@@ -0,0 +1,76 @@
+'use client';
+
+import { useEffect } from 'react';
+import { ExternalLink, FileText, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import type { Citation } from '@/types/chat';
+
+interface CitationDrawerProps {
+  citation: Citation | null;
+  onClose: () => void;
+}
+
+// Side panel showing the document chunk behind a [n] citation in a Wellness Evidence answer
+const CitationDrawer = ({ citation, onClose }: CitationDrawerProps) => {
+  // Close on Escape
+  useEffect(() => {
+    if (!citation) return;
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.key === 'Escape') onClose();
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [citation, onClose]);
+
+  if (!citation) return null;
+
+  return (
+    <div className="fixed inset-0 z-50 flex justify-end">
+      <div className="absolute inset-0 bg-background/60 backdrop-blur-sm" onClick={onClose} aria-hidden="true" />
+      <aside
+        role="dialog"
+        aria-modal="true"
+        aria-label={`Source [${citation.index}]`}
+        className="relative h-full w-full max-w-md bg-card border-l border-border shadow-xl flex flex-col"
+      >
+        <div className="flex items-start justify-between gap-3 p-4 border-b border-border">
+          <div className="min-w-0">
+            <div className="text-xs text-muted-foreground mb-1">Source [{citation.index}]</div>
+            <h2 className="font-semibold text-sm flex items-center gap-2 break-words">
+              <FileText className="h-4 w-4 shrink-0 text-primary" />
+              {citation.title || citation.file_name}
+            </h2>
+            <div className="text-xs text-muted-foreground mt-1">
+              {citation.page_number !== null && <span>Page {citation.page_number} · </span>}
+              <span>Relevance {(citation.score * 100).toFixed(1)}%</span>
+            </div>
+          </div>
+          <Button variant="ghost" size="sm" onClick={onClose} className="w-8 h-8 p-0 shrink-0">
+            <X className="h-4 w-4" />
+            <span className="sr-only">Close source</span>
+          </Button>
+        </div>
+
+        <div className="flex-grow overflow-y-auto p-4">
+          <p className="text-sm whitespace-pre-wrap leading-relaxed">{citation.chunk_text}</p>
+        </div>
+
+        {citation.source_url && (
+          <div className="p-4 border-t border-border">
+            <a
+              href={citation.source_url}
+              target="_blank"
+              rel="noopener noreferrer"
+              className="text-sm text-primary underline hover:text-primary/80 inline-flex items-center gap-1 break-all"
+            >
+              <ExternalLink className="h-3.5 w-3.5 shrink-0" />
+              Open original document
+            </a>
+          </div>
+        )}
+      </aside>
+    </div>
+  );
+};
+
+export default CitationDrawer;
@@ -0,0 +1,39 @@
+'use client';
+
+import { extractCitationMarkers } from '@/lib/rag/citations';
+import type { Citation } from '@/types/chat';
+
+interface CitationFootnotesProps {
+  content: string;
+  citations: Citation[];
+  onSelect: (citation: Citation) => void;
+}
+
+// Lists the sources referenced by [n] markers in an answer, in order of first use
+const CitationFootnotes = ({ content, citations, onSelect }: CitationFootnotesProps) => {
+  const referenced = extractCitationMarkers(content)
+    .map(index => citations.find(citation => citation.index === index))
+    .filter((citation): citation is Citation => citation !== undefined);
+
+  if (referenced.length === 0) return null;
+
+  return (
+    <ol className="mt-3 pt-2 border-t border-border/50 space-y-1 text-xs">
+      {referenced.map(citation => (
+        <li key={citation.index} id={`cite-${citation.index}`}>
+          <button
+            type="button"
+            onClick={() => onSelect(citation)}
+            className="text-left hover:text-primary transition-smooth"
+          >
+            <span className="font-semibold text-primary">[{citation.index}]</span>{' '}
+            {citation.title || citation.file_name}
+            {citation.page_number !== null && `, p. ${citation.page_number}`}
+          </button>
+        </li>
+      ))}
+    </ol>
+  );
+};
+
+export default CitationFootnotes;
@@ -0,0 +1,171 @@
+'use client';
+
+import { useState } from 'react';
+import { Check, MessageSquarePlus, Pencil, Pin, PinOff, Search, Trash2, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import type { ConversationSummary } from '@/types/chat';
+
+interface ConversationSidebarProps {
+  conversations: ConversationSummary[];
+  activeConversationId: string | null;
+  search: string;
+  isOpen: boolean; // Mobile only; the sidebar is always shown on large screens
+  onSearchChange: (search: string) => void;
+  onSelect: (conversationId: string) => void;
+  onNewChat: () => void;
+  onRename: (conversationId: string, title: string) => void;
+  onTogglePin: (conversation: ConversationSummary) => void;
+  onDelete: (conversationId: string) => void;
+  onClose: () => void;
+}
+
+// Past conversations: search, pin, rename and delete, plus a button to start a new chat
+const ConversationSidebar = ({
+  conversations,
+  activeConversationId,
+  search,
+  isOpen,
+  onSearchChange,
+  onSelect,
+  onNewChat,
+  onRename,
+  onTogglePin,
+  onDelete,
+  onClose,
+}: ConversationSidebarProps) => {
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editingTitle, setEditingTitle] = useState('');
+
+  const startRename = (conversation: ConversationSummary) => {
+    setEditingId(conversation.id);
+    setEditingTitle(conversation.title);
+  };
+
+  const submitRename = () => {
+    if (editingId && editingTitle.trim()) {
+      onRename(editingId, editingTitle.trim());
+    }
+    setEditingId(null);
+  };
+
+  const handleDelete = (conversation: ConversationSummary) => {
+    if (window.confirm(`Delete "${conversation.title}"? This cannot be undone.`)) {
+      onDelete(conversation.id);
+    }
+  };
+
+  return (
+    <>
+      {isOpen && (
+        <div className="fixed inset-0 z-30 bg-background/60 backdrop-blur-sm lg:hidden" onClick={onClose} aria-hidden="true" />
+      )}
+      <aside
+        aria-label="Conversation history"
+        className={`fixed inset-y-0 left-0 z-40 w-72 bg-card border-r border-border flex flex-col transition-transform lg:static lg:z-auto lg:translate-x-0 ${
+          isOpen ? 'translate-x-0' : '-translate-x-full'
+        }`}
+      >
+        <div className="p-3 border-b border-border space-y-2">
+          <div className="flex items-center gap-2">
+            <Button onClick={onNewChat} className="flex-grow justify-start gap-2" variant="outline">
+              <MessageSquarePlus className="h-4 w-4" />
+              New chat
+            </Button>
+            <Button variant="ghost" size="sm" onClick={onClose} className="w-8 h-8 p-0 lg:hidden">
+              <X className="h-4 w-4" />
+              <span className="sr-only">Close history</span>
+            </Button>
+          </div>
+          <div className="relative">
+            <Search className="absolute left-2.5 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+            <Input
+              value={search}
+              onChange={(e: React.ChangeEvent<HTMLInputElement>) => onSearchChange(e.target.value)}
+              placeholder="Search conversations"
+              className="pl-8"
+              aria-label="Search conversations"
+            />
+          </div>
+        </div>
+
+        <nav className="flex-grow overflow-y-auto p-2 space-y-1">
+          {conversations.length === 0 && (
+            <p className="text-xs text-muted-foreground text-center py-6">
+              {search.trim() ? 'No matching conversations.' : 'No conversations yet.'}
+            </p>
+          )}
+          {conversations.map(conversation => {
+            const isActive = conversation.id === activeConversationId;
+            if (editingId === conversation.id) {
+              return (
+                <form
+                  key={conversation.id}
+                  onSubmit={(e) => {
+                    e.preventDefault();
+                    submitRename();
+                  }}
+                  className="flex items-center gap-1 p-1"
+                >
+                  <Input
+                    value={editingTitle}
+                    onChange={(e: React.ChangeEvent<HTMLInputElement>) => setEditingTitle(e.target.value)}
+                    onKeyDown={(e: React.KeyboardEvent<HTMLInputElement>) => {
+                      if (e.key === 'Escape') setEditingId(null);
+                    }}
+                    className="h-8 text-sm"
+                    aria-label="Conversation title"
+                    autoFocus
+                  />
+                  <Button type="submit" variant="ghost" size="sm" className="w-8 h-8 p-0 shrink-0">
+                    <Check className="h-4 w-4" />
+                    <span className="sr-only">Save title</span>
+                  </Button>
+                </form>
+              );
+            }
+            return (
+              <div
+                key={conversation.id}
+                className={`group flex items-center gap-1 rounded-md pr-1 transition-smooth ${
+                  isActive ? 'bg-muted' : 'hover:bg-muted/60'
+                }`}
+              >
+                <button
+                  type="button"
+                  onClick={() => onSelect(conversation.id)}
+                  className="flex-grow min-w-0 text-left px-2 py-2 text-sm"
+                  title={conversation.title}
+                >
+                  <span className="flex items-center gap-1.5">
+                    {conversation.pinned && <Pin className="h-3 w-3 shrink-0 text-primary" />}
+                    <span className="truncate">{conversation.title}</span>
+                  </span>
+                  <span className="block text-xs text-muted-foreground">
+                    {new Date(conversation.last_message_at).toLocaleDateString()}
+                  </span>
+                </button>
+                <div className={`flex shrink-0 ${isActive ? 'flex' : 'hidden group-hover:flex group-focus-within:flex'}`}>
+                  <Button variant="ghost" size="sm" onClick={() => onTogglePin(conversation)} className="w-7 h-7 p-0">
+                    {conversation.pinned ? <PinOff className="h-3.5 w-3.5" /> : <Pin className="h-3.5 w-3.5" />}
+                    <span className="sr-only">{conversation.pinned ? 'Unpin' : 'Pin'} conversation</span>
+                  </Button>
+                  <Button variant="ghost" size="sm" onClick={() => startRename(conversation)} className="w-7 h-7 p-0">
+                    <Pencil className="h-3.5 w-3.5" />
+                    <span className="sr-only">Rename conversation</span>
+                  </Button>
+                  <Button variant="ghost" size="sm" onClick={() => handleDelete(conversation)} className="w-7 h-7 p-0 hover:text-destructive">
+                    <Trash2 className="h-3.5 w-3.5" />
+                    <span className="sr-only">Delete conversation</span>
+                  </Button>
+                </div>
+              </div>
+            );
+          })}
+        </nav>
+      </aside>
+    </>
+  );
+};
+
+export default ConversationSidebar;
@@ -0,0 +1,35 @@
+'use client';
+
+import { AlertTriangle } from 'lucide-react';
+import type { CitationVerification } from '@/types/chat';
+
+interface VerificationNoticeProps {
+  verification: CitationVerification;
+}
+
+// Warns about sentences in a Wellness Evidence answer that their cited sources do not support
+const VerificationNotice = ({ verification }: VerificationNoticeProps) => {
+  const unsupported = verification.sentences.filter(sentence => sentence.status === 'unsupported');
+  if (unsupported.length === 0) return null;
+
+  return (
+    <div className="mt-3 p-2 rounded-md border border-destructive/40 bg-destructive/10 text-xs">
+      <div className="flex items-center gap-1.5 font-semibold text-destructive mb-1">
+        <AlertTriangle className="h-3.5 w-3.5" />
+        {unsupported.length === 1
+          ? '1 statement could not be verified against its cited source'
+          : `${unsupported.length} statements could not be verified against their cited sources`}
+      </div>
+      <ul className="space-y-1">
+        {unsupported.map((sentence, index) => (
+          <li key={index}>
+            <span className="italic">“{sentence.sentence}”</span>
+            {sentence.reason && <span className="block text-muted-foreground">{sentence.reason}</span>}
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+};
+
+export default VerificationNotice;
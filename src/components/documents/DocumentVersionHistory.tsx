@@ -0,0 +1,142 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { getApiErrorMessage } from '@/lib/api/errorCodes';
+import type { DocumentVersionDiffResponse, DocumentVersionListResponse, DocumentVersionResponse } from '@/lib/api/schemas';
+import type { DocumentVersion } from '@/lib/vector/documentVersions';
+
+interface DocumentVersionHistoryProps {
+  documentId: string;
+  onRestored?: (version: DocumentVersion) => void;
+}
+
+const STATUS_VARIANTS: Record<DocumentVersion['status'], 'default' | 'secondary' | 'destructive'> = {
+  active: 'default',
+  superseded: 'secondary',
+  building: 'secondary',
+  failed: 'destructive',
+};
+
+const LINE_STYLES = {
+  equal: 'text-muted-foreground',
+  added: 'bg-green-500/10 text-green-700 dark:text-green-400',
+  removed: 'bg-red-500/10 text-red-700 dark:text-red-400',
+};
+
+const LINE_PREFIXES = { equal: ' ', added: '+', removed: '-' };
+
+// A document's versions, with a line diff of any version against the live one and restore
+const DocumentVersionHistory = ({ documentId, onRestored }: DocumentVersionHistoryProps) => {
+  const [versions, setVersions] = useState<DocumentVersion[]>([]);
+  const [diff, setDiff] = useState<DocumentVersionDiffResponse | null>(null);
+  const [busyId, setBusyId] = useState<string | null>(null); // Version with a diff or restore in flight
+  const [error, setError] = useState<string | null>(null);
+
+  const loadVersions = useCallback(async () => {
+    try {
+      const response = await fetch(`/api/admin/documents/versions?documentId=${documentId}`);
+      const result = await response.json();
+      if (!response.ok) throw new Error(getApiErrorMessage(result, 'Failed to load versions.'));
+      setVersions((result as DocumentVersionListResponse).versions);
+    } catch (err: unknown) {
+      setError(err instanceof Error ? err.message : 'Failed to load versions.');
+    }
+  }, [documentId]);
+
+  useEffect(() => {
+    loadVersions();
+  }, [loadVersions]);
+
+  const handleCompare = async (version: DocumentVersion) => {
+    setBusyId(version.id);
+    setError(null);
+    try {
+      const response = await fetch(`/api/admin/documents/versions/${version.id}/diff`);
+      const result = await response.json();
+      if (!response.ok) throw new Error(getApiErrorMessage(result, 'Failed to compare versions.'));
+      setDiff(result as DocumentVersionDiffResponse);
+    } catch (err: unknown) {
+      setError(err instanceof Error ? err.message : 'Failed to compare versions.');
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handleRestore = async (version: DocumentVersion) => {
+    if (!window.confirm(`Make version ${version.version} the live version of this document?`)) return;
+    setBusyId(version.id);
+    setError(null);
+    try {
+      const response = await fetch(`/api/admin/documents/versions/${version.id}/restore`, { method: 'POST' });
+      const result = await response.json();
+      if (!response.ok) throw new Error(getApiErrorMessage(result, 'Failed to restore the version.'));
+      setDiff(null);
+      await loadVersions();
+      onRestored?.((result as DocumentVersionResponse).version);
+    } catch (err: unknown) {
+      setError(err instanceof Error ? err.message : 'Failed to restore the version.');
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  return (
+    <div className="space-y-2">
+      {versions.map(version => (
+        <div key={version.id} className="flex items-center justify-between gap-2 text-sm">
+          <div className="flex items-center gap-2 min-w-0">
+            <span className="font-medium">v{version.version}</span>
+            <Badge variant={STATUS_VARIANTS[version.status]}>{version.status}</Badge>
+            <span className="text-xs text-muted-foreground truncate">
+              {version.chunk_count} chunks · {new Date(version.created_at).toLocaleString()}
+            </span>
+          </div>
+          <div className="flex gap-2 shrink-0">
+            {versions.length > 1 && version.status !== 'failed' && version.status !== 'building' && (
+              <Button type="button" variant="ghost" size="sm" disabled={busyId !== null} onClick={() => handleCompare(version)}>
+                Compare
+              </Button>
+            )}
+            {version.status === 'superseded' && (
+              <Button type="button" variant="outline" size="sm" disabled={busyId !== null} onClick={() => handleRestore(version)}>
+                Restore
+              </Button>
+            )}
+          </div>
+        </div>
+      ))}
+
+      {error && <p className="text-xs text-destructive">{error}</p>}
+
+      {diff && (
+        <div className="rounded-md border">
+          <div className="flex items-center justify-between gap-2 px-3 py-2 border-b text-xs">
+            <span>
+              v{diff.from.version} → v{diff.to.version}:{' '}
+              <span className="text-green-700 dark:text-green-400">+{diff.stats.added}</span>{' '}
+              <span className="text-red-700 dark:text-red-400">-{diff.stats.removed}</span> lines
+            </span>
+            <Button type="button" variant="ghost" size="sm" onClick={() => setDiff(null)}>Close</Button>
+          </div>
+          <div className="max-h-96 overflow-auto font-mono text-xs">
+            {diff.hunks.length === 0 && <p className="p-3 text-muted-foreground">The versions have the same text.</p>}
+            {diff.hunks.map(hunk => (
+              <div key={`${hunk.oldStart}-${hunk.newStart}`} className="border-b last:border-b-0">
+                <div className="px-3 py-1 bg-muted text-muted-foreground">@@ -{hunk.oldStart} +{hunk.newStart} @@</div>
+                {hunk.lines.map((line, index) => (
+                  <div key={index} className={`px-3 whitespace-pre-wrap break-words ${LINE_STYLES[line.type]}`}>
+                    {LINE_PREFIXES[line.type]} {line.text}
+                  </div>
+                ))}
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default DocumentVersionHistory;
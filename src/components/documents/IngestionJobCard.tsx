@@ -0,0 +1,79 @@
+'use client';
+
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import type { IngestionJobSummary, IngestionStage } from '@/types/ingestion';
+
+interface IngestionJobCardProps {
+  job: IngestionJobSummary;
+  onAction: (job: IngestionJobSummary, action: 'retry' | 'cancel') => void;
+  busy?: boolean; // An action for this job is in flight
+}
+
+const STAGE_LABELS: Record<IngestionStage, string> = {
+  parse: 'Parsing',
+  chunk: 'Chunking',
+  embed: 'Embedding',
+  insert: 'Saving',
+};
+
+const STATUS_LABELS: Record<IngestionJobSummary['status'], string> = {
+  queued: 'Queued',
+  running: 'Processing',
+  succeeded: 'Done',
+  failed: 'Failed',
+  cancelled: 'Cancelled',
+};
+
+// Progress of one document upload: a bar for the whole job, the current stage, and retry/cancel
+const IngestionJobCard = ({ job, onAction, busy }: IngestionJobCardProps) => {
+  const active = job.status === 'queued' || job.status === 'running';
+  const current = job.stages.find(stage => stage.status !== 'done' && stage.status !== 'pending')
+    ?? job.stages.find(stage => stage.status === 'pending');
+
+  let detail = '';
+  if (job.status === 'succeeded') {
+    detail = `${job.chunks ?? 0} chunks added to the knowledge base.`;
+  } else if (current) {
+    detail = STAGE_LABELS[current.stage];
+    if (current.total) detail += ` ${current.completed ?? 0} of ${current.total} chunks`;
+  }
+
+  return (
+    <div className="p-4 rounded-md border bg-card space-y-2">
+      <div className="flex items-center justify-between gap-2">
+        <span className="text-sm font-medium truncate" title={job.fileName}>{job.fileName}</span>
+        <Badge variant={job.status === 'failed' ? 'destructive' : job.status === 'succeeded' ? 'default' : 'secondary'}>
+          {STATUS_LABELS[job.status]}
+        </Badge>
+      </div>
+
+      <div className="h-2 w-full rounded-full bg-muted overflow-hidden">
+        <div
+          className={`h-full transition-all ${job.status === 'failed' ? 'bg-destructive' : 'bg-primary'}`}
+          style={{ width: `${Math.round(job.progress * 100)}%` }}
+        />
+      </div>
+
+      <div className="flex items-center justify-between gap-2 text-xs text-muted-foreground">
+        <span>{detail}{active && ` (${Math.round(job.progress * 100)}%)`}</span>
+        {active && (
+          <Button type="button" variant="outline" size="sm" disabled={busy} onClick={() => onAction(job, 'cancel')}>
+            Cancel
+          </Button>
+        )}
+        {(job.status === 'failed' || job.status === 'cancelled') && (
+          <Button type="button" variant="outline" size="sm" disabled={busy} onClick={() => onAction(job, 'retry')}>
+            Retry
+          </Button>
+        )}
+      </div>
+
+      {job.status === 'failed' && job.error && (
+        <p className="text-xs text-destructive">{job.error}</p>
+      )}
+    </div>
+  );
+};
+
+export default IngestionJobCard;
@@ -0,0 +1,81 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import DocumentVersionHistory from '@/components/documents/DocumentVersionHistory';
+import { getApiErrorMessage } from '@/lib/api/errorCodes';
+import type { KnowledgeDocumentResponse } from '@/lib/api/schemas';
+import type { KnowledgeDocumentChunk } from '@/lib/vector/knowledgeDocuments';
+
+interface KnowledgeDocumentDetailProps {
+  documentId: string;
+  onChanged?: () => void; // A version was restored, so the listing's counts are stale
+}
+
+const CHUNK_PAGE_SIZE = 20;
+
+// The live chunks of a knowledge document, a page at a time, and its version history
+const KnowledgeDocumentDetail = ({ documentId, onChanged }: KnowledgeDocumentDetailProps) => {
+  const [chunks, setChunks] = useState<KnowledgeDocumentChunk[]>([]);
+  const [totalChunks, setTotalChunks] = useState(0);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadChunks = useCallback(async (offset: number) => {
+    setIsLoading(true);
+    setError(null);
+    try {
+      const response = await fetch(`/api/admin/documents/${documentId}?limit=${CHUNK_PAGE_SIZE}&offset=${offset}`);
+      const result = await response.json();
+      if (!response.ok) throw new Error(getApiErrorMessage(result, 'Failed to load chunks.'));
+      const data = result as KnowledgeDocumentResponse;
+      setChunks(prev => (offset === 0 ? data.chunks : [...prev, ...data.chunks]));
+      setTotalChunks(data.totalChunks);
+    } catch (err: unknown) {
+      setError(err instanceof Error ? err.message : 'Failed to load chunks.');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [documentId]);
+
+  useEffect(() => {
+    loadChunks(0);
+  }, [loadChunks]);
+
+  return (
+    <div className="space-y-4 pt-3 border-t">
+      <div>
+        <h4 className="text-sm font-semibold text-muted-foreground mb-2">Versions</h4>
+        <DocumentVersionHistory
+          documentId={documentId}
+          onRestored={() => {
+            loadChunks(0);
+            onChanged?.();
+          }}
+        />
+      </div>
+
+      <div>
+        <h4 className="text-sm font-semibold text-muted-foreground mb-2">
+          Chunks ({chunks.length} of {totalChunks})
+        </h4>
+        <ol className="space-y-2">
+          {chunks.map(chunk => (
+            <li key={chunk.id} className="rounded-md bg-muted/50 p-3 text-xs">
+              <div className="text-muted-foreground mb-1">#{(chunk.chunk_index ?? 0) + 1}</div>
+              <p className="whitespace-pre-wrap leading-relaxed">{chunk.chunk_text}</p>
+            </li>
+          ))}
+        </ol>
+        {error && <p className="text-xs text-destructive mt-2">{error}</p>}
+        {chunks.length < totalChunks && (
+          <Button type="button" variant="outline" size="sm" className="mt-2" disabled={isLoading} onClick={() => loadChunks(chunks.length)}>
+            {isLoading ? 'Loading...' : 'Load more chunks'}
+          </Button>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default KnowledgeDocumentDetail;
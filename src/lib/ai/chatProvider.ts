@@ -0,0 +1,87 @@
+// Provider-agnostic chat interface used by the chat route.
+// Each LLM vendor gets an adapter under ./providers that maps these calls onto its SDK.
+
+import { createAnthropicProvider } from './providers/anthropic';
+import { createGeminiProvider } from './providers/gemini';
+import { createLocalProvider } from './providers/local';
+import { createOpenAIProvider } from './providers/openai';
+
+// 'local' is any OpenAI-compatible server (Ollama, llama.cpp, vLLM) reached through its base URL
+export type ChatProviderId = 'openai' | 'anthropic' | 'google' | 'local';
+
+export const CHAT_PROVIDER_IDS: ChatProviderId[] = ['openai', 'anthropic', 'google', 'local'];
+
+export const DEFAULT_MAX_TOKENS = 3072;
+
+export interface ChatTurn {
+  role: 'user' | 'assistant';
+  content: string;
+}
+
+export interface ChatRequest {
+  model: string;
+  system: string;
+  messages: ChatTurn[];
+  maxTokens?: number; // Defaults to DEFAULT_MAX_TOKENS
+  signal?: AbortSignal;
+  purpose?: string; // Label for usage metering, e.g. 'query_rewrite'; not sent to the provider
+}
+
+export interface ChatUsage {
+  inputTokens: number;
+  outputTokens: number;
+}
+
+export interface ChatCompletion {
+  text: string;
+  usage?: ChatUsage;
+}
+
+export interface ChatProviderOptions {
+  baseURL?: string; // Custom endpoint; required for 'local', optional for a BYOK key's own endpoint
+}
+
+export interface ChatProvider {
+  readonly id: ChatProviderId;
+  /** Runs the request to completion and returns the full text. */
+  complete(request: ChatRequest): Promise<ChatCompletion>;
+  /** Streams the response, calling onDelta for every text fragment, and resolves with the full text. */
+  stream(request: ChatRequest, onDelta: (delta: string) => void): Promise<ChatCompletion>;
+  /** Counts the input tokens the request would consume for its model. */
+  countTokens(request: Pick<ChatRequest, 'model' | 'system' | 'messages'>): Promise<number>;
+}
+
+export function isChatProviderId(value: unknown): value is ChatProviderId {
+  return typeof value === 'string' && (CHAT_PROVIDER_IDS as string[]).includes(value);
+}
+
+/**
+ * Rough token estimate (~4 characters per token) for when a provider cannot count exactly.
+ */
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+/**
+ * Creates the adapter for the given provider using the caller's API key (and endpoint, if not the
+ * provider's default). To add a provider, implement ChatProvider in ./providers and register it here.
+ */
+export function createChatProvider(
+  provider: ChatProviderId,
+  apiKey: string,
+  options: ChatProviderOptions = {}
+): ChatProvider {
+  switch (provider) {
+    case 'anthropic':
+      return createAnthropicProvider(apiKey, options);
+    case 'openai':
+      return createOpenAIProvider(apiKey, options);
+    case 'google':
+      return createGeminiProvider(apiKey, options);
+    case 'local':
+      if (!options.baseURL) throw new Error('The local provider needs a base URL.');
+      return createLocalProvider(options.baseURL, apiKey);
+    default:
+      throw new Error(`Unsupported provider: ${provider}`);
+  }
+}
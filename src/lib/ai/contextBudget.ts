@@ -0,0 +1,111 @@
+// Keeps chat requests inside the selected model's context window.
+// The window is split between the reply (max output tokens), the fixed parts of the request (system
+// prompt, rolling summary, latest message), the conversation history and the retrieved document context.
+
+import { DEFAULT_MAX_TOKENS, estimateTokens, type ChatProviderId, type ChatTurn } from './chatProvider';
+import { findChatModel } from './models';
+import { getEncoderForModel } from './providers/openai';
+
+// Used for models missing from the model registry
+export const DEFAULT_CONTEXT_WINDOW = 8_192;
+
+// Headroom for per-message framing and the gap between our count and the provider's
+const SAFETY_MARGIN_RATIO = 0.05;
+// Role and framing tokens per chat message
+const MESSAGE_OVERHEAD_TOKENS = 4;
+
+// History gets a share of what is left after the fixed parts, capped so large windows don't carry
+// a long transcript on every request; older turns are summarised instead
+export const HISTORY_BUDGET_SHARE = 0.3;
+export const HISTORY_MAX_TOKENS = 4_000;
+
+export type TokenCounter = (text: string) => number;
+
+export interface ContextBudget {
+  contextWindow: number;
+  maxOutputTokens: number; // Reserved for the reply
+  inputBudget: number; // Everything the request itself may use
+}
+
+export interface FittedHistory {
+  kept: ChatTurn[]; // Newest turns that fit, oldest first
+  dropped: ChatTurn[]; // Older turns that did not fit, oldest first
+  tokens: number; // Tokens used by `kept`
+}
+
+export function getContextWindow(model: string): number {
+  return findChatModel(model)?.contextWindow ?? DEFAULT_CONTEXT_WINDOW;
+}
+
+/**
+ * Splits the model's window into the reply reservation and the input budget. Small windows reserve
+ * at most a quarter of the window for the reply.
+ */
+export function getContextBudget(model: string): ContextBudget {
+  const contextWindow = getContextWindow(model);
+  const maxOutputTokens = Math.min(DEFAULT_MAX_TOKENS, Math.floor(contextWindow / 4));
+  const inputBudget = Math.floor(contextWindow * (1 - SAFETY_MARGIN_RATIO)) - maxOutputTokens;
+  return { contextWindow, maxOutputTokens, inputBudget };
+}
+
+/**
+ * Returns a token counter for the model: tiktoken for OpenAI models, the character estimate otherwise
+ * (Claude's tokenizer is only available through the API, and its windows leave ample headroom).
+ */
+export function createTokenCounter(provider: ChatProviderId, model: string): TokenCounter {
+  if (provider === 'openai') {
+    const encoder = getEncoderForModel(model);
+    return text => encoder.encode(text).length;
+  }
+  return estimateTokens;
+}
+
+export function countTurnTokens(turns: ChatTurn[], countTokens: TokenCounter): number {
+  return turns.reduce((total, turn) => total + MESSAGE_OVERHEAD_TOKENS + countTokens(turn.content), 0);
+}
+
+/**
+ * Tokens left for history out of what remains after the fixed parts of the request.
+ */
+export function getHistoryBudget(available: number): number {
+  return Math.max(0, Math.min(HISTORY_MAX_TOKENS, Math.floor(available * HISTORY_BUDGET_SHARE)));
+}
+
+/**
+ * Joins runs of turns with the same role into one turn, so history alternates between user and
+ * assistant as Anthropic requires (e.g. a user message saved before a failed reply, or a wellness
+ * answer saved as two messages before they were stored as one). A merged turn keeps the fields of
+ * the last turn in its run.
+ */
+export function mergeConsecutiveTurns<T extends ChatTurn>(turns: T[]): T[] {
+  const merged: T[] = [];
+  for (const turn of turns) {
+    const previous = merged[merged.length - 1];
+    if (previous && previous.role === turn.role) {
+      merged[merged.length - 1] = { ...turn, content: `${previous.content}\n\n${turn.content}` };
+    } else {
+      merged.push(turn);
+    }
+  }
+  return merged;
+}
+
+/**
+ * Keeps the newest turns that fit in `budget` tokens. The kept history always starts with a user
+ * turn, as providers require.
+ */
+export function fitHistory(history: ChatTurn[], budget: number, countTokens: TokenCounter): FittedHistory {
+  let tokens = 0;
+  let start = history.length;
+  while (start > 0) {
+    const turnTokens = countTurnTokens([history[start - 1]], countTokens);
+    if (tokens + turnTokens > budget) break;
+    tokens += turnTokens;
+    start--;
+  }
+  while (start < history.length && history[start].role !== 'user') {
+    tokens -= countTurnTokens([history[start]], countTokens);
+    start++;
+  }
+  return { kept: history.slice(start), dropped: history.slice(0, start), tokens };
+}
@@ -0,0 +1,40 @@
+import type { ChatProvider, ChatTurn } from './chatProvider';
+import { CONVERSATION_SUMMARY_SYSTEM_PROMPT, buildConversationSummaryUserPrompt } from './prompts';
+
+// Long turns are cut down before summarising; the gist is what the summary keeps anyway
+const MAX_TURN_CHARS = 2_000;
+const SUMMARY_MAX_TOKENS = 400;
+const SUMMARY_TIMEOUT_MS = 15_000;
+
+export interface SummarizeTurnsOptions {
+  chatProvider: ChatProvider;
+  model: string;
+  previousSummary: string | null;
+  turns: ChatTurn[]; // Oldest first
+}
+
+/**
+ * Folds turns that no longer fit the context window into the conversation's rolling summary.
+ * Throws if the model call fails; callers decide whether to continue without the summary.
+ */
+export async function summarizeTurns(options: SummarizeTurnsOptions): Promise<string> {
+  const { chatProvider, model, previousSummary, turns } = options;
+  const transcript = turns
+    .map(turn => {
+      const content = turn.content.length > MAX_TURN_CHARS ? `${turn.content.slice(0, MAX_TURN_CHARS)}...` : turn.content;
+      return `${turn.role === 'user' ? 'User' : 'Assistant'}: ${content}`;
+    })
+    .join('\n\n');
+
+  const completion = await chatProvider.complete({
+    model,
+    system: CONVERSATION_SUMMARY_SYSTEM_PROMPT,
+    messages: [{ role: 'user', content: buildConversationSummaryUserPrompt(previousSummary, transcript) }],
+    maxTokens: SUMMARY_MAX_TOKENS,
+    purpose: 'conversation_summary',
+    signal: AbortSignal.timeout(SUMMARY_TIMEOUT_MS),
+  });
+  const summary = completion.text.trim();
+  if (!summary) throw new Error('Empty summary returned.');
+  return summary;
+}
@@ -0,0 +1,75 @@
+import crypto from 'crypto';
+import { createClient, type SupabaseClient } from '@supabase/supabase-js';
+
+// Embedding cache: vectors already computed, keyed by model and the SHA-256 of the embedded text
+// (the embedding_cache table). The cache is an optimisation only: lookups and writes never throw, and
+// without SUPABASE_SERVICE_ROLE_KEY every text is simply embedded again.
+
+// Keeps each lookup's `in (...)` filter well within URL length limits
+const LOOKUP_BATCH_SIZE = 100;
+
+let serviceClient: SupabaseClient | null = null;
+
+function getServiceClient(): SupabaseClient | null {
+  if (!serviceClient && process.env.NEXT_PUBLIC_SUPABASE_URL && process.env.SUPABASE_SERVICE_ROLE_KEY) {
+    serviceClient = createClient(process.env.NEXT_PUBLIC_SUPABASE_URL, process.env.SUPABASE_SERVICE_ROLE_KEY);
+  }
+  return serviceClient;
+}
+
+export function hashEmbeddingInput(text: string): string {
+  return crypto.createHash('sha256').update(text).digest('hex');
+}
+
+// pgvector columns come back from PostgREST as a "[0.1,0.2,...]" string
+function parseVector(value: unknown): number[] | null {
+  const vector = typeof value === 'string' ? JSON.parse(value) as unknown : value;
+  return Array.isArray(vector) && vector.every(n => typeof n === 'number') ? vector : null;
+}
+
+/**
+ * Cached vectors for the given content hashes, by hash. Hashes with no entry are left out.
+ */
+export async function getCachedEmbeddings(model: string, hashes: string[]): Promise<Map<string, number[]>> {
+  const found = new Map<string, number[]>();
+  const supabase = getServiceClient();
+  if (!supabase || hashes.length === 0) return found;
+
+  try {
+    for (let start = 0; start < hashes.length; start += LOOKUP_BATCH_SIZE) {
+      const { data, error } = await supabase
+        .from('embedding_cache')
+        .select('content_hash, embedding')
+        .eq('model', model)
+        .in('content_hash', hashes.slice(start, start + LOOKUP_BATCH_SIZE));
+      if (error) throw error;
+      for (const row of data || []) {
+        const embedding = parseVector(row.embedding);
+        if (embedding) found.set(row.content_hash, embedding);
+      }
+    }
+  } catch (error: unknown) {
+    console.error('Embedding cache: Lookup failed, embedding without the cache:', error instanceof Error ? error.message : error);
+  }
+  return found;
+}
+
+/**
+ * Stores newly computed vectors. Failures are logged and otherwise ignored.
+ */
+export async function cacheEmbeddings(model: string, entries: Array<{ hash: string; embedding: number[] }>): Promise<void> {
+  const supabase = getServiceClient();
+  if (!supabase || entries.length === 0) return;
+
+  try {
+    const { error } = await supabase
+      .from('embedding_cache')
+      .upsert(
+        entries.map(entry => ({ model, content_hash: entry.hash, embedding: entry.embedding })),
+        { onConflict: 'model,content_hash', ignoreDuplicates: true }
+      );
+    if (error) throw error;
+  } catch (error: unknown) {
+    console.error('Embedding cache: Failed to store embeddings:', error instanceof Error ? error.message : error);
+  }
+}
@@ -1,65 +1,185 @@
-// Placeholder for embedding functions
-// This could use OpenAI, LlamaIndex, or other embedding models
+// Embedding functions for ingestion and retrieval.
+// Embeddings use OpenAI by default; EMBEDDING_PROVIDER=local sends them to the OpenAI-compatible
+// server at LOCAL_LLM_BASE_URL instead (e.g. Ollama with nomic-embed-text), so lucient can run offline.
 
-// import OpenAI from 'openai'; // Removed: Not used as openai client is imported directly
+import OpenAI from 'openai';
 import { openai } from './openai'; // Use the pre-configured client from openai.ts
+import { cacheEmbeddings, getCachedEmbeddings, hashEmbeddingInput } from './embeddingCache';
+import { getLocalEndpoint } from './providers/local';
+import { withRetry } from './retry';
+import { meter, SYSTEM_USAGE_CONTEXT, type UsageContext } from '@/lib/usage';
 
-// Recommended embedding model by OpenAI (as of late 2023/early 2024)
-const EMBEDDING_MODEL = "text-embedding-3-small";
+// Width of the documents.embedding column and of the match functions' query parameter
+export const EMBEDDING_COLUMN_DIMENSIONS = 1536;
+
+export interface EmbeddingConfig {
+  provider: 'openai' | 'local';
+  model: string;
+  dimensions: number; // Length of the vectors the model returns
+}
+
+/**
+ * The embedding model in use. Every stored document must be embedded with the same model as the
+ * queries, so re-ingest the knowledge base after changing it.
+ */
+export function getEmbeddingConfig(): EmbeddingConfig {
+  if (process.env.EMBEDDING_PROVIDER === 'local') {
+    return {
+      provider: 'local',
+      model: process.env.LOCAL_EMBEDDING_MODEL || 'nomic-embed-text',
+      dimensions: Number(process.env.LOCAL_EMBEDDING_DIMENSIONS) || 768,
+    };
+  }
+  // Recommended embedding model by OpenAI (as of late 2023/early 2024)
+  return { provider: 'openai', model: 'text-embedding-3-small', dimensions: 1536 };
+}
+
+let localEmbeddingClient: OpenAI | null = null;
+
+function getEmbeddingClient(config: EmbeddingConfig): OpenAI {
+  if (config.provider === 'openai') return openai;
+  if (!localEmbeddingClient) {
+    const endpoint = getLocalEndpoint();
+    if (!endpoint) throw new Error('EMBEDDING_PROVIDER=local needs LOCAL_LLM_BASE_URL.');
+    localEmbeddingClient = new OpenAI({ baseURL: endpoint.baseURL, apiKey: endpoint.apiKey });
+  }
+  return localEmbeddingClient;
+}
+
+/**
+ * Fits a model's vector to the column. Shorter vectors are zero-padded, which leaves cosine
+ * similarity (and inner product) unchanged, so smaller local models work without a schema change.
+ */
+function toColumnVector(embedding: number[], config: EmbeddingConfig): number[] {
+  if (embedding.length !== config.dimensions) {
+    throw new Error(`Expected ${config.dimensions} dimensions from ${config.model} but got ${embedding.length}.`);
+  }
+  if (embedding.length > EMBEDDING_COLUMN_DIMENSIONS) {
+    throw new Error(`${config.model} returns ${embedding.length} dimensions; the documents table holds at most ${EMBEDDING_COLUMN_DIMENSIONS}.`);
+  }
+  if (embedding.length === EMBEDDING_COLUMN_DIMENSIONS) return embedding;
+  return [...embedding, ...new Array<number>(EMBEDDING_COLUMN_DIMENSIONS - embedding.length).fill(0)];
+}
+
+// Inputs per embeddings request, and requests in flight at once
+const EMBEDDING_BATCH_SIZE = 100;
+const EMBEDDING_CONCURRENCY = 4;
 
 /**
- * Generates an embedding for the given text using OpenAI's API.
+ * Generates an embedding for the given text with the configured embedding model.
  * @param text The text to generate an embedding for.
- * @returns A promise that resolves to an array of numbers representing the embedding.
+ * @param usage Who the call is made for, recorded as a usage event (embeddings always use our internal key).
+ * @returns A promise that resolves to an array of numbers representing the embedding, padded to EMBEDDING_COLUMN_DIMENSIONS.
  * @throws An error if the embedding generation fails or no embedding is returned.
  */
-export async function generateEmbedding(text: string): Promise<number[]> {
+export async function generateEmbedding(text: string, usage: UsageContext = SYSTEM_USAGE_CONTEXT): Promise<number[]> {
   if (!text || typeof text !== 'string') {
     throw new Error("Input text must be a non-empty string.");
   }
+  const [embedding] = await generateEmbeddings([text], usage);
+  return embedding;
+}
 
-  console.log(`Generating embedding for text snippet: "${text.substring(0, 80)}..." using ${EMBEDDING_MODEL}`);
+/**
+ * Generates embeddings for many texts, in the same order. Texts already in the embedding cache (see
+ * embeddingCache.ts) are not sent again; the rest go in batches of EMBEDDING_BATCH_SIZE, at most
+ * EMBEDDING_CONCURRENCY requests at a time, each retried with backoff on rate limits and server errors.
+ * @param texts The texts to embed; each must be a non-empty string.
+ * @param usage Who the calls are made for; each batch request is recorded as one usage event.
+ * @returns The embeddings, padded to EMBEDDING_COLUMN_DIMENSIONS.
+ * @throws An error if any batch still fails after its retries.
+ */
+export async function generateEmbeddings(texts: string[], usage: UsageContext = SYSTEM_USAGE_CONTEXT): Promise<number[][]> {
+  if (texts.some(text => !text || typeof text !== 'string')) {
+    throw new Error("Input texts must be non-empty strings.");
+  }
+  if (texts.length === 0) return [];
+
+  const config = getEmbeddingConfig();
+  const { cacheModel, inputs, hashes } = toCacheKeys(texts, config);
+
+  const embeddings = await getCachedEmbeddings(cacheModel, Array.from(new Set(hashes)));
+  // Identical texts are embedded once
+  const missing = new Map<string, string>();
+  inputs.forEach((input, i) => {
+    if (!embeddings.has(hashes[i])) missing.set(hashes[i], input);
+  });
+  console.log(`Embedding ${texts.length} texts with ${config.model}: ${texts.length - missing.size} from cache or duplicates, ${missing.size} to generate.`);
+
+  const pending = Array.from(missing.entries());
+  const batches: Array<Array<[string, string]>> = [];
+  for (let start = 0; start < pending.length; start += EMBEDDING_BATCH_SIZE) {
+    batches.push(pending.slice(start, start + EMBEDDING_BATCH_SIZE));
+  }
+
+  await forEachWithConcurrency(batches, EMBEDDING_CONCURRENCY, async batch => {
+    const vectors = await embedBatch(batch.map(([, input]) => input), config, usage);
+    const entries = batch.map(([hash], i) => ({ hash, embedding: vectors[i] }));
+    entries.forEach(entry => embeddings.set(entry.hash, entry.embedding));
+    await cacheEmbeddings(cacheModel, entries);
+  });
 
+  return hashes.map(hash => embeddings.get(hash)!);
+}
+
+/**
+ * Embeddings for texts that were embedded before, read from the embedding cache only; nothing is
+ * generated. Texts with no cached vector are undefined, so callers that rely on an earlier
+ * generateEmbeddings call can tell when its vectors are gone.
+ */
+export async function getCachedEmbeddingsForTexts(texts: string[]): Promise<Array<number[] | undefined>> {
+  if (texts.length === 0) return [];
+  const { cacheModel, hashes } = toCacheKeys(texts, getEmbeddingConfig());
+  const embeddings = await getCachedEmbeddings(cacheModel, Array.from(new Set(hashes)));
+  return hashes.map(hash => embeddings.get(hash));
+}
+
+function toCacheKeys(texts: string[], config: EmbeddingConfig) {
+  const inputs = texts.map(text => text.replace(/\n/g, ' ')); // OpenAI recommends replacing newlines with a space for better performance
+  return { cacheModel: `${config.provider}:${config.model}`, inputs, hashes: inputs.map(hashEmbeddingInput) };
+}
+
+// One embeddings request, retried on 429s and 5xx errors. The SDK's own retries are turned off so
+// withRetry alone decides the backoff.
+async function embedBatch(inputs: string[], config: EmbeddingConfig, usage: UsageContext): Promise<number[][]> {
   try {
-    const response = await openai.embeddings.create({
-      model: EMBEDDING_MODEL,
-      input: text.replace(/\n/g, ' '), // OpenAI recommends replacing newlines with a space for better performance
-      // dimensions: 1536 // Optional: text-embedding-3-small defaults to 1536, can be reduced for some use cases
-    });
-
-    if (response.data && response.data.length > 0 && response.data[0].embedding) {
-      console.log(`Successfully generated embedding of dimension ${response.data[0].embedding.length}`);
-      return response.data[0].embedding;
-    } else {
-      console.error("Failed to generate embedding or received an empty response from OpenAI.", response);
-      throw new Error("Failed to generate embedding: No embedding data received from OpenAI.");
+    const client = getEmbeddingClient(config);
+    const response = await withRetry(
+      () => meter(
+        { ...usage, keySource: 'internal' },
+        { operation: 'embedding', provider: config.provider, model: config.model },
+        () => client.embeddings.create({ model: config.model, input: inputs }, { maxRetries: 0 }),
+        result => ({ inputTokens: result.usage?.prompt_tokens ?? null })
+      ),
+      { label: `${config.provider} embeddings (${inputs.length} inputs)` }
+    );
+
+    if (!response.data || response.data.length !== inputs.length) {
+      console.error(`Failed to generate embeddings or received an incomplete response from ${config.provider}.`, response);
+      throw new Error(`Failed to generate embeddings: expected ${inputs.length} embeddings from ${config.provider} but got ${response.data?.length ?? 0}.`);
     }
+    return [...response.data]
+      .sort((a, b) => a.index - b.index)
+      .map(item => toColumnVector(item.embedding, config));
   } catch (error: unknown) {
     let errorMessage = "Unknown error during embedding generation.";
     if (error instanceof Error) {
       errorMessage = error.message;
-      console.error("Error generating embedding with OpenAI:", errorMessage);
+      console.error(`Error generating embeddings with ${config.provider}:`, errorMessage);
     } else {
-      console.error("Error generating embedding with OpenAI (non-standard error):", error);
+      console.error(`Error generating embeddings with ${config.provider} (non-standard error):`, error);
     }
-    // Consider re-throwing a more specific error or handling it based on the error type
-    throw new Error(`OpenAI embedding generation failed: ${errorMessage}`);
+    throw new Error(`${config.provider === 'local' ? 'Local' : 'OpenAI'} embedding generation failed: ${errorMessage}`);
   }
 }
 
-// Example of how you might use this for multiple texts (batching is often more efficient if API supports it directly)
-// export async function generateEmbeddingsForMultipleTexts(texts: string[]): Promise<number[][]> {
-//   // Note: openai.embeddings.create can take an array of strings as input directly.
-//   try {
-//     const response = await openai.embeddings.create({
-//       model: EMBEDDING_MODEL,
-//       input: texts.map(text => text.replace(/\n/g, ' ')),
-//     });
-//     return response.data.map(item => item.embedding);
-//   } catch (error: any) {
-//     console.error("Error generating batch embeddings with OpenAI:", error.message);
-//     throw new Error(`OpenAI batch embedding generation failed: ${error.message}`);
-//   }
-// }
-
-// Add other embedding related utility functions here 
\ No newline at end of file
+// Runs `run` over the items with at most `limit` in flight; rejects with the first failure
+async function forEachWithConcurrency<T>(items: T[], limit: number, run: (item: T) => Promise<void>): Promise<void> {
+  let next = 0;
+  const workers = Array.from({ length: Math.min(limit, items.length) }, async () => {
+    while (next < items.length) {
+      await run(items[next++]);
+    }
+  });
+  await Promise.all(workers);
+}
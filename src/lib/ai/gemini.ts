@@ -1,25 +0,0 @@
-// Placeholder for Google Gemini API interaction logic
-// This file is optional and can be developed if Gemini integration is needed.
-
-// import { GoogleGenerativeAI } from "@google/generative-ai";
-
-// const genAI = new GoogleGenerativeAI(process.env.GEMINI_API_KEY!);
-
-// export async function getGeminiChatCompletion(prompt: string) {
-  // Basic example - expand as needed
-  // try {
-    // const model = genAI.getGenerativeModel({ model: "gemini-pro"});
-    // const result = await model.generateContent(prompt);
-    // const response = await result.response;
-    // const text = response.text();
-    // return text;
-  // } catch (error) {
-    // console.error('Error getting Gemini chat completion:', error);
-    // throw error;
-  // }
-// }
-
-// Add other Gemini related functions here
-console.log("Gemini API module placeholder. Setup @google/generative-ai if needed.");
-
-export {}; // Ensures this is treated as a module 
\ No newline at end of file
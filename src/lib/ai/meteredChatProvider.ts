@@ -0,0 +1,49 @@
+import { meter, type UsageContext, type UsageMeasurement } from '@/lib/usage';
+import { estimateTokens, type ChatCompletion, type ChatProvider, type ChatRequest } from './chatProvider';
+
+// Falls back to estimates when the provider does not report usage (e.g. an interrupted stream)
+function measureCompletion(request: ChatRequest, completion: ChatCompletion) {
+  return completion.usage ?? {
+    inputTokens: estimateTokens(request.system + request.messages.map(m => m.content).join('\n')),
+    outputTokens: estimateTokens(completion.text),
+  };
+}
+
+/**
+ * Wraps a ChatProvider so every complete/stream call is recorded as a usage event for `context`.
+ * The request's `purpose` labels the event. `onUsage` also receives each successful call's tokens.
+ */
+export function withUsageMetering(
+  provider: ChatProvider,
+  context: UsageContext,
+  onUsage?: (usage: UsageMeasurement) => void
+): ChatProvider {
+  const measure = (request: ChatRequest, completion: ChatCompletion) => {
+    const usage = measureCompletion(request, completion);
+    onUsage?.(usage);
+    return usage;
+  };
+
+  const callInfo = (request: ChatRequest) => ({
+    operation: 'chat' as const,
+    provider: provider.id,
+    model: request.model,
+    purpose: request.purpose,
+  });
+
+  return {
+    id: provider.id,
+
+    complete(request) {
+      return meter(context, callInfo(request), () => provider.complete(request), completion => measure(request, completion));
+    },
+
+    stream(request, onDelta) {
+      return meter(context, callInfo(request), () => provider.stream(request, onDelta), completion => measure(request, completion));
+    },
+
+    countTokens(request) {
+      return provider.countTokens(request);
+    },
+  };
+}
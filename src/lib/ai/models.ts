@@ -0,0 +1,252 @@
+// Registry of the chat models the app offers: provider, display name, context window, prices,
+// capabilities and the user tiers allowed to use each one. /api/chat rejects any model not allowed
+// for the user's tier, /api/models lists them for the model picker, and the context budget and cost
+// estimates read their window and prices from here.
+// Local models depend on what the server has pulled, so they come from LOCAL_LLM_MODELS instead.
+
+import type { ChatProviderId } from './chatProvider';
+import type { ModelPrice } from './pricing';
+import type { UserTier } from '@/lib/supabase/withAuth';
+
+export interface ChatModelInfo {
+  id: string; // The provider's model id
+  aliases?: string[]; // Other ids the provider accepts or reports back for the same model (dated snapshots, -latest)
+  provider: ChatProviderId;
+  displayName: string;
+  description: string; // Shown under the name in the model picker
+  contextWindow: number; // Tokens
+  pricing: ModelPrice; // List prices, for cost estimates
+  supportsVision: boolean; // Accepts image input
+  supportsTools: boolean; // Supports tool / function calling
+  tiers: UserTier[]; // Tiers allowed to use the model
+}
+
+const ALL_TIERS: UserTier[] = ['free_trial', 'byok', 'vip_tester', 'admin'];
+// free_trial runs on the platform OpenAI key with a single model
+const PAID_TIERS: UserTier[] = ['byok', 'vip_tester', 'admin'];
+
+const LOCAL_CONTEXT_WINDOW = Number(process.env.LOCAL_LLM_CONTEXT_WINDOW) || 8_192;
+
+// LOCAL_LLM_MODELS is a comma-separated list of model ids, e.g. "llama3.1:8b,qwen2.5:14b"
+const LOCAL_CHAT_MODELS: ChatModelInfo[] = (process.env.LOCAL_LLM_MODELS ?? '')
+  .split(',')
+  .map(id => id.trim())
+  .filter(Boolean)
+  .map(id => ({
+    id,
+    provider: 'local',
+    displayName: id,
+    description: 'Runs on a local OpenAI-compatible server',
+    contextWindow: LOCAL_CONTEXT_WINDOW,
+    pricing: { inputPerMillion: 0, outputPerMillion: 0 },
+    supportsVision: false,
+    supportsTools: false,
+    tiers: PAID_TIERS,
+  }));
+
+export const CHAT_MODELS: ChatModelInfo[] = [
+  // OpenAI
+  {
+    id: 'gpt-4o',
+    aliases: ['gpt-4o-2024-11-20', 'gpt-4o-2024-08-06', 'gpt-4o-2024-05-13'],
+    provider: 'openai',
+    displayName: 'GPT-4o',
+    description: 'Recommended for Wellness',
+    contextWindow: 128_000,
+    pricing: { inputPerMillion: 2.5, outputPerMillion: 10 },
+    supportsVision: true,
+    supportsTools: true,
+    tiers: ALL_TIERS,
+  },
+  {
+    id: 'gpt-4o-mini',
+    aliases: ['gpt-4o-mini-2024-07-18'],
+    provider: 'openai',
+    displayName: 'GPT-4o mini',
+    description: 'Fast and inexpensive',
+    contextWindow: 128_000,
+    pricing: { inputPerMillion: 0.15, outputPerMillion: 0.6 },
+    supportsVision: true,
+    supportsTools: true,
+    tiers: PAID_TIERS,
+  },
+  {
+    id: 'gpt-4-turbo',
+    aliases: ['gpt-4-turbo-2024-04-09'],
+    provider: 'openai',
+    displayName: 'GPT-4 Turbo',
+    description: 'For complex analysis',
+    contextWindow: 128_000,
+    pricing: { inputPerMillion: 10, outputPerMillion: 30 },
+    supportsVision: true,
+    supportsTools: true,
+    tiers: PAID_TIERS,
+  },
+  {
+    id: 'gpt-4',
+    aliases: ['gpt-4-0613'],
+    provider: 'openai',
+    displayName: 'GPT-4',
+    description: 'Legacy',
+    contextWindow: 8_192,
+    pricing: { inputPerMillion: 30, outputPerMillion: 60 },
+    supportsVision: false,
+    supportsTools: true,
+    tiers: PAID_TIERS,
+  },
+  {
+    id: 'gpt-3.5-turbo',
+    aliases: ['gpt-3.5-turbo-0125'],
+    provider: 'openai',
+    displayName: 'GPT-3.5 Turbo',
+    description: 'Budget option',
+    contextWindow: 16_385,
+    pricing: { inputPerMillion: 0.5, outputPerMillion: 1.5 },
+    supportsVision: false,
+    supportsTools: true,
+    tiers: PAID_TIERS,
+  },
+  // Anthropic
+  {
+    id: 'claude-3-5-sonnet-20240620',
+    provider: 'anthropic',
+    displayName: 'Claude 3.5 Sonnet',
+    description: 'Recommended for Wellness',
+    contextWindow: 200_000,
+    pricing: { inputPerMillion: 3, outputPerMillion: 15 },
+    supportsVision: true,
+    supportsTools: true,
+    tiers: PAID_TIERS,
+  },
+  {
+    id: 'claude-3-5-sonnet-20241022',
+    aliases: ['claude-3-5-sonnet-latest'],
+    provider: 'anthropic',
+    displayName: 'Claude 3.5 Sonnet (Oct 2024)',
+    description: 'Newer Sonnet snapshot',
+    contextWindow: 200_000,
+    pricing: { inputPerMillion: 3, outputPerMillion: 15 },
+    supportsVision: true,
+    supportsTools: true,
+    tiers: PAID_TIERS,
+  },
+  {
+    id: 'claude-3-5-haiku-20241022',
+    aliases: ['claude-3-5-haiku-latest'],
+    provider: 'anthropic',
+    displayName: 'Claude 3.5 Haiku',
+    description: 'Fast and inexpensive',
+    contextWindow: 200_000,
+    pricing: { inputPerMillion: 0.8, outputPerMillion: 4 },
+    supportsVision: false,
+    supportsTools: true,
+    tiers: PAID_TIERS,
+  },
+  {
+    id: 'claude-3-opus-20240229',
+    aliases: ['claude-3-opus-latest'],
+    provider: 'anthropic',
+    displayName: 'Claude 3 Opus',
+    description: 'For complex analysis',
+    contextWindow: 200_000,
+    pricing: { inputPerMillion: 15, outputPerMillion: 75 },
+    supportsVision: true,
+    supportsTools: true,
+    tiers: PAID_TIERS,
+  },
+  {
+    id: 'claude-3-haiku-20240307',
+    provider: 'anthropic',
+    displayName: 'Claude 3 Haiku',
+    description: 'Budget option',
+    contextWindow: 200_000,
+    pricing: { inputPerMillion: 0.25, outputPerMillion: 1.25 },
+    supportsVision: true,
+    supportsTools: true,
+    tiers: PAID_TIERS,
+  },
+  // Google (prices for prompts up to 128k tokens)
+  {
+    id: 'gemini-2.0-flash',
+    aliases: ['gemini-2.0-flash-001'],
+    provider: 'google',
+    displayName: 'Gemini 2.0 Flash',
+    description: 'Recommended for Wellness',
+    contextWindow: 1_048_576,
+    pricing: { inputPerMillion: 0.1, outputPerMillion: 0.4 },
+    supportsVision: true,
+    supportsTools: true,
+    tiers: PAID_TIERS,
+  },
+  {
+    id: 'gemini-1.5-pro',
+    aliases: ['gemini-1.5-pro-002', 'gemini-1.5-pro-001'],
+    provider: 'google',
+    displayName: 'Gemini 1.5 Pro',
+    description: 'For complex analysis',
+    contextWindow: 2_097_152,
+    pricing: { inputPerMillion: 1.25, outputPerMillion: 5 },
+    supportsVision: true,
+    supportsTools: true,
+    tiers: PAID_TIERS,
+  },
+  {
+    id: 'gemini-1.5-flash',
+    aliases: ['gemini-1.5-flash-002', 'gemini-1.5-flash-001'],
+    provider: 'google',
+    displayName: 'Gemini 1.5 Flash',
+    description: 'Budget option',
+    contextWindow: 1_048_576,
+    pricing: { inputPerMillion: 0.075, outputPerMillion: 0.3 },
+    supportsVision: true,
+    supportsTools: true,
+    tiers: PAID_TIERS,
+  },
+  ...LOCAL_CHAT_MODELS,
+];
+
+// Used when a request names a provider but no model (if the tier may use it); local defaults to the
+// first model in LOCAL_LLM_MODELS
+export const DEFAULT_CHAT_MODELS: Partial<Record<ChatProviderId, string>> = {
+  openai: 'gpt-4o',
+  anthropic: 'claude-3-5-sonnet-20240620',
+  google: 'gemini-2.0-flash',
+};
+
+/**
+ * The registry entry for a model id or one of its listed aliases (e.g. the dated snapshot a provider
+ * reports back, like `gpt-4o-2024-08-06`). Other ids are unknown, even when they share a prefix with a
+ * listed model (`gpt-4.1` is not `gpt-4`), so callers fall back to their defaults.
+ */
+export function findChatModel(id: string): ChatModelInfo | undefined {
+  return CHAT_MODELS.find(model => model.id === id) ?? CHAT_MODELS.find(model => model.aliases?.includes(id));
+}
+
+/**
+ * The models the tier may use, optionally for one provider, in registry order.
+ */
+export function getChatModelsForTier(tier: UserTier, provider?: ChatProviderId): ChatModelInfo[] {
+  return CHAT_MODELS.filter(model =>
+    model.tiers.includes(tier) && (provider === undefined || model.provider === provider));
+}
+
+/**
+ * The tier's default model for the provider: the provider default if the tier may use it, otherwise
+ * its first allowed model; undefined if the tier can't use the provider at all.
+ */
+export function getDefaultChatModel(tier: UserTier, provider: ChatProviderId): string | undefined {
+  const allowed = getAllowedChatModels(tier, provider);
+  const preferred = DEFAULT_CHAT_MODELS[provider];
+  return preferred && allowed.includes(preferred) ? preferred : allowed[0];
+}
+
+/**
+ * Ids of the models the tier may use with the provider; empty if the provider is not available.
+ */
+export function getAllowedChatModels(tier: UserTier, provider: ChatProviderId): string[] {
+  return getChatModelsForTier(tier, provider).map(model => model.id);
+}
+
+export function isChatModelAllowed(tier: UserTier, provider: ChatProviderId, model: string): boolean {
+  return getAllowedChatModels(tier, provider).includes(model);
+}
@@ -2,6 +2,7 @@
 // This could include functions for chat completions, embeddings, etc.
 
 import OpenAI from 'openai';
+import { DEFAULT_CHAT_MODELS } from './models';
 
 export const openai = new OpenAI({
   apiKey: process.env.OPENAI_API_KEY,
@@ -12,7 +13,7 @@ export async function getOpenAIChatCompletion(prompt: string) {
   try {
     const completion = await openai.chat.completions.create({
       messages: [{ role: 'user', content: prompt }],
-      model: 'gpt-3.5-turbo',
+      model: DEFAULT_CHAT_MODELS.openai!,
     });
     return completion.choices[0]?.message?.content;
   } catch (error) {
@@ -0,0 +1,45 @@
+// Estimated provider prices in USD, used to put a cost on each usage event.
+// List prices at the time of writing; update them here when providers change their pricing.
+// Chat model prices live in the model registry (./models).
+
+import { findChatModel } from './models';
+
+export interface ModelPrice {
+  inputPerMillion: number; // USD per 1M input tokens
+  outputPerMillion: number; // USD per 1M output tokens
+  perImage?: number; // USD per generated image
+}
+
+// Models outside the chat registry, keyed by model name prefix; the longest matching prefix wins
+const MODEL_PRICES: Record<string, ModelPrice> = {
+  // Embeddings
+  'text-embedding-3-small': { inputPerMillion: 0.02, outputPerMillion: 0 },
+  'text-embedding-3-large': { inputPerMillion: 0.13, outputPerMillion: 0 },
+  // Images (1024x1024, standard quality)
+  'dall-e-3': { inputPerMillion: 0, outputPerMillion: 0, perImage: 0.04 },
+  'dall-e-2': { inputPerMillion: 0, outputPerMillion: 0, perImage: 0.02 },
+};
+
+export function getModelPrice(model: string): ModelPrice | null {
+  const chatModel = findChatModel(model);
+  if (chatModel) return chatModel.pricing;
+
+  const prefix = Object.keys(MODEL_PRICES)
+    .filter(key => model.startsWith(key))
+    .sort((a, b) => b.length - a.length)[0];
+  return prefix ? MODEL_PRICES[prefix] : null;
+}
+
+/**
+ * Estimated cost in USD of one call, or null when the model has no known price.
+ */
+export function estimateCost(
+  model: string,
+  usage: { inputTokens?: number | null; outputTokens?: number | null; images?: number | null }
+): number | null {
+  const price = getModelPrice(model);
+  if (!price) return null;
+  return (usage.inputTokens ?? 0) * price.inputPerMillion / 1_000_000
+    + (usage.outputTokens ?? 0) * price.outputPerMillion / 1_000_000
+    + (usage.images ?? 0) * (price.perImage ?? 0);
+}
@@ -0,0 +1,67 @@
+import Anthropic from '@anthropic-ai/sdk';
+import {
+  DEFAULT_MAX_TOKENS,
+  estimateTokens,
+  type ChatCompletion,
+  type ChatProvider,
+  type ChatProviderOptions,
+  type ChatRequest,
+} from '../chatProvider';
+
+// Claude returns a list of content blocks; we only use the first text block.
+function toCompletion(message: Anthropic.Message): ChatCompletion {
+  const firstTextBlock = message.content?.find(block => block.type === 'text') as Anthropic.TextBlock | undefined;
+  return {
+    text: firstTextBlock?.text || '',
+    usage: {
+      inputTokens: message.usage.input_tokens,
+      outputTokens: message.usage.output_tokens,
+    },
+  };
+}
+
+function toMessageParams(request: ChatRequest): Anthropic.MessageCreateParamsNonStreaming {
+  return {
+    model: request.model,
+    max_tokens: request.maxTokens ?? DEFAULT_MAX_TOKENS,
+    system: request.system,
+    messages: request.messages,
+  };
+}
+
+export function createAnthropicProvider(apiKey: string, options: ChatProviderOptions = {}): ChatProvider {
+  const anthropic = new Anthropic({ apiKey, baseURL: options.baseURL });
+
+  return {
+    id: 'anthropic',
+
+    async complete(request) {
+      const message = await anthropic.messages.create(toMessageParams(request), { signal: request.signal });
+      return toCompletion(message);
+    },
+
+    async stream(request, onDelta) {
+      const message = await anthropic.messages
+        .stream(toMessageParams(request), { signal: request.signal })
+        .on('text', onDelta)
+        .finalMessage();
+      return toCompletion(message);
+    },
+
+    async countTokens(request) {
+      try {
+        const result = await anthropic.messages.countTokens({
+          model: request.model,
+          system: request.system,
+          messages: request.messages,
+        });
+        return result.input_tokens;
+      } catch (error) {
+        // Token counting is advisory; fall back to an estimate rather than failing the chat.
+        console.warn('Anthropic provider: countTokens failed, using estimate.', error instanceof Error ? error.message : error);
+        const text = request.system + request.messages.map(m => m.content).join('\n');
+        return estimateTokens(text);
+      }
+    },
+  };
+}
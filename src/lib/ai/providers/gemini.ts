@@ -0,0 +1,118 @@
+import { readSSEStream } from '@/lib/sse';
+import {
+  DEFAULT_MAX_TOKENS,
+  estimateTokens,
+  type ChatCompletion,
+  type ChatProvider,
+  type ChatProviderOptions,
+  type ChatRequest,
+} from '../chatProvider';
+
+// Talks to the Gemini REST API directly; the request and response shapes are small enough not to need an SDK.
+const DEFAULT_BASE_URL = 'https://generativelanguage.googleapis.com/v1beta';
+
+interface GeminiContent {
+  role: 'user' | 'model';
+  parts: Array<{ text: string }>;
+}
+
+interface GeminiResponse {
+  candidates?: Array<{ content?: { parts?: Array<{ text?: string }> }; finishReason?: string }>;
+  usageMetadata?: { promptTokenCount?: number; candidatesTokenCount?: number };
+  promptFeedback?: { blockReason?: string };
+}
+
+// Gemini calls the assistant role 'model' and takes the system prompt as a separate instruction.
+function toGeminiRequest(request: Pick<ChatRequest, 'system' | 'messages' | 'maxTokens'>) {
+  return {
+    systemInstruction: { parts: [{ text: request.system }] },
+    contents: request.messages.map((turn): GeminiContent => ({
+      role: turn.role === 'assistant' ? 'model' : 'user',
+      parts: [{ text: turn.content }],
+    })),
+    generationConfig: { maxOutputTokens: request.maxTokens ?? DEFAULT_MAX_TOKENS },
+  };
+}
+
+function textOf(response: GeminiResponse): string {
+  return response.candidates?.[0]?.content?.parts?.map(part => part.text ?? '').join('') ?? '';
+}
+
+function usageOf(response: GeminiResponse): ChatCompletion['usage'] {
+  const usage = response.usageMetadata;
+  if (usage?.promptTokenCount === undefined) return undefined;
+  return { inputTokens: usage.promptTokenCount, outputTokens: usage.candidatesTokenCount ?? 0 };
+}
+
+// A prompt blocked by Gemini's safety filters comes back as a 200 with no candidates
+function assertNotBlocked(response: GeminiResponse): void {
+  if (response.promptFeedback?.blockReason) {
+    throw new Error(`Gemini blocked the request: ${response.promptFeedback.blockReason}`);
+  }
+}
+
+export function createGeminiProvider(apiKey: string, options: ChatProviderOptions = {}): ChatProvider {
+  const baseURL = (options.baseURL ?? DEFAULT_BASE_URL).replace(/\/$/, '');
+
+  const post = async (model: string, method: string, body: unknown, signal?: AbortSignal, query = '') => {
+    const response = await fetch(`${baseURL}/models/${encodeURIComponent(model)}:${method}${query}`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', 'x-goog-api-key': apiKey },
+      body: JSON.stringify(body),
+      signal,
+    });
+    if (!response.ok) {
+      const error = await response.json().catch(() => null) as { error?: { message?: string } } | null;
+      throw new Error(`Gemini API error ${response.status}: ${error?.error?.message ?? response.statusText}`);
+    }
+    return response;
+  };
+
+  return {
+    id: 'google',
+
+    async complete(request) {
+      const response = await post(request.model, 'generateContent', toGeminiRequest(request), request.signal);
+      const result = await response.json() as GeminiResponse;
+      assertNotBlocked(result);
+      return { text: textOf(result), usage: usageOf(result) };
+    },
+
+    async stream(request, onDelta) {
+      const response = await post(
+        request.model, 'streamGenerateContent', toGeminiRequest(request), request.signal, '?alt=sse'
+      );
+
+      let text = '';
+      let usage: ChatCompletion['usage'];
+      await readSSEStream(response, (_event, data) => {
+        const chunk = data as GeminiResponse;
+        assertNotBlocked(chunk);
+        const delta = textOf(chunk);
+        if (delta) {
+          text += delta;
+          onDelta(delta);
+        }
+        usage = usageOf(chunk) ?? usage; // Every chunk carries the running totals
+      });
+      return { text, usage };
+    },
+
+    async countTokens(request) {
+      try {
+        const { systemInstruction, contents } = toGeminiRequest(request);
+        const response = await post(request.model, 'countTokens', {
+          generateContentRequest: { model: `models/${request.model}`, systemInstruction, contents },
+        });
+        const result = await response.json() as { totalTokens?: number };
+        if (typeof result.totalTokens === 'number') return result.totalTokens;
+        throw new Error('countTokens returned no total.');
+      } catch (error) {
+        // Token counting is advisory; fall back to an estimate rather than failing the chat.
+        console.warn('Gemini provider: countTokens failed, using estimate.', error instanceof Error ? error.message : error);
+        const text = request.system + request.messages.map(m => m.content).join('\n');
+        return estimateTokens(text);
+      }
+    },
+  };
+}
@@ -0,0 +1,86 @@
+import { lookup } from 'dns/promises';
+import { BlockList, isIP } from 'net';
+import { estimateTokens, type ChatProvider } from '../chatProvider';
+import { createOpenAIProvider } from './openai';
+
+// Ollama and llama.cpp ignore the key, but the OpenAI SDK refuses to start without one
+const PLACEHOLDER_API_KEY = 'local';
+
+export interface LocalEndpoint {
+  baseURL: string; // e.g. http://localhost:11434/v1 for Ollama
+  apiKey: string;
+}
+
+/**
+ * The platform's own OpenAI-compatible server (LOCAL_LLM_BASE_URL, plus LOCAL_LLM_API_KEY if it
+ * needs one), or null when none is configured.
+ */
+export function getLocalEndpoint(): LocalEndpoint | null {
+  const baseURL = process.env.LOCAL_LLM_BASE_URL;
+  if (!baseURL) return null;
+  return { baseURL, apiKey: process.env.LOCAL_LLM_API_KEY || PLACEHOLDER_API_KEY };
+}
+
+/**
+ * ChatProvider for an OpenAI-compatible server (Ollama, llama.cpp server, vLLM). Token counts use the
+ * character estimate, since local models don't share OpenAI's tokenizers.
+ */
+export function createLocalProvider(baseURL: string, apiKey?: string): ChatProvider {
+  const provider = createOpenAIProvider(apiKey || PLACEHOLDER_API_KEY, { baseURL, id: 'local' });
+  return {
+    ...provider,
+    async countTokens(request) {
+      return estimateTokens(request.system) + request.messages.reduce((total, turn) => total + estimateTokens(turn.content), 0);
+    },
+  };
+}
+
+// Loopback, private, link-local, shared (CGNAT), documentation, multicast and reserved ranges. IPv4-mapped
+// IPv6 addresses (::ffff:127.0.0.1) are checked against the IPv4 ranges.
+const PRIVATE_ADDRESSES = new BlockList();
+for (const [network, prefix] of [
+  ['0.0.0.0', 8], ['10.0.0.0', 8], ['100.64.0.0', 10], ['127.0.0.0', 8], ['169.254.0.0', 16], ['172.16.0.0', 12],
+  ['192.0.0.0', 24], ['192.0.2.0', 24], ['192.88.99.0', 24], ['192.168.0.0', 16], ['198.18.0.0', 15],
+  ['198.51.100.0', 24], ['203.0.113.0', 24], ['224.0.0.0', 4], ['240.0.0.0', 4],
+] as const) {
+  PRIVATE_ADDRESSES.addSubnet(network, prefix, 'ipv4');
+}
+for (const [network, prefix] of [
+  ['::', 128], ['::1', 128], ['64:ff9b::', 96], ['64:ff9b:1::', 48], ['100::', 64], ['2001:db8::', 32],
+  ['2002::', 16], ['fc00::', 7], ['fe80::', 10], ['ff00::', 8],
+] as const) {
+  PRIVATE_ADDRESSES.addSubnet(network, prefix, 'ipv6');
+}
+
+export function isPrivateAddress(address: string): boolean {
+  const family = isIP(address);
+  if (family === 0) return true; // Not an address, so nothing we can vouch for
+  return PRIVATE_ADDRESSES.check(address, family === 4 ? 'ipv4' : 'ipv6');
+}
+
+/**
+ * Whether a user-supplied endpoint reaches this machine or a private network. The server makes requests
+ * there on the user's behalf, so a host name counts as private when any address it resolves to is, or
+ * when it doesn't resolve. Check again right before each request, since DNS answers can change after
+ * the endpoint was saved.
+ */
+export async function isPrivateEndpoint(url: string): Promise<boolean> {
+  // URL normalizes decimal, octal and hex IPv4 hosts (http://2130706433/) to dotted form
+  const hostname = new URL(url).hostname.toLowerCase().replace(/^\[|\]$/g, '');
+  if (isIP(hostname)) return isPrivateAddress(hostname);
+  try {
+    const addresses = await lookup(hostname, { all: true, verbatim: true });
+    return addresses.length === 0 || addresses.some(({ address }) => isPrivateAddress(address));
+  } catch {
+    return true;
+  }
+}
+
+/**
+ * Refuses endpoints on localhost or private networks unless ALLOW_PRIVATE_LLM_ENDPOINTS is set
+ * (e.g. for a single-user development setup).
+ */
+export async function isAllowedEndpoint(url: string): Promise<boolean> {
+  if (process.env.ALLOW_PRIVATE_LLM_ENDPOINTS === 'true') return true;
+  return !(await isPrivateEndpoint(url));
+}
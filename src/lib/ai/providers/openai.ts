@@ -0,0 +1,99 @@
+import OpenAI from 'openai';
+import { encodingForModel, getEncoding, type Tiktoken, type TiktokenModel } from 'js-tiktoken';
+import {
+  DEFAULT_MAX_TOKENS,
+  type ChatProvider,
+  type ChatProviderId,
+  type ChatProviderOptions,
+  type ChatRequest,
+} from '../chatProvider';
+
+type OpenAIMessage = { role: 'system' | 'user' | 'assistant'; content: string };
+
+// OpenAI takes the system prompt as the first message rather than a separate field.
+function toOpenAIMessages(request: Pick<ChatRequest, 'system' | 'messages'>): OpenAIMessage[] {
+  return [
+    { role: 'system', content: request.system },
+    ...request.messages,
+  ];
+}
+
+const encoders = new Map<string, Tiktoken>();
+
+/**
+ * Returns the (cached) tiktoken encoder for an OpenAI model.
+ */
+export function getEncoderForModel(model: string): Tiktoken {
+  let encoder = encoders.get(model);
+  if (!encoder) {
+    try {
+      encoder = encodingForModel(model as TiktokenModel);
+    } catch {
+      // Unknown or newer model names: o200k_base is the encoding used by current GPT-4o-era models
+      encoder = getEncoding('o200k_base');
+    }
+    encoders.set(model, encoder);
+  }
+  return encoder;
+}
+
+// `id` lets OpenAI-compatible servers reuse this adapter under their own provider id (see ./local)
+export function createOpenAIProvider(
+  apiKey: string,
+  options: ChatProviderOptions & { id?: ChatProviderId } = {}
+): ChatProvider {
+  const openai = new OpenAI({ apiKey, baseURL: options.baseURL });
+
+  return {
+    id: options.id ?? 'openai',
+
+    async complete(request) {
+      const response = await openai.chat.completions.create({
+        model: request.model,
+        messages: toOpenAIMessages(request),
+        max_tokens: request.maxTokens ?? DEFAULT_MAX_TOKENS,
+      }, { signal: request.signal });
+
+      return {
+        text: response.choices[0]?.message?.content || '',
+        usage: response.usage
+          ? { inputTokens: response.usage.prompt_tokens, outputTokens: response.usage.completion_tokens }
+          : undefined,
+      };
+    },
+
+    async stream(request, onDelta) {
+      const stream = await openai.chat.completions.create({
+        model: request.model,
+        messages: toOpenAIMessages(request),
+        max_tokens: request.maxTokens ?? DEFAULT_MAX_TOKENS,
+        stream: true,
+        stream_options: { include_usage: true }, // The final chunk then carries token usage
+      }, { signal: request.signal });
+
+      let text = '';
+      let usage: { inputTokens: number; outputTokens: number } | undefined;
+      for await (const chunk of stream) {
+        const delta = chunk.choices[0]?.delta?.content;
+        if (delta) {
+          text += delta;
+          onDelta(delta);
+        }
+        if (chunk.usage) {
+          usage = { inputTokens: chunk.usage.prompt_tokens, outputTokens: chunk.usage.completion_tokens };
+        }
+      }
+      return { text, usage };
+    },
+
+    async countTokens(request) {
+      // Follows OpenAI's chat format accounting: ~3 tokens of framing per message plus 3 to prime the reply
+      const encoder = getEncoderForModel(request.model);
+      const tokens = toOpenAIMessages(request).reduce(
+        (total, message) => total + 3 + encoder.encode(message.role).length + encoder.encode(message.content).length,
+        0
+      );
+      return tokens + 3;
+    },
+  };
+}
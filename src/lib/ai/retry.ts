@@ -0,0 +1,55 @@
+// Retry with exponential backoff for provider API calls that fail with a rate limit (429) or a server
+// error (5xx). Other errors (bad request, auth, aborted) are thrown straight away.
+
+export interface RetryOptions {
+  attempts?: number; // Total tries, including the first
+  baseDelayMs?: number; // Delay before the first retry; doubles after each one
+  maxDelayMs?: number;
+  label?: string; // Names the call in the retry log lines
+}
+
+const DEFAULT_RETRY_OPTIONS: Required<Omit<RetryOptions, 'label'>> = {
+  attempts: 5,
+  baseDelayMs: 500,
+  maxDelayMs: 20_000,
+};
+
+// Provider SDK errors (OpenAI, Anthropic) carry the HTTP status and response headers
+interface HttpError {
+  status?: number;
+  headers?: { get(name: string): string | null } | null;
+}
+
+export function isRetryableError(error: unknown): boolean {
+  const status = (error as HttpError | null)?.status;
+  return typeof status === 'number' && (status === 429 || status >= 500);
+}
+
+// Honours a Retry-After header given in seconds
+function retryAfterMs(error: unknown): number | null {
+  const headers = (error as HttpError | null)?.headers;
+  const value = typeof headers?.get === 'function' ? headers.get('retry-after') : null;
+  const seconds = value === null ? NaN : Number(value);
+  return Number.isFinite(seconds) && seconds >= 0 ? seconds * 1000 : null;
+}
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+/**
+ * Runs `run`, retrying retryable failures with exponential backoff and jitter (or the server's
+ * Retry-After, if longer). The last error is thrown once the attempts are used up.
+ */
+export async function withRetry<T>(run: () => Promise<T>, options: RetryOptions = {}): Promise<T> {
+  const { attempts, baseDelayMs, maxDelayMs } = { ...DEFAULT_RETRY_OPTIONS, ...options };
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await run();
+    } catch (error: unknown) {
+      if (attempt >= attempts || !isRetryableError(error)) throw error;
+      const backoff = Math.min(maxDelayMs, baseDelayMs * 2 ** (attempt - 1)) * (0.5 + Math.random() / 2);
+      const delay = Math.min(maxDelayMs, Math.max(backoff, retryAfterMs(error) ?? 0));
+      console.warn(`Retry: ${options.label ?? 'call'} failed with status ${(error as HttpError).status} (attempt ${attempt}/${attempts}), retrying in ${Math.round(delay)}ms.`);
+      await sleep(delay);
+    }
+  }
+}
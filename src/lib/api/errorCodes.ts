@@ -0,0 +1,65 @@
+// Machine-readable API error codes and the JSON error body shared by the routes and the client pages,
+// plus the helpers client pages use to turn an error body into a message.
+// Kept free of server imports so client components can use it.
+
+export type ApiErrorCode =
+  | 'INVALID_REQUEST'
+  | 'UNAUTHORIZED'
+  | 'FORBIDDEN'
+  | 'NOT_FOUND'
+  | 'CONFLICT'
+  | 'CREDITS_EXHAUSTED'
+  | 'KEY_MISSING'
+  | 'UNSUPPORTED_FILE'
+  | 'RATE_LIMITED'
+  | 'PROVIDER_ERROR'
+  | 'INTERNAL_ERROR';
+
+export interface ApiErrorBody {
+  error: string; // Human-readable message
+  code: ApiErrorCode;
+  details?: unknown; // Debugging details; omitted in production
+}
+
+// What the UI shows instead of the server message for codes that need no request-specific wording
+const FRIENDLY_MESSAGES: Partial<Record<ApiErrorCode, string>> = {
+  UNAUTHORIZED: 'Your session has expired. Please sign in again.',
+  FORBIDDEN: 'You do not have access to this feature.',
+  CREDITS_EXHAUSTED: 'Your free trial has ended. Add your own API key in Settings to keep going.',
+};
+
+export function isApiErrorBody(value: unknown): value is ApiErrorBody {
+  return typeof value === 'object' && value !== null
+    && typeof (value as ApiErrorBody).error === 'string'
+    && typeof (value as ApiErrorBody).code === 'string';
+}
+
+/**
+ * The message to show for a failed API response body: the friendly message for its code if there is
+ * one, otherwise the server's message (which is written to be shown), otherwise `fallback`.
+ */
+export function getApiErrorMessage(body: unknown, fallback: string): string {
+  if (isApiErrorBody(body)) return FRIENDLY_MESSAGES[body.code] ?? body.error;
+  if (typeof body === 'object' && body !== null && typeof (body as { error?: unknown }).error === 'string') {
+    return (body as { error: string }).error;
+  }
+  return fallback;
+}
+
+/**
+ * Thrown by client pages for a failed API response. Keeps the error code so the UI can react to it
+ * (e.g. show the trial-ended state or a link to Settings) without matching on message text.
+ */
+export class ApiRequestError extends Error {
+  readonly code?: ApiErrorCode;
+
+  constructor(message: string, code?: ApiErrorCode) {
+    super(message);
+    this.name = 'ApiRequestError';
+    this.code = code;
+  }
+}
+
+export function toApiRequestError(body: unknown, fallback: string): ApiRequestError {
+  return new ApiRequestError(getApiErrorMessage(body, fallback), isApiErrorBody(body) ? body.code : undefined);
+}
@@ -0,0 +1,131 @@
+import { NextResponse } from 'next/server';
+import type { ApiErrorBody, ApiErrorCode } from './errorCodes';
+
+export type { ApiErrorBody, ApiErrorCode } from './errorCodes';
+
+/**
+ * An error a route reports to the client: an HTTP status, a machine-readable code and a message that
+ * is safe to show. `details` is for debugging and is only sent outside production.
+ */
+export class ApiError extends Error {
+  readonly code: ApiErrorCode;
+  readonly status: number;
+  readonly details?: unknown;
+
+  constructor(code: ApiErrorCode, status: number, message: string, details?: unknown) {
+    super(message);
+    this.name = 'ApiError';
+    this.code = code;
+    this.status = status;
+    this.details = details;
+  }
+}
+
+export class InvalidRequestError extends ApiError {
+  constructor(message = 'Invalid request body.', details?: unknown) {
+    super('INVALID_REQUEST', 400, message, details);
+  }
+}
+
+export class UnauthorizedError extends ApiError {
+  constructor(message = 'Unauthorized. Please sign in.') {
+    super('UNAUTHORIZED', 401, message);
+  }
+}
+
+export class ForbiddenError extends ApiError {
+  constructor(message = 'You do not have permission to perform this action.') {
+    super('FORBIDDEN', 403, message);
+  }
+}
+
+export class NotFoundError extends ApiError {
+  constructor(message = 'Not found.') {
+    super('NOT_FOUND', 404, message);
+  }
+}
+
+export class ConflictError extends ApiError {
+  constructor(message: string) {
+    super('CONFLICT', 409, message);
+  }
+}
+
+export class CreditsExhaustedError extends ApiError {
+  constructor(message = 'Your free trial has ended. Please add your own API key to continue.') {
+    super('CREDITS_EXHAUSTED', 402, message);
+  }
+}
+
+// The user has not saved an API key for a provider that needs one
+export class KeyMissingError extends ApiError {
+  constructor(provider: string, message = `API key for ${provider} not found. Please add it in your settings.`) {
+    super('KEY_MISSING', 404, message, { provider });
+  }
+}
+
+export class UnsupportedFileError extends ApiError {
+  constructor(message: string, details?: unknown) {
+    super('UNSUPPORTED_FILE', 415, message, details);
+  }
+}
+
+export class RateLimitedError extends ApiError {
+  constructor(message: string, readonly retryAfterSeconds: number) {
+    super('RATE_LIMITED', 429, message, { retryAfterSeconds });
+  }
+}
+
+// An LLM, embedding or image provider call failed; `cause` is the provider's error
+export class ProviderError extends ApiError {
+  constructor(provider: string, cause?: unknown, message = `Failed to get response from ${provider} API.`) {
+    super('PROVIDER_ERROR', 502, message, describeCause(cause));
+  }
+}
+
+export class InternalError extends ApiError {
+  constructor(message = 'An unexpected error occurred.', cause?: unknown) {
+    super('INTERNAL_ERROR', 500, message, describeCause(cause));
+  }
+}
+
+function describeCause(cause: unknown): string | undefined {
+  if (cause === undefined) return undefined;
+  if (cause instanceof Error) return cause.message;
+  if (typeof cause === 'object' && cause !== null && typeof (cause as { message?: unknown }).message === 'string') {
+    return (cause as { message: string }).message; // e.g. PostgrestError
+  }
+  return String(cause);
+}
+
+/**
+ * Any thrown value as an ApiError: ApiErrors pass through, everything else becomes an InternalError
+ * with `fallbackMessage`.
+ */
+export function toApiError(error: unknown, fallbackMessage?: string): ApiError {
+  return error instanceof ApiError ? error : new InternalError(fallbackMessage, error);
+}
+
+/**
+ * The JSON body for an error. Details (provider and database messages) are dropped in production;
+ * stack traces are never included.
+ */
+export function serializeApiError(error: ApiError): ApiErrorBody {
+  const body: ApiErrorBody = { error: error.message, code: error.code };
+  if (error.details !== undefined && process.env.NODE_ENV !== 'production') {
+    body.details = error.details;
+  }
+  return body;
+}
+
+/**
+ * The response for an error returned or thrown by a route handler.
+ */
+export function errorResponse(error: unknown, fallbackMessage?: string): NextResponse<ApiErrorBody> {
+  const apiError = toApiError(error, fallbackMessage);
+  const response = NextResponse.json(serializeApiError(apiError), { status: apiError.status });
+  if (apiError instanceof RateLimitedError) {
+    response.headers.set('Retry-After', String(apiError.retryAfterSeconds));
+  }
+  return response;
+}
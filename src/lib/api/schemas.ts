@@ -0,0 +1,290 @@
+// Request schemas for the API routes, and the request/response types the client pages share with them.
+// Routes validate with parseJsonBody / parseSearchParams from ./validation; client code should only
+// import types from here.
+
+import { z } from 'zod';
+import { CHAT_PROVIDER_IDS, type ChatProviderId } from '@/lib/ai/chatProvider';
+import type { ChatModelInfo } from '@/lib/ai/models';
+import type { CreditLedgerEntryType } from '@/lib/credits';
+import type { DiffHunk } from '@/lib/textProcessing/diffLines';
+import type { KeySource } from '@/lib/usage';
+import type { DocumentVersion } from '@/lib/vector/documentVersions';
+import type {
+  KnowledgeDocument,
+  KnowledgeDocumentChunk,
+  KnowledgeDocumentListItem,
+  KnowledgeDocumentSearchField,
+} from '@/lib/vector/knowledgeDocuments';
+import type { DocumentStats } from '@/lib/vector/supabaseVectorClient';
+import type { UserProfile } from '@/lib/supabase/withAuth';
+import type { ConversationSummary, StoredMessage } from '@/types/chat';
+import type { IngestionJobSummary } from '@/types/ingestion';
+
+export const MAX_MESSAGE_CHARS = 32_000;
+export const MAX_HISTORY_TURNS = 100;
+
+const nonEmptyString = (message: string) => z.string({ required_error: message }).trim().min(1, message);
+
+const chatProviderSchema = z.enum(CHAT_PROVIDER_IDS as [ChatProviderId, ...ChatProviderId[]], {
+  errorMap: () => ({ message: `provider must be one of: ${CHAT_PROVIDER_IDS.join(', ')}.` }),
+});
+
+const httpUrlSchema = (required: string) => z.string({ required_error: required }).trim().url('Invalid URL format.')
+  .refine(url => /^https?:\/\//i.test(url), 'Only http and https URLs are supported.');
+
+const chatModeSchema = z.enum(['wellness', 'general'], {
+  errorMap: () => ({ message: 'chatMode must be "wellness" or "general".' }),
+});
+
+// --- /api/chat ---
+
+export const chatRequestSchema = z.object({
+  // Not trimmed: the message is stored and sent as typed
+  message: z.string({ required_error: 'Message is required.' })
+    .max(MAX_MESSAGE_CHARS, `Message must be at most ${MAX_MESSAGE_CHARS} characters.`)
+    .refine(message => message.trim().length > 0, 'Message is required.'),
+  provider: chatProviderSchema.optional(), // Checked against the tier's allowlist in the route
+  model: z.string().min(1).max(100).optional(),
+  chatMode: chatModeSchema.optional(),
+  conversationId: z.string().uuid('conversationId must be a UUID.').optional(), // Continue a saved conversation
+  // Used only when conversationId is not set; a saved conversation's history is loaded on the server
+  conversationHistory: z.array(z.object({
+    role: z.enum(['user', 'assistant']),
+    content: z.string().max(MAX_MESSAGE_CHARS),
+  })).max(MAX_HISTORY_TURNS).optional(),
+  stream: z.boolean().optional(), // Stream tokens back as Server-Sent Events
+  debug: z.boolean().optional(), // Include retrieval details in the reply
+});
+
+export type ChatRequestBody = z.infer<typeof chatRequestSchema>;
+
+export const debugChatRequestSchema = chatRequestSchema.pick({ message: true, conversationHistory: true });
+
+// --- /api/models ---
+
+export interface ModelListResponse {
+  models: ChatModelInfo[]; // Registry order
+  defaults: Partial<Record<ChatProviderId, string>>; // Default model id per provider the tier can use
+}
+
+// --- /api/conversations ---
+
+export const conversationListQuerySchema = z.object({
+  q: z.string().max(200).optional(),
+});
+
+export const createConversationSchema = z.object({
+  title: z.string().max(200, 'Title must be at most 200 characters.').optional(),
+  chatMode: chatModeSchema.optional(),
+});
+
+export const updateConversationSchema = z.object({
+  title: nonEmptyString('Title must be a non-empty string.').pipe(z.string().max(200)).optional(),
+  pinned: z.boolean({ invalid_type_error: 'Pinned must be a boolean.' }).optional(),
+}).refine(body => body.title !== undefined || body.pinned !== undefined, {
+  message: 'Nothing to update. Provide a title and/or pinned.',
+});
+
+export interface ConversationListResponse {
+  conversations: ConversationSummary[];
+}
+
+export interface ConversationResponse {
+  conversation: ConversationSummary;
+}
+
+export interface ConversationDetailResponse {
+  conversation: ConversationSummary & { messages: StoredMessage[] };
+}
+
+// --- /api/user-keys ---
+
+export const userKeyQuerySchema = z.object({
+  provider: chatProviderSchema,
+});
+
+export const saveUserKeySchema = z.object({
+  provider: chatProviderSchema,
+  apiKey: nonEmptyString('API Key is required.').pipe(z.string().max(500)),
+  label: z.string().max(100).optional(),
+  // The key's own endpoint, e.g. an OpenAI-compatible server; required for the local provider
+  baseUrl: httpUrlSchema('Base URL is required.').optional(),
+}).refine(body => body.provider !== 'local' || body.baseUrl !== undefined, {
+  message: 'Base URL is required for a local provider.',
+  path: ['baseUrl'],
+});
+
+export interface UserKeyResponse {
+  apiKey: string; // Masked, e.g. "...abcd"
+  baseUrl: string | null;
+}
+
+// --- /api/user/profile ---
+
+export interface UserProfileResponse {
+  profile: Pick<UserProfile, 'user_tier' | 'message_credits' | 'email' | 'first_name' | 'last_name'>;
+}
+
+// --- /api/image/generate ---
+
+export const imageGenerateSchema = z.object({
+  prompt: nonEmptyString('Prompt is required.').pipe(z.string().max(4000, 'Prompt must be at most 4000 characters.')),
+});
+
+export interface ImageGenerateResponse {
+  imageUrl: string;
+  fullResponse: unknown; // The provider's image object
+}
+
+// --- /api/documents/upsert (multipart form) ---
+
+export const documentUploadSchema = z.object({
+  file: z.instanceof(File, { message: 'No file provided.' }), // Type and contents are checked by the route
+});
+
+export interface IngestionJobResponse {
+  message?: string;
+  job: IngestionJobSummary;
+}
+
+// --- /api/documents/jobs ---
+
+export const ingestionJobActionSchema = z.object({
+  action: z.enum(['retry', 'cancel'], {
+    errorMap: () => ({ message: 'action must be "retry" or "cancel".' }),
+  }),
+});
+
+export interface IngestionJobListResponse {
+  jobs: IngestionJobSummary[]; // Newest first
+}
+
+// --- /api/documents/upsert-url ---
+
+export const upsertUrlSchema = z.object({
+  url: httpUrlSchema('URL is required.'),
+});
+
+// --- /api/admin ---
+
+export const approveInviteSchema = z.object({
+  email: z.string({ required_error: 'Email is required.' }).trim().email('A valid email is required.'),
+  firstName: nonEmptyString('First name is required.'),
+  lastName: z.string().trim().optional(),
+});
+
+const KNOWLEDGE_DOCUMENTS_MAX_LIMIT = 100;
+const KNOWLEDGE_DOCUMENTS_LIMIT_MESSAGE = `limit must be an integer between 1 and ${KNOWLEDGE_DOCUMENTS_MAX_LIMIT}.`;
+const OFFSET_MESSAGE = 'offset must be a non-negative integer.';
+
+const pageSchema = {
+  limit: z.coerce.number({ invalid_type_error: KNOWLEDGE_DOCUMENTS_LIMIT_MESSAGE }).int(KNOWLEDGE_DOCUMENTS_LIMIT_MESSAGE)
+    .min(1, KNOWLEDGE_DOCUMENTS_LIMIT_MESSAGE).max(KNOWLEDGE_DOCUMENTS_MAX_LIMIT, KNOWLEDGE_DOCUMENTS_LIMIT_MESSAGE).default(25),
+  offset: z.coerce.number({ invalid_type_error: OFFSET_MESSAGE }).int(OFFSET_MESSAGE).min(0, OFFSET_MESSAGE).default(0),
+};
+
+export const knowledgeDocumentsQuerySchema = z.object({
+  q: z.string().trim().max(200, 'q must be at most 200 characters.').optional(),
+  searchIn: z.enum(['name', 'content'] satisfies [KnowledgeDocumentSearchField, ...KnowledgeDocumentSearchField[]], {
+    errorMap: () => ({ message: 'searchIn must be one of: name, content.' }),
+  }).default('name'),
+  ...pageSchema,
+});
+
+export const knowledgeDocumentChunksQuerySchema = z.object(pageSchema);
+
+export const deleteKnowledgeDocumentsSchema = z.object({
+  ids: z.array(z.string().uuid('ids must be document ids.'), { required_error: 'ids is required.' })
+    .min(1, 'ids must name at least one document.').max(KNOWLEDGE_DOCUMENTS_MAX_LIMIT, `ids can name at most ${KNOWLEDGE_DOCUMENTS_MAX_LIMIT} documents.`),
+});
+
+export interface KnowledgeDocumentListResponse {
+  documents: KnowledgeDocumentListItem[]; // Newest first
+  total: number; // Matching documents across all pages
+  stats: DocumentStats; // For the whole knowledge base
+}
+
+export interface KnowledgeDocumentResponse {
+  document: KnowledgeDocument;
+  chunks: KnowledgeDocumentChunk[]; // Live chunks, in document order
+  totalChunks: number;
+}
+
+export interface KnowledgeDocumentDeleteResponse {
+  deleted: string[]; // Ids of the deleted documents
+}
+
+// Files are re-ingested by a job (from the stored text); URLs are fetched again within the request
+export interface KnowledgeDocumentReingestResponse {
+  message: string;
+  job?: IngestionJobSummary;
+  chunks?: number;
+}
+
+export const documentVersionsQuerySchema = z.object({
+  documentId: z.string({ required_error: 'documentId is required.' }).uuid('documentId must be a UUID.'),
+});
+
+export const documentVersionDiffQuerySchema = z.object({
+  // Version to compare against; defaults to the active version (or the previous one, for the active version)
+  against: z.string().uuid('against must be a version id.').optional(),
+});
+
+export interface DocumentVersionListResponse {
+  document: KnowledgeDocument;
+  versions: DocumentVersion[]; // Newest first
+}
+
+export interface DocumentVersionResponse {
+  version: DocumentVersion;
+}
+
+export interface DocumentVersionDiffResponse {
+  from: DocumentVersion; // The older side of the diff
+  to: DocumentVersion;
+  hunks: DiffHunk[];
+  stats: { added: number; removed: number }; // Changed lines
+}
+
+const CREDIT_LEDGER_MAX_LIMIT = 500;
+const CREDIT_LEDGER_LIMIT_MESSAGE = `limit must be an integer between 1 and ${CREDIT_LEDGER_MAX_LIMIT}.`;
+
+export const creditLedgerQuerySchema = z.object({
+  userId: z.string().uuid('userId must be a UUID.').optional(),
+  type: z.enum(['reserve', 'commit', 'refund'] satisfies [CreditLedgerEntryType, ...CreditLedgerEntryType[]], {
+    errorMap: () => ({ message: 'type must be one of: reserve, commit, refund.' }),
+  }).optional(),
+  before: z.string().datetime({ offset: true, message: 'before must be an ISO timestamp.' }).optional(),
+  limit: z.coerce.number({ invalid_type_error: CREDIT_LEDGER_LIMIT_MESSAGE }).int(CREDIT_LEDGER_LIMIT_MESSAGE)
+    .min(1, CREDIT_LEDGER_LIMIT_MESSAGE).max(CREDIT_LEDGER_MAX_LIMIT, CREDIT_LEDGER_LIMIT_MESSAGE).default(100),
+});
+
+// --- /api/usage ---
+
+const DEFAULT_USAGE_PERIOD_DAYS = 30;
+
+export const usageQuerySchema = z.object({
+  from: z.coerce.date({ errorMap: () => ({ message: 'from must be a valid date.' }) })
+    .default(() => new Date(Date.now() - DEFAULT_USAGE_PERIOD_DAYS * 24 * 60 * 60 * 1000)),
+  to: z.coerce.date({ errorMap: () => ({ message: 'to must be a valid date.' }) }).default(() => new Date()),
+  keySource: z.enum(['internal', 'byok'] satisfies [KeySource, ...KeySource[]], {
+    errorMap: () => ({ message: 'keySource must be one of: internal, byok.' }),
+  }).optional(),
+}).refine(query => query.from < query.to, { message: 'from must be before to.' });
+
+// --- /api/request-invite and /api/set-password (public) ---
+
+export const requestInviteSchema = z.object({
+  firstName: nonEmptyString('First name is required.'),
+  lastName: nonEmptyString('Last name is required.'),
+  email: z.string({ required_error: 'Email is required.' }).trim().toLowerCase().email('A valid email is required.'),
+});
+
+export const setPasswordSchema = z.object({
+  password: z.string({ required_error: 'Password is required.' }).min(1, 'Password is required.'),
+  accessToken: nonEmptyString('Access token is required.'),
+});
+
+export interface MessageResponse {
+  message: string;
+}
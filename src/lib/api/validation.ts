@@ -0,0 +1,43 @@
+import type { z } from 'zod';
+import { InvalidRequestError } from './errors';
+
+/**
+ * Validates a value against a schema. Throws an InvalidRequestError naming the first problem, with
+ * every issue in its details.
+ */
+export function parseWith<T extends z.ZodTypeAny>(schema: T, value: unknown): z.infer<T> {
+  const result = schema.safeParse(value);
+  if (result.success) return result.data;
+
+  const issues = result.error.issues.map(issue => ({ path: issue.path.join('.'), message: issue.message }));
+  throw new InvalidRequestError(describeIssue(result.error.issues[0]), { issues });
+}
+
+// Prefixes the field path unless the message already names the field (e.g. "limit must be ...")
+function describeIssue(issue: z.ZodIssue): string {
+  const field = issue.path[issue.path.length - 1];
+  if (field === undefined || issue.message.toLowerCase().startsWith(String(field).toLowerCase())) {
+    return issue.message;
+  }
+  return `${issue.path.join('.')}: ${issue.message}`;
+}
+
+/**
+ * Reads and validates a JSON request body.
+ */
+export async function parseJsonBody<T extends z.ZodTypeAny>(request: Request, schema: T): Promise<z.infer<T>> {
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    throw new InvalidRequestError('Invalid request body.');
+  }
+  return parseWith(schema, body);
+}
+
+/**
+ * Validates query string parameters. Repeated parameters keep their last value.
+ */
+export function parseSearchParams<T extends z.ZodTypeAny>(params: URLSearchParams, schema: T): z.infer<T> {
+  return parseWith(schema, Object.fromEntries(params.entries()));
+}
@@ -0,0 +1,271 @@
+import { type SupabaseClient } from '@supabase/supabase-js';
+import type { Citation, CitationVerification, ConversationSummary, StoredChannel, StoredMessage, WellnessParts } from '@/types/chat';
+
+// Helpers for the conversations and messages tables. They take the request's Supabase client, so
+// RLS limits every query to the signed-in user's own rows; the user_id filters are kept for clarity.
+
+const CONVERSATION_COLUMNS = 'id, title, chat_mode, pinned, last_message_at, created_at';
+const MESSAGE_COLUMNS = 'id, role, channel, content, parts, citations, verification, created_at';
+
+const MAX_TITLE_LENGTH = 80;
+
+export interface NewMessage {
+  role: StoredMessage['role'];
+  channel?: StoredChannel | null;
+  content: string;
+  parts?: WellnessParts | null;
+  citations?: Citation[] | null;
+  verification?: CitationVerification | null;
+}
+
+/**
+ * Derives a conversation title from its first message.
+ */
+export function titleFromMessage(message: string): string {
+  const singleLine = message.replace(/\s+/g, ' ').trim();
+  if (singleLine.length <= MAX_TITLE_LENGTH) return singleLine || 'New conversation';
+  return `${singleLine.slice(0, MAX_TITLE_LENGTH - 3).trimEnd()}...`;
+}
+
+/**
+ * Lists the user's conversations, pinned first and then by latest activity. With `search`, only
+ * conversations whose title or any message contains the text are returned.
+ */
+export async function listConversations(
+  supabase: SupabaseClient,
+  userId: string,
+  search?: string
+): Promise<ConversationSummary[]> {
+  let query = supabase
+    .from('conversations')
+    .select(CONVERSATION_COLUMNS)
+    .eq('user_id', userId)
+    .order('pinned', { ascending: false })
+    .order('last_message_at', { ascending: false })
+    .limit(100);
+
+  const term = search?.trim();
+  if (term) {
+    // Escape LIKE wildcards and the characters PostgREST uses to separate filters
+    const pattern = `%${term.replace(/[%_\\]/g, '\\$&').replace(/[,()]/g, ' ')}%`;
+    const { data: matches, error: matchError } = await supabase
+      .from('messages')
+      .select('conversation_id')
+      .eq('user_id', userId)
+      .ilike('content', pattern)
+      .limit(500);
+    if (matchError) throw matchError;
+
+    const ids = Array.from(new Set((matches || []).map(match => match.conversation_id as string)));
+    query = ids.length > 0
+      ? query.or(`title.ilike.${pattern},id.in.(${ids.join(',')})`)
+      : query.ilike('title', pattern);
+  }
+
+  const { data, error } = await query;
+  if (error) throw error;
+  return (data || []) as ConversationSummary[];
+}
+
+export async function createConversation(
+  supabase: SupabaseClient,
+  userId: string,
+  fields: { title?: string; chatMode?: ConversationSummary['chat_mode'] } = {}
+): Promise<ConversationSummary> {
+  const { data, error } = await supabase
+    .from('conversations')
+    .insert({
+      user_id: userId,
+      title: fields.title ? titleFromMessage(fields.title) : 'New conversation',
+      chat_mode: fields.chatMode || 'wellness',
+    })
+    .select(CONVERSATION_COLUMNS)
+    .single();
+  if (error) throw error;
+  return data as ConversationSummary;
+}
+
+/**
+ * Returns the conversation (without messages), or null if it does not exist for this user.
+ */
+export async function findConversation(
+  supabase: SupabaseClient,
+  userId: string,
+  conversationId: string
+): Promise<ConversationSummary | null> {
+  const { data, error } = await supabase
+    .from('conversations')
+    .select(CONVERSATION_COLUMNS)
+    .eq('id', conversationId)
+    .eq('user_id', userId)
+    .single();
+  if (error) {
+    if (error.code === 'PGRST116' || error.code === '22P02') return null; // Not found, or not a valid uuid
+    throw error;
+  }
+  return data as ConversationSummary;
+}
+
+/**
+ * Returns the conversation with its messages in order, or null if it does not exist for this user.
+ */
+export async function getConversation(
+  supabase: SupabaseClient,
+  userId: string,
+  conversationId: string
+): Promise<(ConversationSummary & { messages: StoredMessage[] }) | null> {
+  const conversation = await findConversation(supabase, userId, conversationId);
+  if (!conversation) return null;
+
+  const { data: messages, error: messagesError } = await supabase
+    .from('messages')
+    .select(MESSAGE_COLUMNS)
+    .eq('conversation_id', conversationId)
+    .order('created_at', { ascending: true });
+  if (messagesError) throw messagesError;
+
+  return { ...conversation, messages: (messages || []) as StoredMessage[] };
+}
+
+/**
+ * Renames and/or pins a conversation. Returns null if it does not exist for this user.
+ */
+export async function updateConversation(
+  supabase: SupabaseClient,
+  userId: string,
+  conversationId: string,
+  fields: { title?: string; pinned?: boolean }
+): Promise<ConversationSummary | null> {
+  const update: Record<string, unknown> = {};
+  if (fields.title !== undefined) update.title = titleFromMessage(fields.title);
+  if (fields.pinned !== undefined) update.pinned = fields.pinned;
+
+  const { data, error } = await supabase
+    .from('conversations')
+    .update(update)
+    .eq('id', conversationId)
+    .eq('user_id', userId)
+    .select(CONVERSATION_COLUMNS)
+    .single();
+  if (error) {
+    if (error.code === 'PGRST116' || error.code === '22P02') return null;
+    throw error;
+  }
+  return data as ConversationSummary;
+}
+
+/**
+ * Deletes a conversation and its messages. Returns false if it does not exist for this user.
+ */
+export async function deleteConversation(
+  supabase: SupabaseClient,
+  userId: string,
+  conversationId: string
+): Promise<boolean> {
+  const { data, error } = await supabase
+    .from('conversations')
+    .delete()
+    .eq('id', conversationId)
+    .eq('user_id', userId)
+    .select('id');
+  if (error) throw error;
+  return (data || []).length > 0;
+}
+
+export interface ConversationMemory {
+  summary: string | null; // Rolling summary of turns that no longer fit the context window
+  turns: Array<{ role: 'user' | 'assistant'; content: string; created_at: string }>; // Turns after the summary, oldest first
+}
+
+// Messages read per request while loading a conversation's memory (stays under the API's row cap)
+const MEMORY_PAGE_SIZE = 500;
+
+/**
+ * Returns the conversation's rolling summary and every user/assistant turn it does not cover yet.
+ * None of those turns can be skipped: a turn left out here would be neither sent nor summarised.
+ */
+export async function getConversationMemory(
+  supabase: SupabaseClient,
+  conversationId: string
+): Promise<ConversationMemory> {
+  const { data: conversation, error: conversationError } = await supabase
+    .from('conversations')
+    .select('summary, summarized_through')
+    .eq('id', conversationId)
+    .single();
+  if (conversationError) throw conversationError;
+
+  const turns: ConversationMemory['turns'] = [];
+  for (let offset = 0; ; offset += MEMORY_PAGE_SIZE) {
+    let query = supabase
+      .from('messages')
+      .select('role, content, created_at')
+      .eq('conversation_id', conversationId)
+      .in('role', ['user', 'assistant']);
+    if (conversation.summarized_through) {
+      query = query.gt('created_at', conversation.summarized_through);
+    }
+    const { data, error } = await query
+      .order('created_at', { ascending: true })
+      .order('id', { ascending: true })
+      .range(offset, offset + MEMORY_PAGE_SIZE - 1);
+    if (error) throw error;
+    turns.push(...((data || []) as ConversationMemory['turns']));
+    if (!data || data.length < MEMORY_PAGE_SIZE) break;
+  }
+  return { summary: conversation.summary ?? null, turns };
+}
+
+/**
+ * Stores a new rolling summary covering every turn up to and including `summarizedThrough`.
+ */
+export async function saveConversationSummary(
+  supabase: SupabaseClient,
+  userId: string,
+  conversationId: string,
+  summary: string,
+  summarizedThrough: string
+): Promise<void> {
+  const { error } = await supabase
+    .from('conversations')
+    .update({ summary, summarized_through: summarizedThrough })
+    .eq('id', conversationId)
+    .eq('user_id', userId);
+  if (error) throw error;
+}
+
+/**
+ * Appends messages to a conversation and bumps its last activity time.
+ */
+export async function appendMessages(
+  supabase: SupabaseClient,
+  userId: string,
+  conversationId: string,
+  messages: NewMessage[]
+): Promise<void> {
+  if (messages.length === 0) return;
+
+  // Spread the timestamps by a millisecond so messages saved together keep their order
+  const now = Date.now();
+  const { error } = await supabase
+    .from('messages')
+    .insert(messages.map((message, i) => ({
+      conversation_id: conversationId,
+      user_id: userId,
+      role: message.role,
+      channel: message.channel ?? null,
+      content: message.content,
+      parts: message.parts ?? null,
+      citations: message.citations ?? null,
+      verification: message.verification ?? null,
+      created_at: new Date(now + i).toISOString(),
+    })));
+  if (error) throw error;
+
+  const { error: touchError } = await supabase
+    .from('conversations')
+    .update({ last_message_at: new Date(now + messages.length).toISOString() })
+    .eq('id', conversationId)
+    .eq('user_id', userId);
+  if (touchError) throw touchError;
+}
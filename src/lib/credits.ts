@@ -0,0 +1,103 @@
+import { createClient, type SupabaseClient } from '@supabase/supabase-js';
+
+// free_trial message credits. A credit is reserved before the provider call and then committed
+// (kept) or refunded; the RPCs record every change in credit_ledger. Reserving and settling use the
+// service role key: the RPCs are not open to users, who could otherwise refund their own credits.
+
+export type CreditLedgerEntryType = 'reserve' | 'commit' | 'refund';
+
+export interface CreditLedgerEntry {
+  id: string;
+  user_id: string;
+  reservation_id: string;
+  entry_type: CreditLedgerEntryType;
+  delta: number;
+  balance_after: number;
+  details: Record<string, unknown>;
+  created_at: string;
+}
+
+let serviceClient: SupabaseClient | null = null;
+
+function getCreditsClient(): SupabaseClient {
+  if (!serviceClient) {
+    if (!process.env.NEXT_PUBLIC_SUPABASE_URL || !process.env.SUPABASE_SERVICE_ROLE_KEY) {
+      throw new Error('Message credits need NEXT_PUBLIC_SUPABASE_URL and SUPABASE_SERVICE_ROLE_KEY.');
+    }
+    serviceClient = createClient(process.env.NEXT_PUBLIC_SUPABASE_URL, process.env.SUPABASE_SERVICE_ROLE_KEY);
+  }
+  return serviceClient;
+}
+
+/**
+ * Atomically takes one credit from the user. Returns the reservation id, or null when they have no
+ * credits left.
+ */
+export async function reserveMessageCredit(
+  userId: string,
+  details: Record<string, unknown> = {}
+): Promise<string | null> {
+  const { data, error } = await getCreditsClient().rpc('reserve_message_credit', { p_user_id: userId, p_details: details });
+  if (error) throw error;
+  return (data as string | null) ?? null;
+}
+
+async function settleMessageCredit(
+  userId: string,
+  reservationId: string,
+  outcome: 'commit' | 'refund',
+  details: Record<string, unknown>
+): Promise<boolean> {
+  const { data, error } = await getCreditsClient().rpc('settle_message_credit', {
+    p_user_id: userId,
+    p_reservation_id: reservationId,
+    p_outcome: outcome,
+    p_details: details,
+  });
+  if (error) throw error;
+  return data === true;
+}
+
+/**
+ * Keeps a reserved credit spent. Returns false if the reservation was already settled.
+ */
+export function commitMessageCredit(
+  userId: string,
+  reservationId: string,
+  details: Record<string, unknown> = {}
+): Promise<boolean> {
+  return settleMessageCredit(userId, reservationId, 'commit', details);
+}
+
+/**
+ * Returns a reserved credit to the user. Returns false if the reservation was already settled.
+ */
+export function refundMessageCredit(
+  userId: string,
+  reservationId: string,
+  details: Record<string, unknown> = {}
+): Promise<boolean> {
+  return settleMessageCredit(userId, reservationId, 'refund', details);
+}
+
+/**
+ * Lists ledger entries, newest first. RLS returns every user's entries to admins and only their own
+ * to everyone else.
+ */
+export async function listCreditLedger(
+  supabase: SupabaseClient,
+  filters: { userId?: string; entryType?: CreditLedgerEntryType; before?: string; limit?: number } = {}
+): Promise<CreditLedgerEntry[]> {
+  let query = supabase
+    .from('credit_ledger')
+    .select('id, user_id, reservation_id, entry_type, delta, balance_after, details, created_at')
+    .order('created_at', { ascending: false })
+    .limit(filters.limit ?? 100);
+  if (filters.userId) query = query.eq('user_id', filters.userId);
+  if (filters.entryType) query = query.eq('entry_type', filters.entryType);
+  if (filters.before) query = query.lt('created_at', filters.before);
+
+  const { data, error } = await query;
+  if (error) throw error;
+  return (data || []) as CreditLedgerEntry[];
+}
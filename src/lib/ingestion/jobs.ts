@@ -0,0 +1,271 @@
+import { createClient, type SupabaseClient } from '@supabase/supabase-js';
+import { getVersionsToKeep, type DocumentVersion } from '@/lib/vector/documentVersions';
+import type { IngestionJobStatus, IngestionJobSummary, IngestionStage, IngestionStageProgress } from '@/types/ingestion';
+
+// Helpers for the ingestion_jobs table and the 'ingestion-uploads' bucket. Jobs are written by the
+// upload routes and the worker, so they use the service role key; routes check the user is an admin.
+
+export const INGESTION_UPLOADS_BUCKET = 'ingestion-uploads';
+
+export const INGESTION_STAGES: IngestionStage[] = ['parse', 'chunk', 'embed', 'insert'];
+
+// Share of the progress bar each stage fills; embedding dominates the running time
+const STAGE_WEIGHTS: Record<IngestionStage, number> = { parse: 0.1, chunk: 0.05, embed: 0.75, insert: 0.1 };
+
+export interface IngestionChunk {
+  text: string;
+  metadata: Record<string, unknown>;
+}
+
+export interface IngestionJobRow {
+  id: string;
+  created_by: string | null;
+  file_name: string;
+  mime_type: string;
+  file_size: number | null;
+  storage_path: string | null;
+  status: IngestionJobStatus;
+  stage: IngestionStage | 'done';
+  extracted_text: string | null;
+  page_count: number | null;
+  chunks: IngestionChunk[] | null;
+  chunks_total: number | null;
+  chunks_embedded: number;
+  chunks_inserted: number;
+  version_id: string | null; // The document version the insert stage is building
+  attempts: number;
+  error: string | null;
+  locked_until: string | null;
+  created_at: string;
+  updated_at: string;
+  started_at: string | null;
+  finished_at: string | null;
+}
+
+// Everything but the stage outputs, which can be large
+const SUMMARY_COLUMNS = 'id, created_by, file_name, mime_type, file_size, storage_path, status, stage, page_count, chunks_total, chunks_embedded, chunks_inserted, attempts, error, locked_until, created_at, updated_at, started_at, finished_at';
+
+type IngestionJobListing = Omit<IngestionJobRow, 'extracted_text' | 'chunks' | 'version_id'>;
+
+let serviceClient: SupabaseClient | null = null;
+
+export function getIngestionClient(): SupabaseClient {
+  if (!serviceClient) {
+    if (!process.env.NEXT_PUBLIC_SUPABASE_URL || !process.env.SUPABASE_SERVICE_ROLE_KEY) {
+      throw new Error('Document ingestion needs NEXT_PUBLIC_SUPABASE_URL and SUPABASE_SERVICE_ROLE_KEY.');
+    }
+    serviceClient = createClient(process.env.NEXT_PUBLIC_SUPABASE_URL, process.env.SUPABASE_SERVICE_ROLE_KEY);
+  }
+  return serviceClient;
+}
+
+/**
+ * Stores an uploaded file and queues a job to ingest it.
+ */
+export async function createIngestionJob(file: File, createdBy: string): Promise<IngestionJobListing> {
+  const supabase = getIngestionClient();
+  const id = crypto.randomUUID();
+  const storagePath = `${id}/${file.name.replace(/[^\w.-]+/g, '_')}`;
+
+  const { error: uploadError } = await supabase.storage
+    .from(INGESTION_UPLOADS_BUCKET)
+    .upload(storagePath, Buffer.from(await file.arrayBuffer()), { contentType: file.type });
+  if (uploadError) throw uploadError;
+
+  const { data, error } = await supabase
+    .from('ingestion_jobs')
+    .insert({
+      id,
+      created_by: createdBy,
+      file_name: file.name,
+      mime_type: file.type,
+      file_size: file.size,
+      storage_path: storagePath,
+      attempts: 1,
+    })
+    .select(SUMMARY_COLUMNS)
+    .single();
+  if (error) {
+    await supabase.storage.from(INGESTION_UPLOADS_BUCKET).remove([storagePath]);
+    throw error;
+  }
+  return data as IngestionJobListing;
+}
+
+/**
+ * Queues a job that ingests text that was already extracted, such as a stored version of a document
+ * being re-ingested. It starts at the chunk stage.
+ */
+export async function createTextIngestionJob(
+  fileName: string,
+  text: string,
+  pageCount: number | null,
+  createdBy: string
+): Promise<IngestionJobListing> {
+  const { data, error } = await getIngestionClient()
+    .from('ingestion_jobs')
+    .insert({
+      created_by: createdBy,
+      file_name: fileName,
+      mime_type: 'text/plain',
+      extracted_text: text,
+      page_count: pageCount,
+      stage: 'chunk',
+      attempts: 1,
+    })
+    .select(SUMMARY_COLUMNS)
+    .single();
+  if (error) throw error;
+  return data as IngestionJobListing;
+}
+
+export async function getIngestionJob(id: string): Promise<IngestionJobListing | null> {
+  const { data, error } = await getIngestionClient()
+    .from('ingestion_jobs')
+    .select(SUMMARY_COLUMNS)
+    .eq('id', id)
+    .maybeSingle();
+  if (error) throw error;
+  return data as IngestionJobListing | null;
+}
+
+/**
+ * The most recent jobs, newest first.
+ */
+export async function listIngestionJobs(limit = 20): Promise<IngestionJobListing[]> {
+  const { data, error } = await getIngestionClient()
+    .from('ingestion_jobs')
+    .select(SUMMARY_COLUMNS)
+    .order('created_at', { ascending: false })
+    .limit(limit);
+  if (error) throw error;
+  return (data || []) as IngestionJobListing[];
+}
+
+/**
+ * Cancels a queued or running job. A running worker notices at its next step and stops, and the
+ * version a cancelled job was building is never activated. Returns the updated job, or null if the
+ * job had already finished.
+ */
+export async function cancelIngestionJob(id: string): Promise<IngestionJobListing | null> {
+  const now = new Date().toISOString();
+  const { data, error } = await getIngestionClient()
+    .from('ingestion_jobs')
+    .update({ status: 'cancelled', locked_until: null, finished_at: now, updated_at: now })
+    .eq('id', id)
+    .in('status', ['queued', 'running'])
+    .select(SUMMARY_COLUMNS)
+    .maybeSingle();
+  if (error) throw error;
+  return data as IngestionJobListing | null;
+}
+
+/**
+ * Queues a failed or cancelled job again. It resumes at the stage it stopped in; finished stages are
+ * not repeated. Returns the updated job, or null if the job was not failed or cancelled.
+ */
+export async function retryIngestionJob(id: string, attempts: number): Promise<IngestionJobListing | null> {
+  const { data, error } = await getIngestionClient()
+    .from('ingestion_jobs')
+    .update({ status: 'queued', error: null, finished_at: null, attempts: attempts + 1, updated_at: new Date().toISOString() })
+    .eq('id', id)
+    .in('status', ['failed', 'cancelled'])
+    .select(SUMMARY_COLUMNS)
+    .maybeSingle();
+  if (error) throw error;
+  return data as IngestionJobListing | null;
+}
+
+/**
+ * Claims a job for the calling worker (see claim_ingestion_job): the given one, or the oldest job
+ * waiting. Returns null when there is nothing to claim.
+ */
+export async function claimIngestionJob(jobId: string | null, leaseSeconds: number): Promise<IngestionJobRow | null> {
+  const { data, error } = await getIngestionClient().rpc('claim_ingestion_job', {
+    p_job_id: jobId,
+    p_lease_seconds: leaseSeconds,
+  });
+  if (error) throw error;
+  const rows = (data || []) as IngestionJobRow[];
+  return rows[0] ?? null;
+}
+
+/**
+ * Saves a running job's progress and renews its lease. Returns false if the job is no longer running
+ * (cancelled, or claimed by another worker after the lease ran out), in which case the worker stops.
+ */
+export async function updateRunningJob(
+  job: Pick<IngestionJobRow, 'id' | 'locked_until'>,
+  changes: Partial<IngestionJobRow>,
+  leaseSeconds: number
+): Promise<{ updated: boolean; lockedUntil: string | null }> {
+  const lockedUntil = changes.status && changes.status !== 'running'
+    ? null
+    : new Date(Date.now() + leaseSeconds * 1000).toISOString();
+  let query = getIngestionClient()
+    .from('ingestion_jobs')
+    .update({ ...changes, locked_until: lockedUntil, updated_at: new Date().toISOString() })
+    .eq('id', job.id)
+    .eq('status', 'running');
+  // Another worker that claimed the job after our lease expired holds a different lease
+  query = job.locked_until === null ? query.is('locked_until', null) : query.eq('locked_until', job.locked_until);
+  const { data, error } = await query.select('id');
+  if (error) throw error;
+  return { updated: (data || []).length > 0, lockedUntil };
+}
+
+/**
+ * Activates the version the job built (see activate_ingestion_job_version). Refused, with an error,
+ * if the job was cancelled or claimed by another worker, so a cancelled job never goes live.
+ */
+export async function activateJobVersion(job: Pick<IngestionJobRow, 'id' | 'locked_until'>): Promise<DocumentVersion> {
+  const { data, error } = await getIngestionClient().rpc('activate_ingestion_job_version', {
+    p_job_id: job.id,
+    p_locked_until: job.locked_until,
+    p_keep: getVersionsToKeep(),
+  });
+  if (error) throw error;
+  return data as DocumentVersion;
+}
+
+/**
+ * Per-stage and overall progress for the status endpoint and the settings page.
+ */
+export function toIngestionJobSummary(job: IngestionJobListing): IngestionJobSummary {
+  const currentIndex = job.stage === 'done' ? INGESTION_STAGES.length : INGESTION_STAGES.indexOf(job.stage);
+  const total = job.chunks_total ?? undefined;
+
+  const stages = INGESTION_STAGES.map((stage, index): IngestionStageProgress => {
+    let status: IngestionStageProgress['status'] = 'pending';
+    if (index < currentIndex) status = 'done';
+    else if (index === currentIndex) {
+      if (job.status === 'running') status = 'running';
+      else if (job.status === 'failed') status = 'failed';
+      else if (job.status === 'cancelled') status = 'cancelled';
+    }
+    if (stage === 'embed') return { stage, status, completed: job.chunks_embedded, total };
+    if (stage === 'insert') return { stage, status, completed: job.chunks_inserted, total };
+    return { stage, status };
+  });
+
+  const progress = stages.reduce((sum, stage) => {
+    if (stage.status === 'done') return sum + STAGE_WEIGHTS[stage.stage];
+    if (stage.total) return sum + STAGE_WEIGHTS[stage.stage] * Math.min(1, (stage.completed ?? 0) / stage.total);
+    return sum;
+  }, 0);
+
+  return {
+    id: job.id,
+    fileName: job.file_name,
+    status: job.status,
+    stage: job.stage,
+    stages,
+    progress: job.status === 'succeeded' ? 1 : Math.min(1, progress),
+    chunks: job.chunks_total,
+    attempts: job.attempts,
+    error: job.error,
+    createdAt: job.created_at,
+    updatedAt: job.updated_at,
+    finishedAt: job.finished_at,
+  };
+}
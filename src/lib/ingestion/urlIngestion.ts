@@ -0,0 +1,46 @@
+import { getDocumentChunks } from '@/lib/textProcessing/chunking';
+import type { FetchedContent } from '@/lib/urlFetcher';
+import type { UsageContext } from '@/lib/usage';
+import { upsertDocumentChunks } from '@/lib/vector/supabaseVectorClient';
+
+/**
+ * Chunks and stores the content fetched from a URL as a new version of the URL's document. URL
+ * pages are small enough to ingest within the request, so this does not go through an ingestion job.
+ * Returns the number of chunks stored, 0 if the content was empty after chunking.
+ */
+export async function ingestFetchedUrl(
+  url: string,
+  content: FetchedContent,
+  uploadedBy: string,
+  usage: UsageContext
+): Promise<number> {
+  // Use the same chunking defaults as file uploads
+  const chunks = await getDocumentChunks(content.text);
+  console.log(`[URL_INGESTION] Content of ${url} chunked into ${chunks.length} pieces.`);
+  if (chunks.length === 0) return 0;
+
+  // The title and URL are stored on the knowledge document; chunks keep the fetch details
+  const fetchedAt = new Date().toISOString();
+  const documentChunks = chunks.map(chunk => ({
+    text: chunk.pageContent,
+    metadata: {
+      ...chunk.metadata,
+      content_type: content.contentType,
+      fetched_at: fetchedAt,
+      ...(content.metadata || {}),
+    },
+  }));
+  const pages = content.metadata?.pages;
+
+  // The URL identifies the document, so adding it again stores a new version even if its title changed
+  await upsertDocumentChunks(documentChunks, {
+    fileName: url,
+    title: content.title,
+    sourceType: 'url',
+    sourceUrl: url,
+    pageCount: typeof pages === 'number' ? pages : null,
+    originalText: content.text,
+    uploadedBy,
+  }, usage);
+  return documentChunks.length;
+}
@@ -0,0 +1,182 @@
+import { generateEmbeddings, getCachedEmbeddingsForTexts } from '@/lib/ai/embeddingUtils';
+import { extractFileText } from '@/lib/textProcessing/extractText';
+import { getDocumentChunks } from '@/lib/textProcessing/chunking';
+import { insertVersionChunks, startDocumentVersion } from '@/lib/vector/supabaseVectorClient';
+import type { UsageContext } from '@/lib/usage';
+import {
+  activateJobVersion,
+  claimIngestionJob,
+  getIngestionClient,
+  INGESTION_UPLOADS_BUCKET,
+  updateRunningJob,
+  type IngestionJobRow,
+} from './jobs';
+
+// Ingestion worker: runs a job's stages one step at a time (parse -> chunk -> embed -> insert),
+// saving each step's output on the job row. A step is short (the embed stage handles EMBED_STEP_SIZE
+// chunks per step, the insert stage INSERT_STEP_SIZE), so a worker stops cleanly when its time budget
+// runs out and the next one resumes.
+
+const EMBED_STEP_SIZE = 200;
+const INSERT_STEP_SIZE = 500;
+const LEASE_SECONDS = 120; // Longer than any single step
+const DEFAULT_TIME_BUDGET_MS = 50_000;
+
+export interface ProcessOptions {
+  jobId?: string; // Only this job; otherwise the oldest waiting jobs
+  timeBudgetMs?: number; // No new step is started after this
+}
+
+/**
+ * Runs waiting jobs until there are none left or the time budget is spent. Jobs left unfinished are
+ * queued again for the next worker. Returns the number of steps run.
+ */
+export async function processIngestionJobs(options: ProcessOptions = {}): Promise<number> {
+  const deadline = Date.now() + (options.timeBudgetMs ?? DEFAULT_TIME_BUDGET_MS);
+  let steps = 0;
+
+  while (Date.now() < deadline) {
+    const job = await claimIngestionJob(options.jobId ?? null, LEASE_SECONDS);
+    if (!job) break;
+    console.log(`[INGESTION] Claimed job ${job.id} (${job.file_name}) at stage ${job.stage}.`);
+
+    steps += await runJob(job, deadline);
+    if (options.jobId) break;
+  }
+  return steps;
+}
+
+async function runJob(claimed: IngestionJobRow, deadline: number): Promise<number> {
+  let job = claimed;
+  let steps = 0;
+
+  while (job.status === 'running' && Date.now() < deadline) {
+    let changes: Partial<IngestionJobRow>;
+    try {
+      changes = await runStep(job);
+    } catch (error: unknown) {
+      const message = error instanceof Error ? error.message : String(error);
+      console.error(`[INGESTION] Job ${job.id} failed at stage ${job.stage}:`, message);
+      changes = { status: 'failed', error: message, finished_at: new Date().toISOString() };
+    }
+    steps++;
+
+    const { updated, lockedUntil } = await updateRunningJob(job, changes, LEASE_SECONDS);
+    if (!updated) {
+      console.log(`[INGESTION] Job ${job.id} was cancelled or taken over; stopping.`);
+      return steps;
+    }
+    job = { ...job, ...changes, locked_until: lockedUntil };
+  }
+
+  if (job.status === 'running') {
+    // Out of time: hand the job back so the next worker picks it up without waiting for the lease
+    await updateRunningJob(job, { status: 'queued' }, LEASE_SECONDS);
+    console.log(`[INGESTION] Job ${job.id} paused at stage ${job.stage}; queued to resume.`);
+  }
+  return steps;
+}
+
+/**
+ * Runs the job's next step and returns the changes to save.
+ */
+async function runStep(job: IngestionJobRow): Promise<Partial<IngestionJobRow>> {
+  const usage: UsageContext = {
+    userId: job.created_by,
+    userTier: 'admin',
+    keySource: 'internal',
+    mode: 'ingest',
+  };
+
+  switch (job.stage) {
+    case 'parse': {
+      if (!job.storage_path) throw new Error('The uploaded file is missing.');
+      const { data, error } = await getIngestionClient().storage.from(INGESTION_UPLOADS_BUCKET).download(job.storage_path);
+      if (error || !data) throw error ?? new Error('The uploaded file could not be read.');
+
+      const { text, pageCount } = await extractFileText(Buffer.from(await data.arrayBuffer()), job.mime_type);
+      console.log(`[INGESTION] Job ${job.id}: extracted ${text.trim().length} characters.`);
+      if (!text || text.trim() === '') throw new Error('Extracted content is empty. Cannot process file.');
+      return { extracted_text: text, page_count: pageCount, stage: 'chunk' };
+    }
+
+    case 'chunk': {
+      // Use improved chunking defaults: 1500 chars with 400 char overlap for better context preservation
+      const chunks = (await getDocumentChunks(job.extracted_text ?? '')).map(chunk => ({
+        text: chunk.pageContent,
+        metadata: chunk.metadata,
+      }));
+      console.log(`[INGESTION] Job ${job.id}: chunked into ${chunks.length} pieces.`);
+      if (chunks.length === 0) throw new Error('File content is empty after chunking or could not be chunked.');
+      return { chunks, chunks_total: chunks.length, chunks_embedded: 0, stage: 'embed' };
+    }
+
+    case 'embed': {
+      // Embeddings land in the embedding cache; the insert stage reads them back from there
+      const chunks = job.chunks ?? [];
+      const end = Math.min(chunks.length, job.chunks_embedded + EMBED_STEP_SIZE);
+      await generateEmbeddings(chunks.slice(job.chunks_embedded, end).map(chunk => chunk.text), { ...usage, purpose: 'ingest' });
+      console.log(`[INGESTION] Job ${job.id}: embedded ${end} of ${chunks.length} chunks.`);
+      return end < chunks.length ? { chunks_embedded: end } : { chunks_embedded: end, stage: 'insert' };
+    }
+
+    case 'insert': {
+      if (!job.created_by) throw new Error('The user who uploaded the file no longer exists.');
+      const chunks = job.chunks ?? [];
+
+      // First step (or the version was deleted since): start the version this job writes into
+      if (!job.version_id) {
+        const version = await startDocumentVersion({
+          fileName: job.file_name,
+          sourceType: 'file',
+          pageCount: job.page_count,
+          originalText: job.extracted_text ?? '',
+          uploadedBy: job.created_by,
+        });
+        return { version_id: version.id, chunks_inserted: 0 };
+      }
+
+      if (job.chunks_inserted < chunks.length) {
+        // The embed stage left the vectors in the embedding cache; they are read back, never regenerated here
+        const end = Math.min(chunks.length, job.chunks_inserted + INSERT_STEP_SIZE);
+        const batch = chunks.slice(job.chunks_inserted, end);
+        const embeddings = await getCachedEmbeddingsForTexts(batch.map(chunk => chunk.text));
+        const missing = embeddings.filter(embedding => !embedding).length;
+        if (missing > 0) {
+          // Retrying starts over at the embed stage, which only embeds what is no longer cached
+          const message = `${missing} of ${batch.length} chunk embeddings are missing from the embedding cache. Retry the job to embed them again.`;
+          console.error(`[INGESTION] Job ${job.id}: ${message}`);
+          return { status: 'failed', error: message, stage: 'embed', chunks_embedded: 0, finished_at: new Date().toISOString() };
+        }
+
+        await insertVersionChunks(
+          job.version_id,
+          batch.map((chunk, i) => ({ ...chunk, embedding: embeddings[i]! })),
+          job.created_by,
+          job.chunks_inserted
+        );
+        console.log(`[INGESTION] Job ${job.id}: inserted ${end} of ${chunks.length} chunks.`);
+        return { chunks_inserted: end };
+      }
+
+      // Refused if the job was cancelled meanwhile, so its version never goes live
+      const active = await activateJobVersion(job);
+      console.log(`[INGESTION] Job ${job.id}: version ${active.version} of ${job.file_name} is live.`);
+
+      if (job.storage_path) {
+        const { error } = await getIngestionClient().storage.from(INGESTION_UPLOADS_BUCKET).remove([job.storage_path]);
+        if (error) console.error(`[INGESTION] Job ${job.id}: failed to remove the uploaded file:`, error.message);
+      }
+      return {
+        status: 'succeeded',
+        stage: 'done',
+        chunks: null,
+        storage_path: null,
+        finished_at: new Date().toISOString(),
+      };
+    }
+
+    default:
+      throw new Error(`Job is at unexpected stage ${job.stage}.`);
+  }
+}
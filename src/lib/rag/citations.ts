@@ -0,0 +1,57 @@
+import type { QueryResult } from '@/lib/vector/supabaseVectorClient';
+import type { Citation } from '@/types/chat';
+
+// Matches [n] and [n, m] citation markers, but not markdown link text like [label](url)
+export const CITATION_MARKER_PATTERN = /\[(\d+(?:\s*,\s*\d+)*)\](?!\()/g;
+
+/**
+ * Builds the structured citation for a retrieved chunk. `index` is the 1-based number
+ * the model uses to reference the chunk with an inline [index] marker.
+ */
+export function toCitation(result: QueryResult, index: number): Citation {
+  const metadata = result.metadata || {};
+  const rawPage = metadata.page_number;
+  const pageNumber = rawPage === undefined || rawPage === null || rawPage === '' ? NaN : Number(rawPage);
+
+  return {
+    index,
+    document_id: result.document_id ?? null,
+    file_name: result.file_name || 'Unknown Source',
+    title: result.title || result.file_name || 'Unknown Source',
+    page_number: Number.isFinite(pageNumber) ? pageNumber : null,
+    chunk_id: String(result.id),
+    source_url: result.source_url ?? null,
+    score: typeof result.score === 'number' ? result.score : 0,
+    chunk_text: result.chunk_text || '',
+  };
+}
+
+/**
+ * Formats citations into the numbered document context handed to Process B.
+ */
+export function formatCitedContext(citations: Citation[]): string {
+  return citations
+    .map(citation => {
+      let contextChunk = `[${citation.index}] Source: ${citation.title || citation.file_name}\n`;
+      if (citation.page_number !== null) {
+        contextChunk += `Page: ${citation.page_number}\n`;
+      }
+      contextChunk += `Content:\n${citation.chunk_text}`;
+      return contextChunk;
+    })
+    .join('\n\n---\n\n');
+}
+
+/**
+ * Returns the citation numbers referenced by [n] or [n, m] markers in an answer, in order of first use.
+ */
+export function extractCitationMarkers(text: string): number[] {
+  const markers: number[] = [];
+  for (const match of text.matchAll(CITATION_MARKER_PATTERN)) {
+    for (const part of match[1].split(',')) {
+      const index = Number(part.trim());
+      if (!markers.includes(index)) markers.push(index);
+    }
+  }
+  return markers;
+}
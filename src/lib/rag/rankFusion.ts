@@ -0,0 +1,32 @@
+// Reciprocal rank fusion (RRF): merges several ranked lists into one ranking.
+// Each item scores sum(1 / (k + rank)) over the lists it appears in, so items ranked well by several
+// retrievers rise to the top without having to calibrate their raw scores against each other.
+
+// Standard constant from the original RRF paper; dampens the advantage of the very top ranks
+export const RRF_K = 60;
+
+export interface FusedItem<T> {
+  item: T;
+  score: number;
+}
+
+/**
+ * Fuses ranked lists (best first) into a single list ordered by RRF score.
+ * Items are matched across lists by `getId`; the first occurrence is the one kept.
+ */
+export function reciprocalRankFusion<T>(
+  rankings: T[][],
+  getId: (item: T) => string,
+  k: number = RRF_K
+): FusedItem<T>[] {
+  const fused = new Map<string, FusedItem<T>>();
+  for (const ranking of rankings) {
+    ranking.forEach((item, index) => {
+      const id = getId(item);
+      const entry = fused.get(id) ?? { item, score: 0 };
+      entry.score += 1 / (k + index + 1);
+      fused.set(id, entry);
+    });
+  }
+  return Array.from(fused.values()).sort((a, b) => b.score - a.score);
+}
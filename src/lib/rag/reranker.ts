@@ -0,0 +1,62 @@
+// Reranking stage between hybrid retrieval and context selection.
+// A reranker reorders the candidate pool by relevance to the query; the diversity selection then
+// walks the candidates in that order. Implementations live in ./rerankers.
+
+import type { ChatProvider } from '@/lib/ai/chatProvider';
+import type { QueryResult } from '@/lib/vector/supabaseVectorClient';
+import { createLexicalReranker } from './rerankers/lexical';
+import { createLLMReranker } from './rerankers/llm';
+
+export type RerankerId = 'none' | 'lexical' | 'llm';
+
+export const RERANKER_IDS: RerankerId[] = ['none', 'lexical', 'llm'];
+
+export interface Reranker {
+  readonly id: RerankerId;
+  /**
+   * Returns the candidates reordered by relevance (best first), with `rerankScore` set.
+   * `signal` is the request's; rerankers that call a model stop when it aborts.
+   */
+  rerank(query: string, candidates: QueryResult[], signal?: AbortSignal): Promise<QueryResult[]>;
+}
+
+export interface RerankerOptions {
+  // The LLM reranker calls the user's chat provider and model
+  chatProvider: ChatProvider;
+  model: string;
+}
+
+export function isRerankerId(value: unknown): value is RerankerId {
+  return typeof value === 'string' && (RERANKER_IDS as string[]).includes(value);
+}
+
+/**
+ * Keeps the retrieval order unchanged.
+ */
+function createPassthroughReranker(): Reranker {
+  return {
+    id: 'none',
+    async rerank(_query, candidates) {
+      return candidates;
+    },
+  };
+}
+
+/**
+ * Creates the reranker configured for this deployment via RAG_RERANKER ('none' | 'lexical' | 'llm').
+ * Unset or unknown values fall back to 'none', which keeps the hybrid retrieval order.
+ */
+export function createReranker(id: string | undefined, options: RerankerOptions): Reranker {
+  const rerankerId = isRerankerId(id) ? id : 'none';
+  if (id && rerankerId !== id) {
+    console.warn(`Reranker: unknown RAG_RERANKER "${id}", reranking disabled.`);
+  }
+  switch (rerankerId) {
+    case 'lexical':
+      return createLexicalReranker();
+    case 'llm':
+      return createLLMReranker(options.chatProvider, options.model);
+    case 'none':
+      return createPassthroughReranker();
+  }
+}
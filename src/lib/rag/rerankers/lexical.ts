@@ -0,0 +1,67 @@
+import type { QueryResult } from '@/lib/vector/supabaseVectorClient';
+import type { Reranker } from '../reranker';
+import { keyTerms } from '../text';
+
+// BM25 parameters (the usual defaults)
+const BM25_K1 = 1.2;
+const BM25_B = 0.75;
+
+// How the final score blends the signals. Retrieval similarity keeps a small say so that
+// a chunk with no lexical overlap but a strong embedding match is not buried.
+const TERM_WEIGHT = 0.6;
+const PHRASE_WEIGHT = 0.25;
+const SIMILARITY_WEIGHT = 0.15;
+
+function bigrams(terms: string[]): string[] {
+  return terms.slice(1).map((term, i) => `${terms[i]} ${term}`);
+}
+
+/**
+ * Local reranker that scores each (query, chunk) pair jointly, cross-encoder style, without a model:
+ * BM25 over the candidate pool for term relevance, the share of the query's adjacent term pairs that
+ * also appear adjacent in the chunk for phrase matches, and the chunk's retrieval similarity.
+ */
+export function createLexicalReranker(): Reranker {
+  return {
+    id: 'lexical',
+
+    async rerank(query, candidates) {
+      const queryTerms = Array.from(new Set(keyTerms(query)));
+      if (queryTerms.length === 0 || candidates.length === 0) return candidates;
+
+      const queryBigrams = bigrams(keyTerms(query));
+      const documents = candidates.map(candidate => keyTerms(candidate.chunk_text || ''));
+      const averageLength = documents.reduce((total, terms) => total + terms.length, 0) / documents.length || 1;
+
+      // Inverse document frequency of each query term within the candidate pool
+      const idf = new Map(queryTerms.map(term => {
+        const containing = documents.filter(terms => terms.includes(term)).length;
+        return [term, Math.log(1 + (documents.length - containing + 0.5) / (containing + 0.5))];
+      }));
+
+      const bm25Scores = documents.map(terms => {
+        const frequencies = new Map<string, number>();
+        for (const term of terms) frequencies.set(term, (frequencies.get(term) || 0) + 1);
+        return queryTerms.reduce((score, term) => {
+          const frequency = frequencies.get(term) || 0;
+          if (frequency === 0) return score;
+          const lengthNorm = 1 - BM25_B + BM25_B * (terms.length / averageLength);
+          return score + idf.get(term)! * (frequency * (BM25_K1 + 1)) / (frequency + BM25_K1 * lengthNorm);
+        }, 0);
+      });
+      const maxBm25 = Math.max(...bm25Scores) || 1;
+
+      const scored: QueryResult[] = candidates.map((candidate, i) => {
+        const chunkBigrams = new Set(bigrams(documents[i]));
+        const phraseScore = queryBigrams.length > 0
+          ? queryBigrams.filter(bigram => chunkBigrams.has(bigram)).length / queryBigrams.length
+          : 0;
+        const similarity = typeof candidate.score === 'number' ? candidate.score : 0;
+        const rerankScore = TERM_WEIGHT * (bm25Scores[i] / maxBm25) + PHRASE_WEIGHT * phraseScore + SIMILARITY_WEIGHT * similarity;
+        return { ...candidate, rerankScore };
+      });
+
+      return scored.sort((a, b) => b.rerankScore! - a.rerankScore!);
+    },
+  };
+}
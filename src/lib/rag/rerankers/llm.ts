@@ -0,0 +1,56 @@
+import type { ChatProvider } from '@/lib/ai/chatProvider';
+import { RERANK_SYSTEM_PROMPT, buildRerankUserPrompt } from '@/lib/ai/prompts';
+import type { Reranker } from '../reranker';
+
+// Only the head of the pool is sent to the model; the rest keep their retrieval order after it
+const MAX_LLM_CANDIDATES = 30;
+// Passages are truncated to keep the prompt (and cost) bounded
+const MAX_PASSAGE_CHARS = 800;
+const RERANK_TIMEOUT_MS = 15_000;
+
+/**
+ * Reranker that asks the user's chat model to order the top candidates by usefulness for the question.
+ * Candidates the model leaves out follow the ones it ranked, in retrieval order. If the call fails or
+ * times out, the retrieval order is kept so the chat still gets context.
+ */
+export function createLLMReranker(chatProvider: ChatProvider, model: string): Reranker {
+  return {
+    id: 'llm',
+
+    async rerank(query, candidates, signal) {
+      const head = candidates.slice(0, MAX_LLM_CANDIDATES);
+      if (head.length < 2) return candidates;
+
+      try {
+        const completion = await chatProvider.complete({
+          model,
+          system: RERANK_SYSTEM_PROMPT,
+          messages: [{
+            role: 'user',
+            content: buildRerankUserPrompt(query, head.map(candidate => (candidate.chunk_text || '').slice(0, MAX_PASSAGE_CHARS))),
+          }],
+          maxTokens: 200,
+          purpose: 'rerank',
+          signal: signal ? AbortSignal.any([signal, AbortSignal.timeout(RERANK_TIMEOUT_MS)]) : AbortSignal.timeout(RERANK_TIMEOUT_MS),
+        });
+
+        const ranked: number[] = [];
+        for (const match of completion.text.matchAll(/\d+/g)) {
+          const position = Number(match[0]) - 1;
+          if (position >= 0 && position < head.length && !ranked.includes(position)) ranked.push(position);
+        }
+        if (ranked.length === 0) {
+          console.warn('LLM reranker: no passage numbers in the response, keeping retrieval order.');
+          return candidates;
+        }
+
+        const order = [...ranked, ...head.map((_, i) => i).filter(i => !ranked.includes(i))];
+        const reranked = order.map((position, rank) => ({ ...head[position], rerankScore: 1 - rank / order.length }));
+        return [...reranked, ...candidates.slice(MAX_LLM_CANDIDATES)];
+      } catch (error) {
+        console.warn('LLM reranker: rerank failed, keeping retrieval order.', error instanceof Error ? error.message : error);
+        return candidates;
+      }
+    },
+  };
+}
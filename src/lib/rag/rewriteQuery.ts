@@ -0,0 +1,76 @@
+import type { ChatProvider, ChatTurn } from '@/lib/ai/chatProvider';
+import { QUERY_REWRITE_SYSTEM_PROMPT, buildQueryRewriteUserPrompt } from '@/lib/ai/prompts';
+
+// Only the most recent turns are needed to resolve a follow-up
+const MAX_HISTORY_TURNS = 6;
+// Long assistant answers are cut down; the gist is enough to resolve references
+const MAX_TURN_CHARS = 600;
+const REWRITE_TIMEOUT_MS = 10_000;
+
+export interface QueryRewrite {
+  original: string;
+  standalone: string; // Search query for the latest turn, resolved against the conversation
+  subQueries: string[]; // Extra queries from expansion; their results are fused with the standalone query's
+}
+
+export interface RewriteQueryOptions {
+  chatProvider: ChatProvider;
+  model: string;
+  history: ChatTurn[];
+  message: string;
+  subQueryCount?: number; // 0 (default) disables expansion
+  signal?: AbortSignal; // The request's signal, so the call stops when the client goes away
+}
+
+function formatConversation(history: ChatTurn[]): string {
+  return history
+    .slice(-MAX_HISTORY_TURNS)
+    .map(turn => {
+      const content = turn.content.length > MAX_TURN_CHARS ? `${turn.content.slice(0, MAX_TURN_CHARS)}...` : turn.content;
+      return `${turn.role === 'user' ? 'User' : 'Assistant'}: ${content}`;
+    })
+    .join('\n');
+}
+
+// Drops list markers, quotes and labels the model sometimes adds around a query line
+function cleanQueryLine(line: string): string {
+  return line
+    .replace(/^\s*(?:[-*•]|\d+[.)])\s*/, '')
+    .replace(/^(?:standalone query|query|sub-?query)\s*\d*\s*:\s*/i, '')
+    .replace(/^["“']|["”']$/g, '')
+    .trim();
+}
+
+/**
+ * Condenses the latest turn into a standalone search query using the conversation history and,
+ * when `subQueryCount` > 0, expands it into sub-queries. Without history or expansion the message is
+ * used as-is with no model call. Any failure falls back to the original message.
+ */
+export async function rewriteQuery(options: RewriteQueryOptions): Promise<QueryRewrite> {
+  const { chatProvider, model, history, message, subQueryCount = 0, signal } = options;
+  const unchanged: QueryRewrite = { original: message, standalone: message, subQueries: [] };
+  if (history.length === 0 && subQueryCount === 0) return unchanged;
+
+  try {
+    const completion = await chatProvider.complete({
+      model,
+      system: QUERY_REWRITE_SYSTEM_PROMPT,
+      messages: [{ role: 'user', content: buildQueryRewriteUserPrompt(formatConversation(history), message, subQueryCount) }],
+      maxTokens: 200,
+      purpose: 'query_rewrite',
+      signal: signal ? AbortSignal.any([signal, AbortSignal.timeout(REWRITE_TIMEOUT_MS)]) : AbortSignal.timeout(REWRITE_TIMEOUT_MS),
+    });
+
+    const lines = completion.text.split('\n').map(cleanQueryLine).filter(Boolean);
+    if (lines.length === 0) return unchanged;
+
+    const [standalone, ...rest] = lines;
+    const subQueries = Array.from(new Set(rest))
+      .filter(query => query.toLowerCase() !== standalone.toLowerCase())
+      .slice(0, subQueryCount);
+    return { original: message, standalone, subQueries };
+  } catch (error) {
+    console.warn('Query rewrite: failed, using the original message.', error instanceof Error ? error.message : error);
+    return unchanged;
+  }
+}
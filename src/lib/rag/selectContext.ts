@@ -0,0 +1,191 @@
+// Chooses which retrieved chunks go into the Process B context.
+// Pure function over the ranked candidate pool (best first), so ranking changes can be checked
+// with synthetic QueryResult fixtures and no live Supabase.
+
+import { estimateTokens } from '@/lib/ai/chatProvider';
+import type { QueryResult } from '@/lib/vector/supabaseVectorClient';
+import { keyTerms } from './text';
+
+export type ContextStrategy = 'diversity' | 'mmr';
+
+export const CONTEXT_STRATEGIES: ContextStrategy[] = ['diversity', 'mmr'];
+
+// Per-document chunk cap for the diversity strategy, chosen by the document's best similarity score
+export interface DocumentCapTier {
+  minScore: number; // Applies when the document's max score is above this
+  maxChunks: number;
+}
+
+// Very relevant documents may contribute up to 5 chunks, weak matches just 1
+export const DEFAULT_DOCUMENT_CAPS: DocumentCapTier[] = [
+  { minScore: 0.75, maxChunks: 5 },
+  { minScore: 0.65, maxChunks: 4 },
+  { minScore: 0.55, maxChunks: 3 },
+  { minScore: 0.45, maxChunks: 2 },
+];
+
+// Each chunk is wrapped in a "[n] Source: ... Page: ... Content:" header in the prompt
+const CHUNK_OVERHEAD_TOKENS = 20;
+
+export interface SelectContextOptions {
+  strategy?: ContextStrategy; // Defaults to 'diversity'
+  tokenBudget?: number; // Upper bound on the selected chunks' tokens (including headers)
+  maxChunks?: number; // Optional hard cap on the number of chunks
+  documentCaps?: DocumentCapTier[]; // Diversity strategy only
+  mmrLambda?: number; // MMR only: 1 = pure relevance, 0 = pure novelty. Defaults to 0.7
+  countTokens?: (text: string) => number; // Defaults to the ~4 characters per token estimate
+}
+
+export interface DocumentSelectionSummary {
+  fileName: string;
+  available: number; // Candidate chunks from this document
+  selected: number;
+  maxScore: number;
+}
+
+export interface ContextSelection {
+  results: QueryResult[]; // Selected chunks in candidate rank order
+  totalTokens: number;
+  documents: DocumentSelectionSummary[]; // One entry per document in the pool, in rank order
+}
+
+export const DEFAULT_CONTEXT_TOKEN_BUDGET = 6_000;
+const DEFAULT_MMR_LAMBDA = 0.7;
+
+function scoreOf(result: QueryResult): number {
+  return typeof result.score === 'number' ? result.score : 0;
+}
+
+function fileNameOf(result: QueryResult): string {
+  return result.file_name || 'Unknown';
+}
+
+export function isContextStrategy(value: unknown): value is ContextStrategy {
+  return typeof value === 'string' && (CONTEXT_STRATEGIES as string[]).includes(value);
+}
+
+/**
+ * Returns the chunk cap for a document from its best similarity score.
+ */
+export function getMaxChunksForDocument(maxScore: number, caps: DocumentCapTier[] = DEFAULT_DOCUMENT_CAPS): number {
+  const tier = caps.find(cap => maxScore > cap.minScore);
+  return tier ? tier.maxChunks : 1;
+}
+
+/**
+ * Jaccard similarity of two chunks' key-term sets, used by MMR as the redundancy measure.
+ */
+export function termSimilarity(a: Set<string>, b: Set<string>): number {
+  if (a.size === 0 && b.size === 0) return 0;
+  let shared = 0;
+  for (const term of a) if (b.has(term)) shared++;
+  return shared / (a.size + b.size - shared);
+}
+
+// Score-aware document diversity, as retrieveRAGContext did it before it was extracted: documents in
+// the order of their best-ranked chunk, each contributing its top chunks (in rank order) up to its cap
+// before the next document is considered. So when maxChunks or the budget runs out, the top documents
+// are covered fully rather than every document getting its first chunk. (The original second pass,
+// topping documents up to their cap, could never add a chunk and is not repeated.)
+function selectByDiversity(
+  candidates: QueryResult[],
+  caps: DocumentCapTier[],
+  fits: (result: QueryResult) => boolean
+): QueryResult[] {
+  const documentChunks = new Map<string, QueryResult[]>();
+  for (const candidate of candidates) {
+    const fileName = fileNameOf(candidate);
+    documentChunks.set(fileName, [...(documentChunks.get(fileName) ?? []), candidate]);
+  }
+
+  const selected: QueryResult[] = [];
+  for (const chunks of documentChunks.values()) {
+    const maxScore = Math.max(...chunks.map(scoreOf));
+    let count = 0;
+    for (const chunk of chunks) {
+      if (count >= getMaxChunksForDocument(maxScore, caps)) break;
+      if (!fits(chunk)) continue;
+      selected.push(chunk);
+      count++;
+    }
+  }
+  return selected;
+}
+
+// Maximal marginal relevance: repeatedly take the candidate with the best trade-off between
+// relevance (its rank in the pool) and novelty (dissimilarity to the chunks already chosen).
+function selectByMMR(
+  candidates: QueryResult[],
+  lambda: number,
+  fits: (result: QueryResult) => boolean
+): QueryResult[] {
+  const terms = candidates.map(candidate => new Set(keyTerms(candidate.chunk_text || '')));
+  const relevance = candidates.map((_, i) => 1 - i / candidates.length);
+  const remaining = candidates.map((_, i) => i);
+  const chosen: number[] = [];
+
+  while (remaining.length > 0) {
+    let best = -1;
+    let bestScore = -Infinity;
+    for (const i of remaining) {
+      const redundancy = chosen.reduce((max, j) => Math.max(max, termSimilarity(terms[i], terms[j])), 0);
+      const score = lambda * relevance[i] - (1 - lambda) * redundancy;
+      if (score > bestScore) {
+        best = i;
+        bestScore = score;
+      }
+    }
+    remaining.splice(remaining.indexOf(best), 1);
+    if (fits(candidates[best])) chosen.push(best);
+  }
+  return chosen.map(i => candidates[i]);
+}
+
+/**
+ * Selects the context chunks from a ranked candidate pool within a token budget.
+ * - 'diversity' caps how many chunks each document contributes based on its best similarity score
+ * - 'mmr' trades relevance against redundancy between the chosen chunks
+ * Candidates too large for the remaining budget are skipped in favour of smaller ones further down.
+ */
+export function selectContext(candidates: QueryResult[], options: SelectContextOptions = {}): ContextSelection {
+  const {
+    strategy = 'diversity',
+    tokenBudget = DEFAULT_CONTEXT_TOKEN_BUDGET,
+    maxChunks = Infinity,
+    documentCaps = DEFAULT_DOCUMENT_CAPS,
+    mmrLambda = DEFAULT_MMR_LAMBDA,
+    countTokens = estimateTokens,
+  } = options;
+
+  const usable = candidates.filter(candidate => candidate.chunk_text);
+  let totalTokens = 0;
+  let selectedCount = 0;
+  const fits = (result: QueryResult): boolean => {
+    if (selectedCount >= maxChunks) return false;
+    const tokens = countTokens(result.chunk_text || '') + CHUNK_OVERHEAD_TOKENS;
+    if (totalTokens + tokens > tokenBudget) return false;
+    totalTokens += tokens;
+    selectedCount++;
+    return true;
+  };
+
+  const picked = strategy === 'mmr'
+    ? selectByMMR(usable, mmrLambda, fits)
+    : selectByDiversity(usable, documentCaps, fits);
+
+  // Keep the candidate rank order in the final context
+  const pickedIds = new Set(picked.map(result => result.id));
+  const results = usable.filter(candidate => pickedIds.has(candidate.id));
+
+  const documents = new Map<string, DocumentSelectionSummary>();
+  for (const candidate of candidates) {
+    const fileName = fileNameOf(candidate);
+    const summary = documents.get(fileName) ?? { fileName, available: 0, selected: 0, maxScore: 0 };
+    summary.available++;
+    summary.maxScore = Math.max(summary.maxScore, scoreOf(candidate));
+    if (pickedIds.has(candidate.id)) summary.selected++;
+    documents.set(fileName, summary);
+  }
+
+  return { results, totalTokens, documents: Array.from(documents.values()) };
+}
@@ -0,0 +1,36 @@
+// Lightweight text normalization shared by the lexical parts of the RAG pipeline
+// (citation verification, lexical reranking, context selection).
+
+const STOPWORDS = new Set([
+  'the', 'and', 'for', 'are', 'but', 'not', 'you', 'all', 'any', 'can', 'had', 'her', 'was', 'one', 'our', 'out',
+  'has', 'have', 'his', 'how', 'its', 'may', 'who', 'did', 'yet', 'also', 'than', 'that', 'this', 'with', 'from',
+  'they', 'them', 'their', 'there', 'these', 'those', 'were', 'what', 'when', 'where', 'which', 'while', 'will',
+  'would', 'could', 'should', 'been', 'being', 'into', 'onto', 'over', 'such', 'some', 'more', 'most', 'very',
+  'about', 'after', 'before', 'during', 'between', 'other', 'each', 'both', 'only', 'same', 'your', 'does', 'why',
+]);
+
+/**
+ * Lowercases text and reduces it to letters, digits and apostrophes separated by single spaces.
+ */
+export function normalize(text: string): string {
+  return text
+    .toLowerCase()
+    .replace(/[‘’]/g, "'")
+    .replace(/[^a-z0-9'\s]/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+export function tokenize(text: string): string[] {
+  const normalized = normalize(text);
+  return normalized ? normalized.split(' ') : [];
+}
+
+/**
+ * Key terms of a text: numbers plus non-stopwords, with plurals and possessives folded.
+ */
+export function keyTerms(text: string): string[] {
+  return tokenize(text)
+    .filter(token => /\d/.test(token) || (token.length > 2 && !STOPWORDS.has(token)))
+    .map(token => token.replace(/'s$/, '').replace(/ies$/, 'y').replace(/(?<!s)s$/, ''));
+}
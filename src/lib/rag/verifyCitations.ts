@@ -0,0 +1,213 @@
+import type { ChatProvider } from '@/lib/ai/chatProvider';
+import { CITATION_JUDGE_SYSTEM_PROMPT, buildCitationJudgeUserPrompt } from '@/lib/ai/prompts';
+import type { Citation, CitationVerification, SentenceVerification } from '@/types/chat';
+import { CITATION_MARKER_PATTERN, extractCitationMarkers } from './citations';
+import { keyTerms, tokenize } from './text';
+
+// Share of a claim's key terms that must appear in the cited chunks for the string check to accept it
+const CLAIM_OVERLAP_THRESHOLD = 0.6;
+// Share of a quote's words that must appear in order in a cited chunk (tolerates punctuation and small edits)
+const QUOTE_MATCH_THRESHOLD = 0.85;
+// Shorter quoted spans are usually terms or scare quotes rather than quoted passages
+const MIN_QUOTE_WORDS = 3;
+// Upper bound on judge calls per answer
+const MAX_JUDGE_CALLS = 8;
+
+// Attribution words the model adds around a claim ("the document suggests...") that the source won't contain
+const ATTRIBUTION_WORDS = new Set([
+  'according', 'document', 'documents', 'source', 'sources', 'states', 'state', 'suggests', 'suggest', 'notes',
+  'note', 'indicates', 'indicate', 'mentions', 'mention', 'highlights', 'highlight', 'research', 'shows', 'show',
+]);
+
+/** Decides whether the source texts state or entail the claim. */
+export type ClaimJudge = (claim: string, sources: string[]) => Promise<boolean>;
+
+export interface VerifyCitationsOptions {
+  judge?: ClaimJudge; // Optional second pass for cited claims the string checks could not confirm
+}
+
+interface SentenceCheck {
+  result: SentenceVerification;
+  sources: string[];
+  judgeable: boolean; // Only low-overlap claims go to the judge; misquotes and unknown citations stay flagged
+}
+
+function claimTerms(text: string): string[] {
+  return keyTerms(text).filter(term => !ATTRIBUTION_WORDS.has(term));
+}
+
+function stripMarkers(sentence: string): string {
+  return sentence.replace(CITATION_MARKER_PATTERN, '').replace(/\s+([.,;:!?])/g, '$1').trim();
+}
+
+/**
+ * Splits an answer into sentences. Markdown list and heading prefixes are dropped, and citation markers
+ * written after the full stop ("... birthday. [2]") stay with the sentence they follow.
+ */
+export function splitSentences(text: string): string[] {
+  const sentences: string[] = [];
+  for (const line of text.split(/\n+/)) {
+    const trimmed = line.replace(/^\s*(?:[-*+]|\d+\.|#+)\s+/, '').trim();
+    if (!trimmed) continue;
+
+    const parts = trimmed.split(/(?<=[.!?]["”’)]?)\s+(?=["“'(\[]?[A-Z0-9[])/);
+    const lineSentences: string[] = [];
+    for (const part of parts) {
+      const markerOnly = part.replace(CITATION_MARKER_PATTERN, '').replace(/[\s.]/g, '') === '';
+      if (markerOnly && lineSentences.length > 0) {
+        lineSentences[lineSentences.length - 1] += ` ${part}`;
+      } else {
+        lineSentences.push(part);
+      }
+    }
+    sentences.push(...lineSentences);
+  }
+  return sentences;
+}
+
+// Length of the longest common subsequence of two token lists
+function lcsLength(a: string[], b: string[]): number {
+  let previous = new Array<number>(b.length + 1).fill(0);
+  for (const tokenA of a) {
+    const current = new Array<number>(b.length + 1).fill(0);
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = tokenA === b[j - 1] ? previous[j - 1] + 1 : Math.max(previous[j], current[j - 1]);
+    }
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+/**
+ * Scores how well a quote appears in a chunk: 1 for an exact (normalized) match, otherwise the best share
+ * of the quote's words found in order within a window of the chunk.
+ */
+export function quoteMatchScore(quote: string, chunkText: string): number {
+  const quoteTokens = tokenize(quote);
+  const chunkTokens = tokenize(chunkText);
+  if (quoteTokens.length === 0) return 1;
+  if (` ${chunkTokens.join(' ')} `.includes(` ${quoteTokens.join(' ')} `)) return 1;
+
+  // Allow a few inserted words in the window so a quote with small omissions still lines up
+  const windowSize = quoteTokens.length + 3;
+  let best = 0;
+  for (let start = 0; start < Math.max(1, chunkTokens.length - quoteTokens.length + 1); start++) {
+    const window = chunkTokens.slice(start, start + windowSize);
+    best = Math.max(best, lcsLength(quoteTokens, window) / quoteTokens.length);
+    if (best === 1) break;
+  }
+  return best;
+}
+
+function extractQuotes(sentence: string): string[] {
+  const quotes: string[] = [];
+  for (const match of sentence.matchAll(/["“]([^"“”]+)["”]/g)) {
+    if (tokenize(match[1]).length >= MIN_QUOTE_WORDS) quotes.push(match[1]);
+  }
+  return quotes;
+}
+
+function checkSentence(sentence: string, citationsByIndex: Map<number, Citation>): SentenceCheck {
+  const cited = extractCitationMarkers(sentence);
+  const result: SentenceVerification = { sentence, citations: cited, status: 'uncited', method: null };
+  if (cited.length === 0) {
+    return { result, sources: [], judgeable: false };
+  }
+
+  const unknown = cited.filter(index => !citationsByIndex.has(index));
+  if (unknown.length > 0) {
+    result.status = 'unsupported';
+    result.reason = `Cites ${unknown.map(index => `[${index}]`).join('')}, which is not one of the retrieved sources.`;
+    return { result, sources: [], judgeable: false };
+  }
+
+  const sources = cited.map(index => citationsByIndex.get(index)!.chunk_text);
+  const claim = stripMarkers(sentence);
+
+  // 1. Quoted spans must appear in one of the cited chunks
+  const quotes = extractQuotes(claim);
+  for (const quote of quotes) {
+    const score = Math.max(...sources.map(source => quoteMatchScore(quote, source)));
+    if (score < QUOTE_MATCH_THRESHOLD) {
+      result.status = 'unsupported';
+      result.method = 'quote';
+      result.reason = `Quoted text "${quote}" was not found in the cited source.`;
+      return { result, sources, judgeable: false };
+    }
+  }
+  if (quotes.length > 0) {
+    result.status = 'supported';
+    result.method = 'quote';
+    return { result, sources, judgeable: false };
+  }
+
+  // 2. Otherwise most of the claim's key terms must appear in the cited chunks
+  const terms = claimTerms(claim);
+  const sourceTerms = new Set(sources.flatMap(keyTerms));
+  const coverage = terms.length > 0 ? terms.filter(term => sourceTerms.has(term)).length / terms.length : 1;
+  result.method = 'overlap';
+  if (coverage >= CLAIM_OVERLAP_THRESHOLD) {
+    result.status = 'supported';
+    return { result, sources, judgeable: false };
+  }
+  result.status = 'unsupported';
+  result.reason = `Only ${Math.round(coverage * 100)}% of the claim's key terms appear in the cited source.`;
+  return { result, sources, judgeable: true };
+}
+
+/**
+ * Checks each cited sentence of a Process B answer against the chunks it cites. Quotes are matched
+ * exactly or fuzzily, other claims by key-term overlap; claims that fail the overlap check are passed
+ * to the judge, when one is given, before being flagged as unsupported.
+ */
+export async function verifyCitations(
+  answer: string,
+  citations: Citation[],
+  options: VerifyCitationsOptions = {}
+): Promise<CitationVerification> {
+  const citationsByIndex = new Map(citations.map(citation => [citation.index, citation]));
+  const checks = splitSentences(answer).map(sentence => checkSentence(sentence, citationsByIndex));
+
+  const { judge } = options;
+  if (judge) {
+    const toJudge = checks.filter(check => check.judgeable).slice(0, MAX_JUDGE_CALLS);
+    await Promise.all(toJudge.map(async ({ result, sources }) => {
+      try {
+        const supported = await judge(stripMarkers(result.sentence), sources);
+        result.method = 'judge';
+        if (supported) {
+          result.status = 'supported';
+          delete result.reason;
+        } else {
+          result.reason = 'The cited source does not support this claim.';
+        }
+      } catch (judgeError: unknown) {
+        // Keep the string-check verdict if the judge is unavailable
+        console.warn('Citation verification: judge call failed.', judgeError instanceof Error ? judgeError.message : judgeError);
+      }
+    }));
+  }
+
+  const sentences = checks.map(check => check.result);
+  return {
+    sentences,
+    unsupportedCount: sentences.filter(sentence => sentence.status === 'unsupported').length,
+  };
+}
+
+/**
+ * Creates a judge that asks the chat model whether the cited excerpts support a claim.
+ */
+export function createLLMClaimJudge(provider: ChatProvider, model: string, signal?: AbortSignal): ClaimJudge {
+  return async (claim, sources) => {
+    const completion = await provider.complete({
+      model,
+      system: CITATION_JUDGE_SYSTEM_PROMPT,
+      messages: [{ role: 'user', content: buildCitationJudgeUserPrompt(claim, sources) }],
+      maxTokens: 5,
+      purpose: 'citation_judge',
+      signal,
+    });
+    return completion.text.trim().toUpperCase().startsWith('SUPPORTED');
+  };
+}
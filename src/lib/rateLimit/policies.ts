@@ -0,0 +1,47 @@
+// Rate limit policies per route scope and user tier.
+// 'requests' rules count every request; 'tokens' rules count the LLM tokens a user's requests consumed
+// and block new requests once the window's budget is spent.
+
+export type RateLimitScope = 'chat' | 'image' | 'document_upload' | 'invite_request';
+
+// User tiers, plus 'anonymous' for public routes (keyed by client IP)
+export type RateLimitTier = 'free_trial' | 'byok' | 'vip_tester' | 'admin' | 'anonymous';
+
+export interface RateLimitRule {
+  unit: 'requests' | 'tokens';
+  limit: number;
+  windowSeconds: number;
+}
+
+export type RateLimitPolicies = Record<RateLimitScope, Partial<Record<RateLimitTier, RateLimitRule[]>>>;
+
+const MINUTE = 60;
+const HOUR = 60 * MINUTE;
+const DAY = 24 * HOUR;
+
+const perMinute = (limit: number): RateLimitRule => ({ unit: 'requests', limit, windowSeconds: MINUTE });
+const tokensPerDay = (limit: number): RateLimitRule => ({ unit: 'tokens', limit, windowSeconds: DAY });
+
+// Tiers on our internal keys (free_trial, vip_tester, admin) get daily token budgets; byok users pay
+// for their own tokens, so only their request rate is limited. A tier without rules in a scope is not
+// limited there; routes that only serve some tiers (e.g. admin uploads) reject the others first.
+export const DEFAULT_RATE_LIMIT_POLICIES: RateLimitPolicies = {
+  chat: {
+    free_trial: [perMinute(10), tokensPerDay(150_000)],
+    byok: [perMinute(30)],
+    vip_tester: [perMinute(20), tokensPerDay(500_000)],
+    admin: [perMinute(60), tokensPerDay(2_000_000)],
+  },
+  image: {
+    free_trial: [perMinute(3)],
+    byok: [perMinute(5)],
+    vip_tester: [perMinute(5)],
+    admin: [perMinute(10)],
+  },
+  document_upload: {
+    admin: [perMinute(20)],
+  },
+  invite_request: {
+    anonymous: [{ unit: 'requests', limit: 5, windowSeconds: HOUR }],
+  },
+};
@@ -0,0 +1,126 @@
+// Fixed-window rate limiter with per-tier policies (see ./policies).
+// Counters live in Postgres so limits hold across server instances; the in-memory store is used for
+// tests and local development (RATE_LIMIT_STORE=memory) and when the service role key is missing.
+
+import { createClient } from '@supabase/supabase-js';
+import type { NextResponse } from 'next/server';
+import { errorResponse, RateLimitedError } from '@/lib/api/errors';
+import { DEFAULT_RATE_LIMIT_POLICIES, type RateLimitPolicies, type RateLimitRule, type RateLimitScope, type RateLimitTier } from './policies';
+import { createMemoryStore } from './stores/memory';
+import { createPostgresStore } from './stores/postgres';
+
+export interface RateLimitStore {
+  readonly id: 'postgres' | 'memory';
+  /** Adds `amount` (0 to just read) to the key's current window; returns the total and the window end (ms). */
+  hit(key: string, windowSeconds: number, amount: number): Promise<{ count: number; resetAt: number }>;
+}
+
+// Who is being limited: a user id with their tier, or a client IP with the 'anonymous' tier
+export interface RateLimitSubject {
+  id: string;
+  tier: RateLimitTier;
+}
+
+export interface RateLimitResult {
+  allowed: boolean;
+  retryAfterSeconds: number; // 0 when allowed
+  rule?: RateLimitRule; // The rule that was exceeded
+}
+
+export interface RateLimiter {
+  /** Counts the request against the subject's request rules and checks their token budgets. */
+  check(scope: RateLimitScope, subject: RateLimitSubject): Promise<RateLimitResult>;
+  /** Adds tokens consumed by a request to the subject's token budgets. */
+  consumeTokens(scope: RateLimitScope, subject: RateLimitSubject, tokens: number): Promise<void>;
+}
+
+const ALLOWED: RateLimitResult = { allowed: true, retryAfterSeconds: 0 };
+
+function counterKey(scope: RateLimitScope, rule: RateLimitRule, subject: RateLimitSubject): string {
+  return `${scope}:${rule.unit}:${rule.windowSeconds}:${subject.id}`;
+}
+
+/**
+ * Creates a rate limiter over a counter store. If the store fails, requests are let through (and the
+ * error logged) rather than taking the routes down with it.
+ */
+export function createRateLimiter(
+  store: RateLimitStore,
+  policies: RateLimitPolicies = DEFAULT_RATE_LIMIT_POLICIES,
+  now: () => number = Date.now
+): RateLimiter {
+  const rulesFor = (scope: RateLimitScope, tier: RateLimitTier) => policies[scope][tier] ?? [];
+
+  return {
+    async check(scope, subject) {
+      try {
+        for (const rule of rulesFor(scope, subject.tier)) {
+          // Requests count themselves; token budgets are only read here and charged after the call
+          const { count, resetAt } = await store.hit(counterKey(scope, rule, subject), rule.windowSeconds, rule.unit === 'requests' ? 1 : 0);
+          const exceeded = rule.unit === 'requests' ? count > rule.limit : count >= rule.limit;
+          if (exceeded) {
+            return { allowed: false, retryAfterSeconds: Math.max(1, Math.ceil((resetAt - now()) / 1000)), rule };
+          }
+        }
+        return ALLOWED;
+      } catch (error: unknown) {
+        console.error(`Rate limit: ${store.id} store failed, allowing the request:`, error instanceof Error ? error.message : error);
+        return ALLOWED;
+      }
+    },
+
+    async consumeTokens(scope, subject, tokens) {
+      if (tokens <= 0) return;
+      try {
+        for (const rule of rulesFor(scope, subject.tier).filter(rule => rule.unit === 'tokens')) {
+          await store.hit(counterKey(scope, rule, subject), rule.windowSeconds, Math.round(tokens));
+        }
+      } catch (error: unknown) {
+        console.error(`Rate limit: ${store.id} store failed to record token usage:`, error instanceof Error ? error.message : error);
+      }
+    },
+  };
+}
+
+function createDefaultStore(): RateLimitStore {
+  const url = process.env.NEXT_PUBLIC_SUPABASE_URL;
+  const serviceRoleKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
+  if (process.env.RATE_LIMIT_STORE === 'memory' || !url || !serviceRoleKey) {
+    return createMemoryStore();
+  }
+  return createPostgresStore(createClient(url, serviceRoleKey));
+}
+
+// Shared limiter used by the API routes
+export const rateLimiter = createRateLimiter(createDefaultStore());
+
+function describeWindow(seconds: number): string {
+  if (seconds % 86_400 === 0) return seconds === 86_400 ? 'day' : `${seconds / 86_400} days`;
+  if (seconds % 3_600 === 0) return seconds === 3_600 ? 'hour' : `${seconds / 3_600} hours`;
+  if (seconds % 60 === 0) return seconds === 60 ? 'minute' : `${seconds / 60} minutes`;
+  return `${seconds} seconds`;
+}
+
+/**
+ * 429 response for a rejected request, with Retry-After and the limit that was hit.
+ */
+export function rateLimitExceededResponse(result: RateLimitResult): NextResponse {
+  const rule = result.rule;
+  const message = rule
+    ? `Rate limit exceeded: ${rule.limit.toLocaleString('en-US')} ${rule.unit} per ${describeWindow(rule.windowSeconds)}. Please try again in ${result.retryAfterSeconds} seconds.`
+    : 'Rate limit exceeded. Please try again later.';
+  const response = errorResponse(new RateLimitedError(message, result.retryAfterSeconds));
+  if (rule) response.headers.set('X-RateLimit-Limit', String(rule.limit));
+  return response;
+}
+
+/**
+ * Client IP for limiting anonymous routes, as seen by our own proxy. The first X-Forwarded-For entry
+ * is whatever the client sent, so it is never used: X-Real-IP (set by Vercel and most reverse proxies)
+ * comes first, then the last X-Forwarded-For hop, which the nearest proxy appended.
+ */
+export function getClientIp(headers: Headers): string {
+  const realIp = headers.get('x-real-ip')?.trim();
+  if (realIp) return realIp;
+  return headers.get('x-forwarded-for')?.split(',').map(hop => hop.trim()).filter(Boolean).at(-1) || 'unknown';
+}
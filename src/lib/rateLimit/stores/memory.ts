@@ -0,0 +1,30 @@
+import type { RateLimitStore } from '../rateLimiter';
+
+/**
+ * Keeps counters in process memory. Used for tests and local development (RATE_LIMIT_STORE=memory),
+ * and when Postgres is not configured; limits are then per server instance.
+ */
+export function createMemoryStore(now: () => number = Date.now): RateLimitStore {
+  const windows = new Map<string, { windowStart: number; windowMs: number; count: number }>();
+
+  return {
+    id: 'memory',
+
+    async hit(key, windowSeconds, amount) {
+      const windowMs = windowSeconds * 1000;
+      const windowStart = Math.floor(now() / windowMs) * windowMs;
+      const current = windows.get(key);
+      const entry = current && current.windowStart === windowStart ? current : { windowStart, windowMs, count: 0 };
+      entry.count += amount;
+      windows.set(key, entry);
+
+      // Drop expired windows now and then so the map does not grow without bound
+      if (windows.size > 10_000) {
+        for (const [otherKey, other] of windows) {
+          if (other.windowStart + other.windowMs <= now()) windows.delete(otherKey);
+        }
+      }
+      return { count: entry.count, resetAt: windowStart + windowMs };
+    },
+  };
+}
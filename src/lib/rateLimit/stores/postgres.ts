@@ -0,0 +1,24 @@
+import { type SupabaseClient } from '@supabase/supabase-js';
+import type { RateLimitStore } from '../rateLimiter';
+
+/**
+ * Keeps counters in the rate_limit_counters table via the rate_limit_hit RPC, so limits hold across
+ * server instances. Needs a service role client.
+ */
+export function createPostgresStore(supabase: SupabaseClient): RateLimitStore {
+  return {
+    id: 'postgres',
+
+    async hit(key, windowSeconds, amount) {
+      const { data, error } = await supabase.rpc('rate_limit_hit', {
+        p_key: key,
+        p_window_seconds: windowSeconds,
+        p_amount: amount,
+      });
+      if (error) throw error;
+      const row = (Array.isArray(data) ? data[0] : data) as { count: number | string; reset_at: string } | undefined;
+      if (!row) throw new Error('rate_limit_hit returned no row.');
+      return { count: Number(row.count), resetAt: new Date(row.reset_at).getTime() };
+    },
+  };
+}
@@ -0,0 +1,110 @@
+// Server-Sent Events helpers shared by streaming API routes and the client pages that consume them.
+
+import type { ApiErrorBody } from '@/lib/api/errorCodes';
+
+export type SSESend = (event: string, data: unknown) => void;
+
+/**
+ * Formats a single SSE frame. Data is always JSON-encoded so multi-line text survives intact.
+ */
+export function encodeSSE(event: string, data: unknown): string {
+  return `event: ${event}\ndata: ${JSON.stringify(data)}\n\n`;
+}
+
+/**
+ * Creates a streaming `text/event-stream` Response.
+ * The handler receives a `send` function and an AbortSignal that fires when the client disconnects.
+ * The stream is closed once the handler settles.
+ */
+export function createSSEResponse(
+  handler: (send: SSESend, signal: AbortSignal) => Promise<void>
+): Response {
+  const encoder = new TextEncoder();
+  const abortController = new AbortController();
+
+  const stream = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      const send: SSESend = (event, data) => {
+        if (abortController.signal.aborted) return;
+        controller.enqueue(encoder.encode(encodeSSE(event, data)));
+      };
+
+      try {
+        await handler(send, abortController.signal);
+      } catch (error) {
+        console.error('SSE: Unhandled error in stream handler:', error);
+        send('error', { error: 'The stream ended unexpectedly.', code: 'INTERNAL_ERROR' } satisfies ApiErrorBody);
+      } finally {
+        if (!abortController.signal.aborted) {
+          controller.close();
+        }
+      }
+    },
+    cancel() {
+      abortController.abort();
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      'Content-Type': 'text/event-stream; charset=utf-8',
+      'Cache-Control': 'no-cache, no-transform',
+      'Connection': 'keep-alive',
+      'X-Accel-Buffering': 'no', // Disable proxy buffering so tokens arrive as they are sent
+    },
+  });
+}
+
+/**
+ * Reads an SSE response body and calls `onEvent` for every complete event.
+ * Resolves when the server closes the stream. Errors thrown by `onEvent` abort reading and are re-thrown.
+ */
+export async function readSSEStream(
+  response: Response,
+  onEvent: (event: string, data: unknown) => void
+): Promise<void> {
+  if (!response.body) {
+    throw new Error('Response has no body to stream.');
+  }
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  const dispatch = (frame: string) => {
+    let event = 'message';
+    const dataLines: string[] = [];
+    for (const line of frame.split('\n')) {
+      if (line.startsWith('event:')) {
+        event = line.slice(6).trim();
+      } else if (line.startsWith('data:')) {
+        dataLines.push(line.slice(5).trimStart());
+      }
+    }
+    if (dataLines.length === 0) return;
+    onEvent(event, JSON.parse(dataLines.join('\n')));
+  };
+
+  try {
+    while (true) {
+      const { value, done } = await reader.read();
+      if (done) break;
+      buffer += decoder.decode(value, { stream: true }).replace(/\r\n/g, '\n');
+
+      let boundary = buffer.indexOf('\n\n');
+      while (boundary !== -1) {
+        dispatch(buffer.slice(0, boundary));
+        buffer = buffer.slice(boundary + 2);
+        boundary = buffer.indexOf('\n\n');
+      }
+    }
+    if (buffer.trim() !== '') {
+      dispatch(buffer);
+    }
+  } catch (error) {
+    await reader.cancel().catch(() => undefined);
+    throw error;
+  } finally {
+    reader.releaseLock();
+  }
+}
@@ -0,0 +1,96 @@
+import type { NextRequest, NextResponse } from 'next/server';
+import type { SupabaseClient, User } from '@supabase/supabase-js';
+import { errorResponse, ForbiddenError, InternalError, UnauthorizedError } from '@/lib/api/errors';
+import { createRouteClient } from './server';
+
+export type UserTier = 'free_trial' | 'byok' | 'vip_tester' | 'admin';
+
+export interface UserProfile {
+  id: string;
+  email: string | null;
+  first_name: string | null;
+  last_name: string | null;
+  user_tier: UserTier;
+  message_credits: number;
+}
+
+export interface AuthContext {
+  user: User;
+  profile: UserProfile;
+  supabase: SupabaseClient; // Authenticated as the user, so RLS applies
+}
+
+export interface WithAuthOptions {
+  tier?: UserTier[]; // Tiers allowed to call the route; any signed-in user when omitted
+  createClient?: () => Promise<SupabaseClient>; // Defaults to the request's cookie-based client
+}
+
+type RouteContext<P> = { params: Promise<P> };
+
+export type AuthenticatedRouteHandler<P> = (
+  request: NextRequest,
+  auth: AuthContext,
+  context: RouteContext<P>
+) => Promise<Response>;
+
+const PROFILE_COLUMNS = 'id, email, first_name, last_name, user_tier, message_credits';
+
+/**
+ * Resolves the signed-in user and their profile, checking the tier if `tiers` is given.
+ * Returns the auth context, or the 401/403/500 response to send instead.
+ */
+export async function authenticate(
+  supabase: SupabaseClient,
+  tiers?: UserTier[]
+): Promise<{ auth: AuthContext; response?: undefined } | { auth?: undefined; response: NextResponse }> {
+  const { data: { user }, error: userError } = await supabase.auth.getUser();
+  if (userError || !user) {
+    return { response: errorResponse(new UnauthorizedError()) };
+  }
+
+  const { data: profile, error: profileError } = await supabase
+    .from('profiles')
+    .select(PROFILE_COLUMNS)
+    .eq('id', user.id)
+    .single();
+  if (profileError && profileError.code !== 'PGRST116') {
+    console.error(`Error fetching profile for user ${user.id}:`, profileError.message);
+    return { response: errorResponse(new InternalError('Failed to load your profile.', profileError)) };
+  }
+  // A user without a profile has no tier, so they cannot use any route
+  if (!profile) {
+    return { response: errorResponse(new ForbiddenError()) };
+  }
+
+  const userProfile = profile as UserProfile;
+  if (tiers && !tiers.includes(userProfile.user_tier)) {
+    return { response: errorResponse(new ForbiddenError()) };
+  }
+
+  return { auth: { user, profile: userProfile, supabase } };
+}
+
+/**
+ * Wraps a route handler so it only runs for a signed-in user (of one of `options.tier`, if given),
+ * receiving `{ user, profile, supabase }`. Otherwise responds 401 UNAUTHORIZED when not signed in
+ * and 403 FORBIDDEN when the tier is not allowed. Errors the handler throws are sent with
+ * `errorResponse` (ApiErrors keep their status and code; anything else is a 500).
+ *
+ *   export const GET = withAuth({ tier: ['admin'] }, async (request, { user, supabase }) => { ... });
+ */
+export function withAuth<P = Record<string, string>>(
+  options: WithAuthOptions,
+  handler: AuthenticatedRouteHandler<P>
+) {
+  return async (request: NextRequest, context: RouteContext<P>): Promise<Response> => {
+    const supabase = await (options.createClient ?? createRouteClient)();
+    const { auth, response } = await authenticate(supabase, options.tier);
+    if (response) return response;
+    try {
+      return await handler(request, auth, context);
+    } catch (error: unknown) {
+      console.error(`Unhandled error in ${request.method} ${request.nextUrl.pathname}:`, error);
+      return errorResponse(error);
+    }
+  };
+}
@@ -0,0 +1,117 @@
+// Line diff between two texts (Myers' algorithm), for comparing document versions.
+
+export interface DiffLine {
+  type: 'equal' | 'added' | 'removed';
+  text: string;
+}
+
+export interface DiffHunk {
+  oldStart: number; // 1-based line numbers
+  newStart: number;
+  lines: DiffLine[];
+}
+
+// Beyond this many changed lines the versions are treated as unrelated (all old lines removed, all new
+// ones added), which keeps the backtracking state small
+const MAX_EDIT_DISTANCE = 4000;
+
+/**
+ * The edit script turning `before` into `after`, line by line. Runs in O((N + M) * D) time, where D is
+ * the number of changed lines, so near-identical versions of long documents are cheap to compare.
+ */
+export function diffLines(before: string, after: string): DiffLine[] {
+  const a = before.split('\n');
+  const b = after.split('\n');
+  const max = Math.min(a.length + b.length, MAX_EDIT_DISTANCE);
+  const offset = max + 1;
+  const v = new Int32Array(2 * max + 3);
+  // v[k] for k in [-d, d] before step d; trace[d][i] is diagonal k = i - d
+  const trace: Int32Array[] = [];
+
+  let found = false;
+  for (let d = 0; d <= max && !found; d++) {
+    trace.push(v.slice(offset - d, offset + d + 1));
+    for (let k = -d; k <= d; k += 2) {
+      let x = k === -d || (k !== d && v[offset + k - 1] < v[offset + k + 1])
+        ? v[offset + k + 1]
+        : v[offset + k - 1] + 1;
+      let y = x - k;
+      while (x < a.length && y < b.length && a[x] === b[y]) {
+        x++;
+        y++;
+      }
+      v[offset + k] = x;
+      if (x >= a.length && y >= b.length) {
+        found = true;
+        break;
+      }
+    }
+  }
+
+  if (!found) {
+    return [
+      ...a.map((text): DiffLine => ({ type: 'removed', text })),
+      ...b.map((text): DiffLine => ({ type: 'added', text })),
+    ];
+  }
+
+  // Backtrack through the saved states to recover the edits
+  const lines: DiffLine[] = [];
+  let x = a.length;
+  let y = b.length;
+  for (let d = trace.length - 1; d >= 0; d--) {
+    const state = trace[d];
+    const at = (k: number) => state[k + d];
+    const k = x - y;
+    const prevK = k === -d || (k !== d && at(k - 1) < at(k + 1)) ? k + 1 : k - 1;
+    const prevX = d === 0 ? 0 : at(prevK);
+    const prevY = prevX - prevK;
+    while (x > prevX && y > prevY) {
+      lines.push({ type: 'equal', text: a[--x] });
+      y--;
+    }
+    if (d > 0) {
+      if (x === prevX) lines.push({ type: 'added', text: b[--y] });
+      else lines.push({ type: 'removed', text: a[--x] });
+    }
+  }
+  return lines.reverse();
+}
+
+/**
+ * Groups a diff into hunks of changes with `context` unchanged lines around them, like a unified diff.
+ */
+export function toHunks(lines: DiffLine[], context = 3): DiffHunk[] {
+  // Distance from each line to the nearest change before and after it
+  const sincePrevious = new Array<number>(lines.length);
+  const untilNext = new Array<number>(lines.length);
+  let last = -Infinity;
+  lines.forEach((line, index) => {
+    if (line.type !== 'equal') last = index;
+    sincePrevious[index] = index - last;
+  });
+  let next = Infinity;
+  for (let index = lines.length - 1; index >= 0; index--) {
+    if (lines[index].type !== 'equal') next = index;
+    untilNext[index] = next - index;
+  }
+
+  const hunks: DiffHunk[] = [];
+  let current: DiffHunk | null = null;
+  let oldLine = 1;
+  let newLine = 1;
+  lines.forEach((line, index) => {
+    if (sincePrevious[index] <= context || untilNext[index] <= context) {
+      if (!current) {
+        current = { oldStart: oldLine, newStart: newLine, lines: [] };
+        hunks.push(current);
+      }
+      current.lines.push(line);
+    } else {
+      current = null;
+    }
+    if (line.type !== 'added') oldLine++;
+    if (line.type !== 'removed') newLine++;
+  });
+  return hunks;
+}
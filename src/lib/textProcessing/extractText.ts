@@ -0,0 +1,55 @@
+import mammoth from 'mammoth'; // For .doc, .docx
+import * as pdf from 'pdf-parse/lib/pdf-parse.js'; // For .pdf
+
+export const SUPPORTED_FILE_TYPES = [
+  'text/plain',
+  'application/pdf',
+  'application/msword', // .doc
+  'application/vnd.openxmlformats-officedocument.wordprocessingml.document' // .docx
+];
+
+export interface ExtractedFile {
+  text: string;
+  pageCount: number | null; // Known for PDFs only
+}
+
+/**
+ * Extracts the text of an uploaded file. Throws for a type not in SUPPORTED_FILE_TYPES or a file the
+ * parser cannot read.
+ */
+export async function extractFileText(buffer: Buffer, mimeType: string): Promise<ExtractedFile> {
+  if (mimeType === 'text/plain') {
+    return { text: new TextDecoder().decode(buffer), pageCount: null };
+  }
+
+  if (mimeType === 'application/msword' || mimeType === 'application/vnd.openxmlformats-officedocument.wordprocessingml.document') {
+    const result = await mammoth.extractRawText({ buffer });
+    console.log('[EXTRACT_TEXT] Word document parsed. Extracted text length: ', result.value.length);
+    return { text: result.value, pageCount: null };
+  }
+
+  if (mimeType === 'application/pdf') {
+    // Use pdf-parse with options to improve text extraction
+    // Note: pdf-parse has limited options, but we can try to extract more text
+    const data = await pdf.default(buffer, {
+      // max: 0 means parse all pages (default)
+      // version: 'default' uses the default PDF version
+      // These options help ensure we extract all text, including formatted text
+    });
+
+    // Clean up extracted text to improve quality
+    // Remove excessive whitespace but preserve paragraph breaks
+    const text = data.text
+      .replace(/\r\n/g, '\n')  // Normalize line endings
+      .replace(/\r/g, '\n')     // Normalize line endings
+      .replace(/\n{4,}/g, '\n\n\n')  // Limit excessive newlines to 3 max
+      .replace(/[ \t]{3,}/g, ' ')    // Replace multiple spaces/tabs with single space
+      .trim();
+
+    console.log('[EXTRACT_TEXT] PDF parsed. Extracted text length:', text.length);
+    console.log('[EXTRACT_TEXT] PDF pages:', data.numpages);
+    return { text, pageCount: data.numpages };
+  }
+
+  throw new Error(`Unsupported file type: ${mimeType}.`);
+}
@@ -0,0 +1,182 @@
+import { createClient, type SupabaseClient } from '@supabase/supabase-js';
+import { estimateCost } from '@/lib/ai/pricing';
+
+// Usage metering: one usage_events row per provider call (chat, embedding, image) with tokens,
+// estimated cost, latency and outcome. Events are written with the service role key so users
+// cannot insert or alter their own records.
+
+export type UsageOperation = 'chat' | 'embedding' | 'image';
+export type KeySource = 'internal' | 'byok'; // Our platform keys, or the user's own key
+
+// Who a call is made for; attached to every event recorded for it
+export interface UsageContext {
+  userId: string | null;
+  userTier: string | null;
+  keySource: KeySource;
+  mode?: string | null; // Chat mode, or e.g. 'ingest' for document uploads
+  purpose?: string | null; // Default label for the calls, e.g. 'retrieval'
+}
+
+export interface UsageMeasurement {
+  inputTokens?: number | null;
+  outputTokens?: number | null;
+  images?: number | null;
+}
+
+export interface UsageEvent extends UsageContext, UsageMeasurement {
+  operation: UsageOperation;
+  provider: string;
+  model: string;
+  latencyMs: number;
+  success: boolean;
+  error?: string | null;
+}
+
+// Calls made outside a user request (scripts, test routes)
+export const SYSTEM_USAGE_CONTEXT: UsageContext = { userId: null, userTier: null, keySource: 'internal' };
+
+let serviceClient: SupabaseClient | null = null;
+
+function getServiceClient(): SupabaseClient | null {
+  if (!serviceClient && process.env.NEXT_PUBLIC_SUPABASE_URL && process.env.SUPABASE_SERVICE_ROLE_KEY) {
+    serviceClient = createClient(process.env.NEXT_PUBLIC_SUPABASE_URL, process.env.SUPABASE_SERVICE_ROLE_KEY);
+  }
+  return serviceClient;
+}
+
+/**
+ * Stores a usage event. Never throws: metering must not break the call it measures.
+ */
+export async function recordUsage(event: UsageEvent): Promise<void> {
+  const supabase = getServiceClient();
+  if (!supabase) {
+    console.warn('Usage: SUPABASE_SERVICE_ROLE_KEY is not configured, usage event not recorded.');
+    return;
+  }
+  try {
+    const { error } = await supabase.from('usage_events').insert({
+      user_id: event.userId,
+      user_tier: event.userTier,
+      key_source: event.keySource,
+      operation: event.operation,
+      mode: event.mode ?? null,
+      purpose: event.purpose ?? null,
+      provider: event.provider,
+      model: event.model,
+      input_tokens: event.inputTokens ?? null,
+      output_tokens: event.outputTokens ?? null,
+      images: event.images ?? null,
+      cost_usd: event.success ? estimateCost(event.model, event) : null,
+      latency_ms: Math.round(event.latencyMs),
+      success: event.success,
+      error: event.error ?? null,
+    });
+    if (error) throw error;
+  } catch (error: unknown) {
+    console.error('Usage: Failed to record usage event:', error instanceof Error ? error.message : error);
+  }
+}
+
+/**
+ * Runs a provider call and records its usage, latency and outcome. The event is written in the
+ * background; the call's result or error is passed through unchanged.
+ */
+export async function meter<T>(
+  context: UsageContext,
+  call: { operation: UsageOperation; provider: string; model: string; purpose?: string | null },
+  run: () => Promise<T>,
+  measure: (result: T) => UsageMeasurement
+): Promise<T> {
+  const startedAt = performance.now();
+  const base = { ...context, ...call, purpose: call.purpose ?? context.purpose ?? null };
+  try {
+    const result = await run();
+    void recordUsage({ ...base, ...measure(result), latencyMs: performance.now() - startedAt, success: true });
+    return result;
+  } catch (error: unknown) {
+    void recordUsage({
+      ...base,
+      latencyMs: performance.now() - startedAt,
+      success: false,
+      error: error instanceof Error ? error.message : String(error),
+    });
+    throw error;
+  }
+}
+
+export interface UsageSummaryRow {
+  user_id: string | null;
+  email: string | null;
+  user_tier: string | null;
+  key_source: KeySource;
+  operation: UsageOperation;
+  mode: string | null;
+  purpose: string | null;
+  provider: string;
+  model: string;
+  calls: number;
+  failures: number;
+  input_tokens: number;
+  output_tokens: number;
+  images: number;
+  cost_usd: number;
+  avg_latency_ms: number | null;
+}
+
+export interface UsageTotals {
+  calls: number;
+  failures: number;
+  inputTokens: number;
+  outputTokens: number;
+  images: number;
+  costUsd: number;
+}
+
+/**
+ * Usage between `from` and `to`, grouped by user, tier, key source, operation, mode, purpose and model.
+ * The RPC returns every user's usage to admins and only the caller's own to everyone else.
+ */
+export async function getUsageSummary(
+  supabase: SupabaseClient,
+  options: { from: Date; to: Date; keySource?: KeySource }
+): Promise<UsageSummaryRow[]> {
+  const { data, error } = await supabase.rpc('get_usage_summary', {
+    p_from: options.from.toISOString(),
+    p_to: options.to.toISOString(),
+    p_key_source: options.keySource ?? null,
+  });
+  if (error) throw error;
+  // Postgres bigint/numeric columns arrive as strings or numbers depending on size
+  return ((data || []) as Record<string, unknown>[]).map(row => ({
+    ...(row as unknown as UsageSummaryRow),
+    calls: Number(row.calls),
+    failures: Number(row.failures),
+    input_tokens: Number(row.input_tokens),
+    output_tokens: Number(row.output_tokens),
+    images: Number(row.images),
+    cost_usd: Number(row.cost_usd),
+    avg_latency_ms: row.avg_latency_ms === null ? null : Number(row.avg_latency_ms),
+  }));
+}
+
+/**
+ * Rolls summary rows up by a key (e.g. user or mode), most expensive first.
+ */
+export function rollUpUsage(
+  rows: UsageSummaryRow[],
+  keyOf: (row: UsageSummaryRow) => string
+): Array<UsageTotals & { key: string }> {
+  const groups = new Map<string, UsageTotals & { key: string }>();
+  for (const row of rows) {
+    const key = keyOf(row);
+    const group = groups.get(key) ?? { key, calls: 0, failures: 0, inputTokens: 0, outputTokens: 0, images: 0, costUsd: 0 };
+    group.calls += row.calls;
+    group.failures += row.failures;
+    group.inputTokens += row.input_tokens;
+    group.outputTokens += row.output_tokens;
+    group.images += row.images;
+    group.costUsd += row.cost_usd;
+    groups.set(key, group);
+  }
+  return Array.from(groups.values()).sort((a, b) => b.costUsd - a.costUsd);
+}
@@ -1,12 +1,21 @@
 import { decrypt } from '@/lib/encryption';
 import { type SupabaseClient } from '@supabase/supabase-js';
 
+export interface ProviderCredentials {
+  apiKey: string;
+  baseUrl: string | null; // The key's own endpoint; null for the provider default
+}
+
 // This function can be called from server-side components and API routes
-export async function getUserApiKey(userId: string, provider: string, supabase: SupabaseClient) {
+export async function getUserProviderCredentials(
+  userId: string,
+  provider: string,
+  supabase: SupabaseClient
+): Promise<ProviderCredentials | null> {
   try {
     const { data: keyData, error } = await supabase
       .from('user_llm_api_keys')
-      .select('encrypted_api_key, iv, auth_tag')
+      .select('encrypted_api_key, iv, auth_tag, base_url')
       .eq('user_id', userId)
       .eq('provider', provider)
       .single();
@@ -24,10 +33,14 @@ export async function getUserApiKey(userId: string, provider: string, supabase:
       authTag: keyData.auth_tag,
     });
 
-    return decryptedKey;
+    return { apiKey: decryptedKey, baseUrl: keyData.base_url ?? null };
 
   } catch (e) {
-    console.error('Error in getUserApiKey:', e);
+    console.error('Error in getUserProviderCredentials:', e);
     return null; // Return null on failure
   }
-} 
\ No newline at end of file
+}
+
+export async function getUserApiKey(userId: string, provider: string, supabase: SupabaseClient) {
+  return (await getUserProviderCredentials(userId, provider, supabase))?.apiKey ?? null;
+}
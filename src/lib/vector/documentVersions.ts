@@ -0,0 +1,133 @@
+import { type SupabaseClient } from '@supabase/supabase-js';
+
+// Helpers for the document_versions table. Every ingestion of a document writes its chunks under a
+// new version, which activate_document_version swaps in atomically once all of them are stored.
+// They take a Supabase client: the service role client when ingesting, the admin's own client (the
+// admin RLS policy and RPC check apply) from the API routes.
+
+export type DocumentVersionStatus = 'building' | 'active' | 'superseded' | 'failed';
+
+export interface DocumentVersion {
+  id: string;
+  document_id: string;
+  version: number;
+  status: DocumentVersionStatus;
+  chunk_count: number;
+  checksum: string | null; // SHA-256 of the version's text
+  page_count: number | null;
+  created_by: string | null;
+  created_at: string;
+  activated_at: string | null;
+}
+
+const VERSION_COLUMNS = 'id, document_id, version, status, chunk_count, checksum, page_count, created_by, created_at, activated_at';
+
+// Versions to keep per document, the active one included; older ones are deleted on activation
+const DEFAULT_VERSIONS_TO_KEEP = 5;
+
+export function getVersionsToKeep(): number {
+  return Math.max(1, Number(process.env.DOCUMENT_VERSIONS_TO_KEEP) || DEFAULT_VERSIONS_TO_KEEP);
+}
+
+/**
+ * Starts a new 'building' version of a document, numbered after its latest one.
+ */
+export async function createDocumentVersion(
+  supabase: SupabaseClient,
+  documentId: string,
+  originalText: string,
+  pageCount: number | null,
+  createdBy: string | null
+): Promise<DocumentVersion> {
+  const { data, error } = await supabase.rpc('create_document_version', {
+    p_document_id: documentId,
+    p_original_text: originalText,
+    p_page_count: pageCount,
+    p_created_by: createdBy,
+  });
+  if (error) throw error;
+  return data as DocumentVersion;
+}
+
+/**
+ * Makes a version the document's active one (publishing a new version or restoring an old one).
+ */
+export async function activateDocumentVersion(supabase: SupabaseClient, versionId: string): Promise<DocumentVersion> {
+  const { data, error } = await supabase.rpc('activate_document_version', {
+    p_version_id: versionId,
+    p_keep: getVersionsToKeep(),
+  });
+  if (error) throw error;
+  return data as DocumentVersion;
+}
+
+/**
+ * Marks a version that could not be built as failed and removes the chunks it got so far; a document
+ * that never had an active version is marked failed too. Never throws, so the original error is the
+ * one reported.
+ */
+export async function failDocumentVersion(
+  supabase: SupabaseClient,
+  version: Pick<DocumentVersion, 'id' | 'document_id'>
+): Promise<void> {
+  try {
+    const { error: deleteError } = await supabase.from('documents').delete().eq('version_id', version.id);
+    if (deleteError) throw deleteError;
+    const { error } = await supabase.from('document_versions').update({ status: 'failed' }).eq('id', version.id);
+    if (error) throw error;
+    const { error: documentError } = await supabase
+      .from('knowledge_documents')
+      .update({ status: 'failed' })
+      .eq('id', version.document_id)
+      .eq('status', 'processing');
+    if (documentError) throw documentError;
+  } catch (error: unknown) {
+    console.error(`Failed to clean up document version ${version.id}:`, error);
+  }
+}
+
+/**
+ * A document's versions, newest first.
+ */
+export async function listDocumentVersions(supabase: SupabaseClient, documentId: string): Promise<DocumentVersion[]> {
+  const { data, error } = await supabase
+    .from('document_versions')
+    .select(VERSION_COLUMNS)
+    .eq('document_id', documentId)
+    .order('version', { ascending: false });
+  if (error) throw error;
+  return (data || []) as DocumentVersion[];
+}
+
+/**
+ * A version with its full text, or null if it does not exist.
+ */
+export async function getDocumentVersion(
+  supabase: SupabaseClient,
+  versionId: string
+): Promise<(DocumentVersion & { original_text: string }) | null> {
+  const { data, error } = await supabase
+    .from('document_versions')
+    .select(`${VERSION_COLUMNS}, original_text`)
+    .eq('id', versionId)
+    .maybeSingle();
+  if (error) throw error;
+  return data as (DocumentVersion & { original_text: string }) | null;
+}
+
+/**
+ * A document's live version with its full text, or null if it has none.
+ */
+export async function getActiveDocumentVersion(
+  supabase: SupabaseClient,
+  documentId: string
+): Promise<(DocumentVersion & { original_text: string }) | null> {
+  const { data, error } = await supabase
+    .from('document_versions')
+    .select(`${VERSION_COLUMNS}, original_text`)
+    .eq('document_id', documentId)
+    .eq('status', 'active')
+    .maybeSingle();
+  if (error) throw error;
+  return data as (DocumentVersion & { original_text: string }) | null;
+}
@@ -1,7 +1,7 @@
 // Placeholder for LlamaIndex embedding and Qdrant upsert logic
 
 import { getQdrantClient } from "./qdrantClient";
-import { generateEmbedding } from "../ai/embeddingUtils";
+import { generateEmbeddings } from "../ai/embeddingUtils";
 // import { Document, VectorStoreIndex, QdrantVectorStore } from "llamaindex"; // LlamaIndex components
 import { v4 as uuidv4 } from 'uuid';
 
@@ -35,13 +35,16 @@ export async function embedAndUpsertChunks(chunks: DocumentChunk[], collectionNa
     console.log(`Collection '${collectionName}' created.`);
   }
 
+  const toEmbed = chunks.filter(chunk => !chunk.embedding);
+  const generated = await generateEmbeddings(toEmbed.map(chunk => chunk.text));
+  const embeddings = new Map(toEmbed.map((chunk, i) => [chunk, generated[i]]));
+
   const pointsToUpsert = [];
 
   for (const chunk of chunks) {
-    const embedding = chunk.embedding || await generateEmbedding(chunk.text);
     pointsToUpsert.push({
       id: chunk.id || uuidv4(),
-      vector: embedding,
+      vector: chunk.embedding || embeddings.get(chunk)!,
       payload: {
         text: chunk.text,
         source: chunk.metadata?.source || 'unknown',
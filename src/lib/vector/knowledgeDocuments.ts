@@ -0,0 +1,179 @@
+import { type SupabaseClient } from '@supabase/supabase-js';
+
+// Helpers for the knowledge_documents table: one row per document in the shared knowledge base, with
+// its chunks in documents (document_id) and its versions in document_versions. file_name identifies a
+// document, so ingesting the same file name or URL again adds a version instead of a new document.
+
+export type KnowledgeDocumentSourceType = 'file' | 'url';
+
+export type KnowledgeDocumentStatus = 'processing' | 'active' | 'failed';
+
+export interface KnowledgeDocument {
+  id: string;
+  file_name: string;
+  title: string;
+  source_type: KnowledgeDocumentSourceType;
+  source_url: string | null;
+  checksum: string | null; // SHA-256 of the active version's text
+  page_count: number | null;
+  uploaded_by: string | null;
+  tags: string[];
+  status: KnowledgeDocumentStatus;
+  created_at: string;
+  updated_at: string;
+}
+
+// What an ingestion knows about the document it is adding
+export interface KnowledgeDocumentSource {
+  fileName: string;
+  title?: string; // Defaults to the file name
+  sourceType: KnowledgeDocumentSourceType;
+  sourceUrl?: string | null;
+  pageCount?: number | null;
+  tags?: string[]; // Replaces the document's tags when given
+  originalText: string;
+  uploadedBy: string;
+}
+
+export const KNOWLEDGE_DOCUMENT_COLUMNS = 'id, file_name, title, source_type, source_url, checksum, page_count, uploaded_by, tags, status, created_at, updated_at';
+
+/**
+ * Finds the document with this file name and refreshes its title and source, or creates it in the
+ * 'processing' state. Its checksum, page count and status are set when a version is activated.
+ */
+export async function upsertKnowledgeDocument(
+  supabase: SupabaseClient,
+  source: KnowledgeDocumentSource
+): Promise<KnowledgeDocument> {
+  const details = {
+    title: source.title?.trim() || source.fileName,
+    source_type: source.sourceType,
+    source_url: source.sourceUrl ?? null,
+    ...(source.tags ? { tags: source.tags } : {}),
+  };
+
+  const { data: existing, error: findError } = await supabase
+    .from('knowledge_documents')
+    .select('id')
+    .eq('file_name', source.fileName)
+    .maybeSingle();
+  if (findError) throw findError;
+
+  const query = existing
+    ? supabase.from('knowledge_documents').update(details).eq('id', existing.id)
+    : supabase.from('knowledge_documents').insert({ ...details, file_name: source.fileName, uploaded_by: source.uploadedBy });
+  const { data, error } = await query.select(KNOWLEDGE_DOCUMENT_COLUMNS).single();
+  if (error) throw error;
+  return data as KnowledgeDocument;
+}
+
+export async function getKnowledgeDocument(supabase: SupabaseClient, id: string): Promise<KnowledgeDocument | null> {
+  const { data, error } = await supabase
+    .from('knowledge_documents')
+    .select(KNOWLEDGE_DOCUMENT_COLUMNS)
+    .eq('id', id)
+    .maybeSingle();
+  if (error) throw error;
+  return data as KnowledgeDocument | null;
+}
+
+// A document in the admin listing, with its live version
+export interface KnowledgeDocumentListItem extends KnowledgeDocument {
+  active_version: number | null;
+  chunk_count: number; // Chunks of the active version
+}
+
+export interface KnowledgeDocumentChunk {
+  id: string;
+  chunk_index: number | null;
+  chunk_text: string;
+  metadata: Record<string, unknown>;
+}
+
+export type KnowledgeDocumentSearchField = 'name' | 'content';
+
+export interface KnowledgeDocumentListOptions {
+  query?: string;
+  searchIn?: KnowledgeDocumentSearchField; // Title and file name, or the text of the live chunks
+  limit?: number;
+  offset?: number;
+}
+
+/**
+ * Documents, newest first, optionally filtered by a search. Returns one page and the total number
+ * of matching documents.
+ */
+export async function listKnowledgeDocuments(
+  supabase: SupabaseClient,
+  { query, searchIn = 'name', limit = 25, offset = 0 }: KnowledgeDocumentListOptions = {}
+): Promise<{ documents: KnowledgeDocumentListItem[]; total: number }> {
+  let request = supabase
+    .from('knowledge_documents')
+    .select(`${KNOWLEDGE_DOCUMENT_COLUMNS}, document_versions(version, chunk_count, status)`, { count: 'exact' })
+    .eq('document_versions.status', 'active');
+
+  const term = query?.trim();
+  let contentMatches: { ids: string[]; total: number } | null = null;
+  if (term && searchIn === 'content') {
+    // The search_knowledge_documents RPC groups matching chunks by document and pages in the database
+    const { data: matches, error: searchError } = await supabase.rpc('search_knowledge_documents', {
+      p_query: term,
+      p_limit: limit,
+      p_offset: offset,
+    });
+    if (searchError) throw searchError;
+    const rows = (matches || []) as { document_id: string; total_count: number }[];
+    if (rows.length === 0) return { documents: [], total: 0 };
+    contentMatches = { ids: rows.map(row => row.document_id), total: Number(rows[0].total_count) };
+    request = request.in('id', contentMatches.ids);
+  } else if (term) {
+    // Quoted so commas and parentheses in the search don't break the filter; wildcards are dropped
+    const pattern = `"%${term.replace(/[%_*\\"]/g, '')}%"`;
+    request = request.or(`title.ilike.${pattern},file_name.ilike.${pattern}`);
+  }
+
+  request = request.order('created_at', { ascending: false });
+  // A content search already holds just the page's documents
+  const { data, error, count } = await (contentMatches ? request : request.range(offset, offset + limit - 1));
+  if (error) throw error;
+
+  type Row = KnowledgeDocument & { document_versions: { version: number; chunk_count: number }[] };
+  const documents = ((data || []) as Row[]).map(({ document_versions: versions, ...document }) => ({
+    ...document,
+    active_version: versions[0]?.version ?? null,
+    chunk_count: versions[0]?.chunk_count ?? 0,
+  }));
+  return { documents, total: contentMatches?.total ?? count ?? documents.length };
+}
+
+/**
+ * One page of a document's live chunks, in document order, and the number of live chunks.
+ */
+export async function listKnowledgeDocumentChunks(
+  supabase: SupabaseClient,
+  documentId: string,
+  { limit = 50, offset = 0 }: { limit?: number; offset?: number } = {}
+): Promise<{ chunks: KnowledgeDocumentChunk[]; total: number }> {
+  const { data, error, count } = await supabase
+    .from('documents')
+    .select('id, chunk_index, chunk_text, metadata', { count: 'exact' })
+    .eq('document_id', documentId)
+    .eq('is_active', true)
+    .order('chunk_index', { ascending: true })
+    .range(offset, offset + limit - 1);
+  if (error) throw error;
+  return { chunks: (data || []) as KnowledgeDocumentChunk[], total: count ?? 0 };
+}
+
+/**
+ * Deletes documents with all their versions and chunks. Returns the ids that were deleted.
+ */
+export async function deleteKnowledgeDocuments(supabase: SupabaseClient, ids: string[]): Promise<string[]> {
+  const { data, error } = await supabase
+    .from('knowledge_documents')
+    .delete()
+    .in('id', ids)
+    .select('id');
+  if (error) throw error;
+  return (data || []).map(row => row.id as string);
+}
@@ -1,5 +1,9 @@
 import { createClient } from '@supabase/supabase-js';
-import { generateEmbedding } from '../ai/embeddingUtils';
+import { generateEmbedding, generateEmbeddings } from '../ai/embeddingUtils';
+import type { UsageContext } from '../usage';
+import { reciprocalRankFusion } from '../rag/rankFusion';
+import { activateDocumentVersion, createDocumentVersion, failDocumentVersion, type DocumentVersion } from './documentVersions';
+import { upsertKnowledgeDocument, type KnowledgeDocumentSource, type KnowledgeDocumentSourceType, type KnowledgeDocumentStatus } from './knowledgeDocuments';
 
 // Initialize Supabase client with service role key for server-side operations
 const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL!;
@@ -19,95 +23,174 @@ export interface QueryResult {
   score: number;
   payload?: Record<string, unknown> | null;
   chunk_text?: string;
+  // The knowledge document the chunk belongs to
+  document_id?: string;
   file_name?: string;
+  title?: string;
+  source_type?: KnowledgeDocumentSourceType;
+  source_url?: string | null;
   metadata?: Record<string, unknown>;
+  // Hybrid retrieval details (see queryTopK)
+  fusionScore?: number; // Reciprocal rank fusion score; results are ordered by it
+  vectorRank?: number | null; // Position in the vector similarity list, null if only a full-text match
+  textRank?: number | null; // Position in the full-text list, null if only a vector match
+  rerankScore?: number; // Set by the reranking stage (src/lib/rag/reranker.ts); higher is more relevant
 }
 
+export interface DocumentStats {
+  totalDocuments: number;
+  totalChunks: number;
+  uniqueFiles: number;
+  failedDocuments: number; // Documents whose first upload never went live
+}
+
+// Row returned by the match_documents_hybrid RPC
+interface HybridMatchRow {
+  id: string;
+  user_id: string;
+  document_id: string;
+  file_name: string;
+  title: string;
+  source_type: KnowledgeDocumentSourceType;
+  source_url: string | null;
+  chunk_text: string;
+  metadata: Record<string, unknown>;
+  similarity: number;
+  text_score: number;
+  vector_rank: number | null;
+  text_rank: number | null;
+}
+
+// Rows per insert request; each row carries a 1536-dimension vector
+const INSERT_BATCH_SIZE = 100;
+
 /**
- * Upsert document chunks to Supabase vector database
+ * Upsert document chunks to Supabase vector database as a new version of the knowledge document with
+ * the source's file name (created if it is new). The chunks are inserted inactive and swapped in
+ * (replacing the previous version's) only once all of them are stored; if anything fails, the previous
+ * version stays live. Returns the new active version, or null if there were no chunks.
  */
 export async function upsertDocumentChunks(
   chunks: DocumentChunk[], 
-  userId: string,
-  fileName: string,
-  originalText: string
-): Promise<void> {
+  source: KnowledgeDocumentSource,
+  usage?: UsageContext // Recorded with each embedding batch
+): Promise<DocumentVersion | null> {
+  const userId = source.uploadedBy;
   console.log(`Upserting ${chunks.length} chunks to Supabase for user ${userId}`);
 
-  // First, delete existing chunks for this file to avoid duplicates
-  // This ensures re-uploading a document replaces old chunks with new ones
-  // For shared knowledge base, delete by file_name only (not user_id)
-  // since all admins share the same documents
-  console.log(`Deleting existing chunks for file: ${fileName}`);
-  const { error: deleteError } = await supabase
-    .from('documents')
-    .delete()
-    .eq('file_name', fileName);
-
-  if (deleteError) {
-    console.error('Error deleting existing chunks:', deleteError);
-    // Don't throw - continue with insert even if delete fails
-    // This allows first-time uploads to work
-  } else {
-    console.log(`Deleted existing chunks for file: ${fileName}`);
+  if (chunks.length === 0) {
+    console.log('No documents to upsert.');
+    return null;
   }
 
-  const documentsToInsert = [];
-
-  for (const chunk of chunks) {
-    const embedding = chunk.embedding || await generateEmbedding(chunk.text);
-    
-    documentsToInsert.push({
-      user_id: userId,
-      file_name: fileName,
-      original_text: originalText,
-      chunk_text: chunk.text,
-      embedding: embedding,
-      metadata: chunk.metadata || {}
-    });
+  // Embed the chunks that don't come with an embedding in batches; unchanged chunks come from the cache
+  const toEmbed = chunks.filter(chunk => !chunk.embedding);
+  const generated = await generateEmbeddings(toEmbed.map(chunk => chunk.text), usage && { ...usage, purpose: 'ingest' });
+  const embeddings = new Map(toEmbed.map((chunk, i) => [chunk, generated[i]]));
+
+  const version = await startDocumentVersion(source);
+
+  try {
+    await insertVersionChunks(
+      version.id,
+      chunks.map(chunk => ({ ...chunk, embedding: chunk.embedding || embeddings.get(chunk)! })),
+      userId
+    );
+
+    const active = await activateDocumentVersion(supabase, version.id);
+    console.log(`Successfully upserted ${chunks.length} documents to Supabase as version ${active.version} of ${source.fileName}.`);
+    return active;
+  } catch (error) {
+    console.error('Error upserting documents to Supabase:', error);
+    await failDocumentVersion(supabase, version);
+    throw error;
+  }
+}
+
+/**
+ * Creates the knowledge document for the source (or refreshes it, if one with the same file name
+ * exists) and starts a new 'building' version of it.
+ */
+export async function startDocumentVersion(source: KnowledgeDocumentSource): Promise<DocumentVersion> {
+  // For shared knowledge base, documents are per file_name (not user_id)
+  // since all admins share the same documents
+  const document = await upsertKnowledgeDocument(supabase, source);
+  const version = await createDocumentVersion(supabase, document.id, source.originalText, source.pageCount ?? null, source.uploadedBy);
+  console.log(`Writing version ${version.version} of ${document.file_name}`);
+  return version;
+}
+
+/**
+ * Stores chunks of a 'building' version, inactive, from chunk position `startIndex` on. Chunks the
+ * version already has from that position are replaced, so a batch can safely be written again.
+ */
+export async function insertVersionChunks(
+  versionId: string,
+  chunks: Array<DocumentChunk & { embedding: number[] }>,
+  userId: string,
+  startIndex = 0
+): Promise<void> {
+  const { data: version, error: versionError } = await supabase
+    .from('document_versions')
+    .select('id, document_id, status')
+    .eq('id', versionId)
+    .single();
+  if (versionError) throw versionError;
+  if (version.status !== 'building') {
+    throw new Error(`Document version ${versionId} is ${version.status}; chunks can only be added while it is building.`);
   }
 
-  if (documentsToInsert.length > 0) {
-    try {
-      const { error } = await supabase
-        .from('documents')
-        .insert(documentsToInsert);
+  const { error: clearError } = await supabase
+    .from('documents')
+    .delete()
+    .eq('version_id', version.id)
+    .gte('chunk_index', startIndex);
+  if (clearError) throw clearError;
 
-      if (error) {
-        console.error('Error upserting documents to Supabase:', error);
-        throw error;
-      }
+  const documentsToInsert = chunks.map((chunk, index) => ({
+    user_id: userId,
+    document_id: version.document_id,
+    chunk_index: startIndex + index,
+    chunk_text: chunk.text,
+    embedding: chunk.embedding,
+    metadata: chunk.metadata || {},
+    version_id: version.id,
+    is_active: false
+  }));
 
-      console.log(`Successfully upserted ${documentsToInsert.length} documents to Supabase.`);
-    } catch (error) {
-      console.error('Error upserting documents to Supabase:', error);
-      throw error;
-    }
-  } else {
-    console.log('No documents to upsert.');
+  for (let start = 0; start < documentsToInsert.length; start += INSERT_BATCH_SIZE) {
+    const { error } = await supabase
+      .from('documents')
+      .insert(documentsToInsert.slice(start, start + INSERT_BATCH_SIZE));
+    if (error) throw error;
   }
 }
 
 /**
- * Query top K similar documents from Supabase vector database
+ * Query top K documents from Supabase using hybrid retrieval: vector similarity and Postgres full-text
+ * search candidates are fused with reciprocal rank fusion, so exact terms (names, numbers, quoted
+ * phrases) are found even when their embedding similarity is low.
+ * Results are ordered by fused rank; `score` stays the cosine similarity of each chunk.
  */
 export async function queryTopK(
   queryText: string, 
   topK: number = 5, 
   userId?: string,
-  matchThreshold: number = 0.78
+  matchThreshold: number = 0.78,
+  usage?: UsageContext // Recorded with the query embedding call
 ): Promise<QueryResult[]> {
-  console.log(`Querying Supabase with topK=${topK}, threshold=${matchThreshold}`);
+  console.log(`Querying Supabase (hybrid) with topK=${topK}, threshold=${matchThreshold}`);
 
   try {
-    const queryEmbedding = await generateEmbedding(queryText);
+    const queryEmbedding = await generateEmbedding(queryText, usage && { ...usage, purpose: 'retrieval' });
 
-    // Use the match_documents function we created in the migration
+    // Use the match_documents_hybrid function from the hybrid search migration
     const { data, error } = await supabase
-      .rpc('match_documents', {
+      .rpc('match_documents_hybrid', {
+        query_text: queryText,
         query_embedding: queryEmbedding,
-        match_threshold: matchThreshold,
         match_count: topK,
+        match_threshold: matchThreshold,
         user_filter: userId || null
       });
 
@@ -117,10 +200,16 @@ export async function queryTopK(
       throw error;
     }
 
-    console.log(`Found ${data?.length || 0} results from Supabase.`);
-    if (data && data.length > 0) {
-      console.log(`First result similarity: ${(data[0] as { similarity?: number }).similarity?.toFixed(4)}`);
-      console.log(`First result file: ${(data[0] as { file_name?: string }).file_name}`);
+    const rows = (data || []) as HybridMatchRow[];
+    const vectorRanking = rows.filter(row => row.vector_rank !== null).sort((a, b) => a.vector_rank! - b.vector_rank!);
+    const textRanking = rows.filter(row => row.text_rank !== null).sort((a, b) => a.text_rank! - b.text_rank!);
+    const fused = reciprocalRankFusion([vectorRanking, textRanking], row => row.id).slice(0, topK);
+
+    console.log(`Found ${rows.length} candidates from Supabase (${vectorRanking.length} vector, ${textRanking.length} full-text), keeping ${fused.length}.`);
+    if (fused.length > 0) {
+      const first = fused[0].item;
+      console.log(`First result similarity: ${first.similarity.toFixed(4)}, vector rank: ${first.vector_rank ?? '-'}, text rank: ${first.text_rank ?? '-'}`);
+      console.log(`First result file: ${first.file_name}`);
     } else {
       console.log(`No results found with threshold ${matchThreshold}. This might indicate:`);
       console.log(`- Threshold too high (try lowering below 0.3)`);
@@ -129,17 +218,24 @@ export async function queryTopK(
     }
 
     // Map to QueryResult structure for compatibility
-    return (data || []).map((result: Record<string, unknown>) => ({
-      id: result.id,
-      score: result.similarity,
+    return fused.map(({ item: row, score }) => ({
+      id: row.id,
+      score: row.similarity,
       payload: {
-        text: result.chunk_text,
-        file_name: result.file_name,
-        metadata: result.metadata
+        text: row.chunk_text,
+        file_name: row.file_name,
+        metadata: row.metadata
       },
-      chunk_text: result.chunk_text,
-      file_name: result.file_name,
-      metadata: result.metadata
+      chunk_text: row.chunk_text,
+      document_id: row.document_id,
+      file_name: row.file_name,
+      title: row.title,
+      source_type: row.source_type,
+      source_url: row.source_url,
+      metadata: row.metadata,
+      fusionScore: score,
+      vectorRank: row.vector_rank,
+      textRank: row.text_rank
     }));
 
   } catch (error) {
@@ -171,40 +267,42 @@ export async function deleteUserDocuments(userId: string): Promise<void> {
 }
 
 /**
- * Get document statistics for a user
+ * Get document statistics for a user, or for the whole knowledge base when no user is given
  */
-export async function getUserDocumentStats(userId: string): Promise<{
-  totalDocuments: number;
-  totalChunks: number;
-  uniqueFiles: number;
-}> {
+export async function getUserDocumentStats(userId?: string): Promise<DocumentStats> {
   try {
-    // Get total chunks
-    const { count: totalChunks, error: chunksError } = await supabase
+    // Get total chunks (of the live versions; older versions are kept for rollback)
+    let chunksQuery = supabase
       .from('documents')
       .select('*', { count: 'exact', head: true })
-      .eq('user_id', userId);
+      .eq('is_active', true);
+    if (userId) chunksQuery = chunksQuery.eq('user_id', userId);
+    const { count: totalChunks, error: chunksError } = await chunksQuery;
 
     if (chunksError) throw chunksError;
 
-    // Get unique files
-    const { data: files, error: filesError } = await supabase
-      .from('documents')
-      .select('file_name')
-      .eq('user_id', userId);
-
-    if (filesError) throw filesError;
-
-    const uniqueFiles = new Set(files?.map(f => f.file_name) || []).size;
+    // Documents by status, counted in the database
+    const countDocuments = async (status: KnowledgeDocumentStatus) => {
+      let query = supabase
+        .from('knowledge_documents')
+        .select('*', { count: 'exact', head: true })
+        .eq('status', status);
+      if (userId) query = query.eq('uploaded_by', userId);
+      const { count, error } = await query;
+      if (error) throw error;
+      return count || 0;
+    };
+    const [uniqueFiles, failedDocuments] = await Promise.all([countDocuments('active'), countDocuments('failed')]);
 
     return {
       totalDocuments: uniqueFiles,
       totalChunks: totalChunks || 0,
-      uniqueFiles
+      uniqueFiles,
+      failedDocuments
     };
 
   } catch (error) {
-    console.error('Error getting user document stats:', error);
+    console.error('Error getting document stats:', error);
     throw error;
   }
 }
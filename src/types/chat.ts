@@ -0,0 +1,107 @@
+// Shared chat types used by the /api/chat route and the chat UI
+
+import type { ApiErrorBody } from '@/lib/api/errorCodes';
+
+// Each assistant answer is sent on a named channel:
+// - 'reply': the single answer returned in general mode
+// - 'generalKnowledge': wellness mode Process A (no RAG context)
+// - 'ragDocuments': wellness mode Process B (internal documents)
+export type ChatChannel = 'reply' | 'generalKnowledge' | 'ragDocuments';
+
+export type WellnessChannel = Exclude<ChatChannel, 'reply'>;
+
+// A retrieved document chunk that Process B can cite with an inline [index] marker
+export interface Citation {
+  index: number; // The number used in the [n] marker
+  document_id: string | null; // The knowledge document the chunk belongs to
+  file_name: string;
+  title?: string; // Document title; missing on citations saved before documents had titles
+  page_number: number | null;
+  chunk_id: string;
+  source_url: string | null;
+  score: number; // Similarity score from retrieval
+  chunk_text: string;
+}
+
+// Result of checking one sentence of a Process B answer against the chunks it cites
+export interface SentenceVerification {
+  sentence: string;
+  citations: number[]; // [n] markers found in the sentence
+  // 'uncited': no markers, so nothing to check (e.g. an introductory sentence)
+  status: 'supported' | 'unsupported' | 'uncited';
+  method: 'quote' | 'overlap' | 'judge' | null; // Which check decided the status
+  reason?: string; // Why an unsupported sentence was flagged
+}
+
+export interface CitationVerification {
+  sentences: SentenceVerification[];
+  unsupportedCount: number;
+}
+
+// Retrieval details returned when the request sets `debug: true`
+export interface ChatDebugInfo {
+  retrievalQuery: string; // Latest message rewritten as a standalone search query
+  subQueries: string[]; // Extra queries from query expansion, fused with the retrieval query
+}
+
+export type ChatReply = (
+  | { reply: string }
+  | {
+      generalKnowledge: string;
+      ragDocuments: string | null;
+      citations: Citation[];
+      verification?: CitationVerification; // Present when Process B produced an answer
+      debug?: ChatDebugInfo;
+      // Set when one of the two processes failed or timed out; the other half is still returned
+      errors?: Partial<Record<WellnessChannel, string>>;
+    }
+) & {
+  conversationId?: string; // Set when the turn was saved to a conversation
+};
+
+// A persisted conversation as listed in the sidebar (conversations table)
+export interface ConversationSummary {
+  id: string;
+  title: string;
+  chat_mode: 'wellness' | 'general';
+  pinned: boolean;
+  last_message_at: string;
+  created_at: string;
+}
+
+// Channel of a persisted message: a wellness answer is saved as one 'wellness' message holding both
+// processes' answers, so the conversation's history has one assistant turn per user turn
+export type StoredChannel = ChatChannel | 'wellness';
+
+// The two answers of a saved wellness message; null where that process failed
+export interface WellnessParts {
+  generalKnowledge: string | null;
+  ragDocuments: string | null;
+}
+
+// A persisted message (messages table)
+export interface StoredMessage {
+  id: string;
+  role: 'user' | 'assistant' | 'error';
+  channel: StoredChannel | null;
+  content: string; // For a wellness message, both answers under their labels
+  parts: WellnessParts | null; // Set on wellness messages
+  citations: Citation[] | null;
+  verification: CitationVerification | null;
+  created_at: string;
+}
+
+// Payloads of the Server-Sent Events emitted by /api/chat when `stream: true`
+export interface ChatStreamEvents {
+  conversation: { conversationId: string }; // Sent before `done`: the conversation this turn was saved to
+  channel_start: { channel: ChatChannel };
+  token: { channel: ChatChannel; delta: string };
+  channel_end: { channel: ChatChannel };
+  channel_error: { channel: ChatChannel; error: string };
+  citations: { citations: Citation[] }; // Sent once retrieval finishes, before Process B streams
+  verification: CitationVerification; // Sent after Process B finishes
+  done: ChatReply;
+  error: ApiErrorBody; // The request failed; no `done` follows
+}
+
+export type ChatStreamEventName = keyof ChatStreamEvents;
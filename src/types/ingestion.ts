@@ -0,0 +1,28 @@
+// Shared document ingestion job types used by the /api/documents routes and the settings page
+
+export type IngestionJobStatus = 'queued' | 'running' | 'succeeded' | 'failed' | 'cancelled';
+
+// The steps a job runs through, in order; 'done' once every step has finished
+export type IngestionStage = 'parse' | 'chunk' | 'embed' | 'insert';
+
+export interface IngestionStageProgress {
+  stage: IngestionStage;
+  status: 'pending' | 'running' | 'done' | 'failed' | 'cancelled';
+  completed?: number; // Chunks processed so far, for the embed and insert stages
+  total?: number;
+}
+
+export interface IngestionJobSummary {
+  id: string;
+  fileName: string;
+  status: IngestionJobStatus;
+  stage: IngestionStage | 'done';
+  stages: IngestionStageProgress[];
+  progress: number; // Overall, from 0 to 1
+  chunks: number | null; // Known once the chunk stage has run
+  attempts: number;
+  error: string | null;
+  createdAt: string;
+  updatedAt: string;
+  finishedAt: string | null;
+}
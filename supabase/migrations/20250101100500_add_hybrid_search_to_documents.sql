@@ -0,0 +1,77 @@
+-- Hybrid lexical + vector retrieval
+-- match_documents is pure cosine similarity and misses exact terms (names, numbers, quoted phrases).
+-- This adds a full-text index on chunk_text and an RPC that returns both the vector and the full-text
+-- candidates with their ranks, so the app can fuse them with reciprocal rank fusion.
+
+-- Full-text search vector, kept in sync with chunk_text automatically
+ALTER TABLE public.documents
+    ADD COLUMN IF NOT EXISTS fts tsvector
+    GENERATED ALWAYS AS (to_tsvector('english', chunk_text)) STORED;
+
+CREATE INDEX IF NOT EXISTS idx_documents_fts ON public.documents USING gin (fts);
+
+-- Returns up to match_count vector candidates and up to match_count full-text candidates (merged on id).
+-- vector_rank / text_rank are 1-based positions in each list, NULL when the chunk is not in that list.
+-- Query terms are OR-ed so chunks matching only some of the question's words are still candidates;
+-- ts_rank_cd (normalized by document length) scores chunks where more terms appear close together higher.
+CREATE OR REPLACE FUNCTION match_documents_hybrid(
+    query_text text,
+    query_embedding vector(1536),
+    match_count int DEFAULT 50,
+    match_threshold float DEFAULT 0.15,
+    user_filter uuid DEFAULT NULL
+)
+RETURNS TABLE (
+    id uuid,
+    user_id uuid,
+    file_name text,
+    chunk_text text,
+    metadata jsonb,
+    similarity float,
+    text_score float,
+    vector_rank int,
+    text_rank int
+)
+LANGUAGE sql
+STABLE
+AS $$
+    WITH lexical_query AS (
+        SELECT replace(plainto_tsquery('english', query_text)::text, '&', '|')::tsquery AS query
+    ),
+    vector_matches AS (
+        SELECT
+            documents.id,
+            row_number() OVER (ORDER BY documents.embedding <=> query_embedding)::int AS rank
+        FROM documents
+        WHERE
+            (user_filter IS NULL OR documents.user_id = user_filter)
+            AND 1 - (documents.embedding <=> query_embedding) > match_threshold
+        ORDER BY documents.embedding <=> query_embedding
+        LIMIT match_count
+    ),
+    text_matches AS (
+        SELECT
+            documents.id,
+            ts_rank_cd(documents.fts, lexical_query.query, 1) AS score,
+            row_number() OVER (ORDER BY ts_rank_cd(documents.fts, lexical_query.query, 1) DESC)::int AS rank
+        FROM documents, lexical_query
+        WHERE
+            (user_filter IS NULL OR documents.user_id = user_filter)
+            AND documents.fts @@ lexical_query.query
+        ORDER BY score DESC
+        LIMIT match_count
+    )
+    SELECT
+        documents.id,
+        documents.user_id,
+        documents.file_name,
+        documents.chunk_text,
+        documents.metadata,
+        1 - (documents.embedding <=> query_embedding) AS similarity,
+        COALESCE(text_matches.score, 0)::float AS text_score,
+        vector_matches.rank AS vector_rank,
+        text_matches.rank AS text_rank
+    FROM vector_matches
+    FULL OUTER JOIN text_matches ON text_matches.id = vector_matches.id
+    JOIN documents ON documents.id = COALESCE(vector_matches.id, text_matches.id);
+$$;
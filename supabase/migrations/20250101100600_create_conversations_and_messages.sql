@@ -0,0 +1,73 @@
+-- Persisted chat history
+-- A conversation belongs to one user; its messages are appended by /api/chat as turns complete.
+
+CREATE TABLE IF NOT EXISTS public.conversations (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    title TEXT NOT NULL DEFAULT 'New conversation',
+    chat_mode TEXT NOT NULL DEFAULT 'wellness' CHECK (chat_mode IN ('wellness', 'general')),
+    pinned BOOLEAN NOT NULL DEFAULT FALSE,
+    last_message_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE TABLE IF NOT EXISTS public.messages (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    conversation_id UUID NOT NULL REFERENCES public.conversations(id) ON DELETE CASCADE,
+    user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    role TEXT NOT NULL CHECK (role IN ('user', 'assistant', 'error')),
+    -- Answer channel for assistant/error messages: 'reply', 'generalKnowledge' or 'ragDocuments'
+    channel TEXT CHECK (channel IN ('reply', 'generalKnowledge', 'ragDocuments')),
+    content TEXT NOT NULL,
+    citations JSONB, -- Citation[] for Wellness Evidence answers
+    verification JSONB, -- CitationVerification for Wellness Evidence answers
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Sidebar listing: pinned first, then most recently active
+CREATE INDEX IF NOT EXISTS idx_conversations_user_activity
+    ON public.conversations(user_id, pinned DESC, last_message_at DESC);
+CREATE INDEX IF NOT EXISTS idx_messages_conversation_created
+    ON public.messages(conversation_id, created_at);
+CREATE INDEX IF NOT EXISTS idx_messages_user_id ON public.messages(user_id);
+
+CREATE TRIGGER update_conversations_updated_at
+    BEFORE UPDATE ON public.conversations
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
+
+-- Enable Row Level Security (RLS)
+ALTER TABLE public.conversations ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.messages ENABLE ROW LEVEL SECURITY;
+
+-- Users can only see and manage their own conversations
+CREATE POLICY "Users can view own conversations" ON public.conversations
+    FOR SELECT USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert own conversations" ON public.conversations
+    FOR INSERT WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update own conversations" ON public.conversations
+    FOR UPDATE USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete own conversations" ON public.conversations
+    FOR DELETE USING (auth.uid() = user_id);
+
+-- Messages: users can read their own messages and add messages to their own conversations.
+-- Messages are not edited; they are removed together with their conversation.
+CREATE POLICY "Users can view own messages" ON public.messages
+    FOR SELECT USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert messages into own conversations" ON public.messages
+    FOR INSERT WITH CHECK (
+        auth.uid() = user_id
+        AND EXISTS (
+            SELECT 1 FROM public.conversations
+            WHERE conversations.id = conversation_id
+            AND conversations.user_id = auth.uid()
+        )
+    );
+
+CREATE POLICY "Users can delete own messages" ON public.messages
+    FOR DELETE USING (auth.uid() = user_id);
@@ -0,0 +1,8 @@
+-- Rolling conversation memory
+-- Turns that no longer fit the model's context window are folded into `summary` by /api/chat.
+-- `summarized_through` is the created_at of the newest message the summary covers; later messages
+-- are sent to the model as regular history.
+
+ALTER TABLE public.conversations
+    ADD COLUMN IF NOT EXISTS summary TEXT,
+    ADD COLUMN IF NOT EXISTS summarized_through TIMESTAMP WITH TIME ZONE;
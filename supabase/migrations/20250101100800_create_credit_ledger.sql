@@ -0,0 +1,122 @@
+-- Atomic free_trial credit accounting
+-- /api/chat reserves a credit before calling the provider, then commits it once the reply is delivered
+-- or refunds it if the call fails. Every change is recorded in credit_ledger for admin audit.
+-- A reservation is one 'reserve' row; its 'commit' or 'refund' row shares the same reservation_id.
+
+CREATE TABLE IF NOT EXISTS public.credit_ledger (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    reservation_id UUID NOT NULL,
+    entry_type TEXT NOT NULL CHECK (entry_type IN ('reserve', 'commit', 'refund')),
+    delta INTEGER NOT NULL, -- Change to profiles.message_credits: -1 reserve, 0 commit, +1 refund
+    balance_after INTEGER NOT NULL,
+    details JSONB NOT NULL DEFAULT '{}'::jsonb, -- e.g. provider, model, refund reason
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_credit_ledger_user_created ON public.credit_ledger(user_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_credit_ledger_created ON public.credit_ledger(created_at DESC);
+-- One reserve row per reservation, and it can be settled (committed or refunded) only once
+CREATE UNIQUE INDEX IF NOT EXISTS idx_credit_ledger_reserve
+    ON public.credit_ledger(reservation_id) WHERE entry_type = 'reserve';
+CREATE UNIQUE INDEX IF NOT EXISTS idx_credit_ledger_settlement
+    ON public.credit_ledger(reservation_id) WHERE entry_type IN ('commit', 'refund');
+
+-- Enable Row Level Security (RLS)
+ALTER TABLE public.credit_ledger ENABLE ROW LEVEL SECURITY;
+
+-- The ledger is append-only and written only by the functions below
+CREATE POLICY "Users can view own credit ledger" ON public.credit_ledger
+    FOR SELECT USING (auth.uid() = user_id);
+
+CREATE POLICY "Admins can view all credit ledger entries" ON public.credit_ledger
+    FOR SELECT USING (
+        EXISTS (
+            SELECT 1 FROM public.profiles
+            WHERE profiles.id = auth.uid()
+            AND profiles.user_tier = 'admin'
+        )
+    );
+
+-- Takes one credit from the calling user if they have any left.
+-- Returns the reservation id, or NULL when the user is out of credits. The conditional UPDATE makes
+-- concurrent requests serialize on the profile row, so the balance can never go below zero.
+CREATE OR REPLACE FUNCTION public.reserve_message_credit(p_details JSONB DEFAULT '{}'::jsonb)
+RETURNS UUID AS $$
+DECLARE
+    v_user_id UUID := auth.uid();
+    v_balance INTEGER;
+    v_reservation_id UUID := gen_random_uuid();
+BEGIN
+    IF v_user_id IS NULL THEN
+        RAISE EXCEPTION 'Not authenticated';
+    END IF;
+
+    UPDATE public.profiles
+    SET message_credits = message_credits - 1
+    WHERE id = v_user_id AND message_credits > 0
+    RETURNING message_credits INTO v_balance;
+
+    IF NOT FOUND THEN
+        RETURN NULL;
+    END IF;
+
+    INSERT INTO public.credit_ledger (user_id, reservation_id, entry_type, delta, balance_after, details)
+    VALUES (v_user_id, v_reservation_id, 'reserve', -1, v_balance, COALESCE(p_details, '{}'::jsonb));
+
+    RETURN v_reservation_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Settles an open reservation of the calling user. 'commit' keeps the credit spent; 'refund' returns it.
+-- Returns FALSE if the reservation does not exist or was already settled.
+CREATE OR REPLACE FUNCTION public.settle_message_credit(
+    p_reservation_id UUID,
+    p_outcome TEXT,
+    p_details JSONB DEFAULT '{}'::jsonb
+)
+RETURNS BOOLEAN AS $$
+DECLARE
+    v_user_id UUID := auth.uid();
+    v_balance INTEGER;
+    v_delta INTEGER;
+BEGIN
+    IF v_user_id IS NULL THEN
+        RAISE EXCEPTION 'Not authenticated';
+    END IF;
+    IF p_outcome NOT IN ('commit', 'refund') THEN
+        RAISE EXCEPTION 'Invalid outcome: %', p_outcome;
+    END IF;
+
+    -- Lock the reservation so a concurrent commit and refund cannot both settle it
+    PERFORM 1 FROM public.credit_ledger
+    WHERE reservation_id = p_reservation_id AND user_id = v_user_id AND entry_type = 'reserve'
+    FOR UPDATE;
+    IF NOT FOUND THEN
+        RETURN FALSE;
+    END IF;
+
+    IF EXISTS (
+        SELECT 1 FROM public.credit_ledger
+        WHERE reservation_id = p_reservation_id AND entry_type IN ('commit', 'refund')
+    ) THEN
+        RETURN FALSE;
+    END IF;
+
+    v_delta := CASE WHEN p_outcome = 'refund' THEN 1 ELSE 0 END;
+    UPDATE public.profiles
+    SET message_credits = message_credits + v_delta
+    WHERE id = v_user_id
+    RETURNING message_credits INTO v_balance;
+
+    INSERT INTO public.credit_ledger (user_id, reservation_id, entry_type, delta, balance_after, details)
+    VALUES (v_user_id, p_reservation_id, p_outcome, v_delta, v_balance, COALESCE(p_details, '{}'::jsonb));
+
+    RETURN TRUE;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE ALL ON FUNCTION public.reserve_message_credit(JSONB) FROM PUBLIC, anon;
+REVOKE ALL ON FUNCTION public.settle_message_credit(UUID, TEXT, JSONB) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.reserve_message_credit(JSONB) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.settle_message_credit(UUID, TEXT, JSONB) TO authenticated;
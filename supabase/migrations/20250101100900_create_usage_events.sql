@@ -0,0 +1,106 @@
+-- Usage metering
+-- One row per provider call (chat completion, embedding, image) with tokens, estimated cost,
+-- latency and outcome. Rows are written by the server with the service role key.
+
+CREATE TABLE IF NOT EXISTS public.usage_events (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    user_id UUID REFERENCES auth.users(id) ON DELETE SET NULL, -- NULL for calls outside a user request
+    user_tier TEXT,
+    key_source TEXT NOT NULL CHECK (key_source IN ('internal', 'byok')),
+    operation TEXT NOT NULL CHECK (operation IN ('chat', 'embedding', 'image')),
+    mode TEXT, -- Chat mode ('wellness', 'general') or e.g. 'ingest'
+    purpose TEXT, -- e.g. 'generalKnowledge', 'ragDocuments', 'query_rewrite', 'retrieval'
+    provider TEXT NOT NULL,
+    model TEXT NOT NULL,
+    input_tokens INTEGER,
+    output_tokens INTEGER,
+    images INTEGER,
+    cost_usd NUMERIC(12, 6), -- Estimated from the price table in src/lib/ai/pricing.ts
+    latency_ms INTEGER NOT NULL,
+    success BOOLEAN NOT NULL,
+    error TEXT,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_usage_events_created ON public.usage_events(created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_usage_events_user_created ON public.usage_events(user_id, created_at DESC);
+
+-- Enable Row Level Security (RLS)
+ALTER TABLE public.usage_events ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own usage events" ON public.usage_events
+    FOR SELECT USING (auth.uid() = user_id);
+
+CREATE POLICY "Admins can view all usage events" ON public.usage_events
+    FOR SELECT USING (
+        EXISTS (
+            SELECT 1 FROM public.profiles
+            WHERE profiles.id = auth.uid()
+            AND profiles.user_tier = 'admin'
+        )
+    );
+
+-- Aggregated usage between two times, grouped by user, tier, key source, operation, mode, purpose,
+-- provider and model. Admins see every user; everyone else only their own usage.
+CREATE OR REPLACE FUNCTION public.get_usage_summary(
+    p_from TIMESTAMP WITH TIME ZONE,
+    p_to TIMESTAMP WITH TIME ZONE,
+    p_key_source TEXT DEFAULT NULL
+)
+RETURNS TABLE (
+    user_id UUID,
+    email TEXT,
+    user_tier TEXT,
+    key_source TEXT,
+    operation TEXT,
+    mode TEXT,
+    purpose TEXT,
+    provider TEXT,
+    model TEXT,
+    calls BIGINT,
+    failures BIGINT,
+    input_tokens BIGINT,
+    output_tokens BIGINT,
+    images BIGINT,
+    cost_usd NUMERIC,
+    avg_latency_ms NUMERIC
+) AS $$
+DECLARE
+    v_is_admin BOOLEAN;
+BEGIN
+    SELECT EXISTS (
+        SELECT 1 FROM public.profiles
+        WHERE profiles.id = auth.uid() AND profiles.user_tier = 'admin'
+    ) INTO v_is_admin;
+
+    RETURN QUERY
+    SELECT
+        e.user_id,
+        p.email,
+        e.user_tier,
+        e.key_source,
+        e.operation,
+        e.mode,
+        e.purpose,
+        e.provider,
+        e.model,
+        COUNT(*) AS calls,
+        COUNT(*) FILTER (WHERE NOT e.success) AS failures,
+        COALESCE(SUM(e.input_tokens), 0)::BIGINT AS input_tokens,
+        COALESCE(SUM(e.output_tokens), 0)::BIGINT AS output_tokens,
+        COALESCE(SUM(e.images), 0)::BIGINT AS images,
+        COALESCE(SUM(e.cost_usd), 0) AS cost_usd,
+        ROUND(AVG(e.latency_ms), 1) AS avg_latency_ms
+    FROM public.usage_events e
+    LEFT JOIN public.profiles p ON p.id = e.user_id
+    WHERE e.created_at >= p_from
+    AND e.created_at < p_to
+    AND (p_key_source IS NULL OR e.key_source = p_key_source)
+    AND (v_is_admin OR e.user_id = auth.uid())
+    GROUP BY e.user_id, p.email, e.user_tier, e.key_source, e.operation, e.mode, e.purpose, e.provider, e.model
+    ORDER BY COALESCE(SUM(e.cost_usd), 0) DESC;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;
+
+REVOKE ALL ON FUNCTION public.get_usage_summary(TIMESTAMP WITH TIME ZONE, TIMESTAMP WITH TIME ZONE, TEXT) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.get_usage_summary(TIMESTAMP WITH TIME ZONE, TIMESTAMP WITH TIME ZONE, TEXT) TO authenticated;
@@ -0,0 +1,43 @@
+-- Rate limiting
+-- Fixed-window counters shared by every server instance. Each key (e.g. 'chat:requests:60:user:<id>')
+-- has one row per window; rate_limit_hit adds to the current window and returns its total.
+-- Only the server (service role) can read or change counters.
+
+CREATE TABLE IF NOT EXISTS public.rate_limit_counters (
+    key TEXT NOT NULL,
+    window_start TIMESTAMP WITH TIME ZONE NOT NULL,
+    count BIGINT NOT NULL DEFAULT 0,
+    expires_at TIMESTAMP WITH TIME ZONE NOT NULL,
+    PRIMARY KEY (key, window_start)
+);
+
+CREATE INDEX IF NOT EXISTS idx_rate_limit_counters_expires ON public.rate_limit_counters(expires_at);
+
+-- RLS with no policies: not reachable with the anon or user keys
+ALTER TABLE public.rate_limit_counters ENABLE ROW LEVEL SECURITY;
+
+-- Adds p_amount (0 to just read) to the key's current window and returns the new total and when the
+-- window ends. The upsert is atomic, so concurrent requests are all counted.
+CREATE OR REPLACE FUNCTION public.rate_limit_hit(p_key TEXT, p_window_seconds INTEGER, p_amount BIGINT DEFAULT 1)
+RETURNS TABLE (count BIGINT, reset_at TIMESTAMP WITH TIME ZONE) AS $$
+#variable_conflict use_column
+DECLARE
+    v_window_start TIMESTAMP WITH TIME ZONE :=
+        to_timestamp(floor(extract(epoch FROM NOW()) / p_window_seconds) * p_window_seconds);
+    v_reset_at TIMESTAMP WITH TIME ZONE := v_window_start + make_interval(secs => p_window_seconds);
+BEGIN
+    -- Occasionally clear out expired windows
+    IF random() < 0.01 THEN
+        DELETE FROM public.rate_limit_counters c WHERE c.expires_at < NOW();
+    END IF;
+
+    RETURN QUERY
+    INSERT INTO public.rate_limit_counters AS c (key, window_start, count, expires_at)
+    VALUES (p_key, v_window_start, p_amount, v_reset_at)
+    ON CONFLICT (key, window_start) DO UPDATE SET count = c.count + EXCLUDED.count
+    RETURNING c.count, c.expires_at;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE ALL ON FUNCTION public.rate_limit_hit(TEXT, INTEGER, BIGINT) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.rate_limit_hit(TEXT, INTEGER, BIGINT) TO service_role;
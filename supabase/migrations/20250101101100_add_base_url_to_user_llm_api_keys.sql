@@ -0,0 +1,17 @@
+-- Custom endpoints for BYOK keys
+-- A key can carry the base URL of the endpoint it belongs to: an OpenAI-compatible server for the
+-- 'local' provider (required there), or a proxy in front of OpenAI or Anthropic. NULL means the
+-- provider's default endpoint.
+
+ALTER TABLE IF EXISTS public.user_llm_api_keys
+    ADD COLUMN IF NOT EXISTS base_url TEXT;
+
+ALTER TABLE IF EXISTS public.user_llm_api_keys
+    DROP CONSTRAINT IF EXISTS user_llm_api_keys_base_url_http;
+
+ALTER TABLE IF EXISTS public.user_llm_api_keys
+    ADD CONSTRAINT user_llm_api_keys_base_url_http
+    CHECK (base_url IS NULL OR base_url ~* '^https?://');
+
+COMMENT ON COLUMN public.user_llm_api_keys.base_url IS
+    'Endpoint for this key (OpenAI-compatible base URL); NULL for the provider default. Required for provider = ''local''.';
@@ -0,0 +1,18 @@
+-- Embedding cache
+-- One row per (model, text) pair embedded, keyed by the SHA-256 of the exact text sent to the model,
+-- so re-ingesting an unchanged document or repeating a query reuses the stored vector instead of
+-- calling the embedding API again. `model` includes the provider, e.g. 'openai:text-embedding-3-small'.
+-- Vectors are stored as they go into documents.embedding (padded to 1536 dimensions).
+-- Rows are never invalid (the same text always gets the same vector from the same model), so the table
+-- can be truncated at any time to reclaim space. Only the server (service role) reads and writes it.
+
+CREATE TABLE IF NOT EXISTS public.embedding_cache (
+    model TEXT NOT NULL,
+    content_hash TEXT NOT NULL,
+    embedding VECTOR(1536) NOT NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    PRIMARY KEY (model, content_hash)
+);
+
+-- RLS with no policies: not reachable with the anon or user keys
+ALTER TABLE public.embedding_cache ENABLE ROW LEVEL SECURITY;
@@ -0,0 +1,72 @@
+-- Document ingestion jobs
+-- An upload is stored in the private 'ingestion-uploads' bucket and queued as a job; a worker
+-- (src/lib/ingestion/worker.ts) then runs it in resumable steps: parse -> chunk -> embed -> insert.
+-- Each step saves its output and progress on the row, so a job interrupted by a timeout carries on
+-- from where it stopped. Jobs are created and advanced by the server with the service role key.
+
+CREATE TABLE IF NOT EXISTS public.ingestion_jobs (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+    file_name TEXT NOT NULL,
+    mime_type TEXT NOT NULL,
+    file_size BIGINT,
+    storage_path TEXT, -- The uploaded file in 'ingestion-uploads'; NULL once the job has succeeded
+    status TEXT NOT NULL DEFAULT 'queued' CHECK (status IN ('queued', 'running', 'succeeded', 'failed', 'cancelled')),
+    stage TEXT NOT NULL DEFAULT 'parse' CHECK (stage IN ('parse', 'chunk', 'embed', 'insert', 'done')),
+    extracted_text TEXT, -- Output of the parse stage
+    chunks JSONB, -- Output of the chunk stage: [{ text, metadata }]; cleared once the job has succeeded
+    chunks_total INTEGER,
+    chunks_embedded INTEGER NOT NULL DEFAULT 0,
+    chunks_inserted INTEGER NOT NULL DEFAULT 0,
+    attempts INTEGER NOT NULL DEFAULT 0, -- Times the job has been started or retried
+    error TEXT,
+    locked_until TIMESTAMP WITH TIME ZONE, -- Lease held by the worker running the job
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    started_at TIMESTAMP WITH TIME ZONE,
+    finished_at TIMESTAMP WITH TIME ZONE
+);
+
+CREATE INDEX IF NOT EXISTS idx_ingestion_jobs_status_created ON public.ingestion_jobs(status, created_at);
+CREATE INDEX IF NOT EXISTS idx_ingestion_jobs_created ON public.ingestion_jobs(created_at DESC);
+
+-- Enable Row Level Security (RLS)
+ALTER TABLE public.ingestion_jobs ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can view ingestion jobs" ON public.ingestion_jobs
+    FOR SELECT USING (
+        EXISTS (
+            SELECT 1 FROM public.profiles
+            WHERE profiles.id = auth.uid()
+            AND profiles.user_tier = 'admin'
+        )
+    );
+
+-- Private bucket for uploaded files waiting to be ingested (service role only)
+INSERT INTO storage.buckets (id, name, public)
+VALUES ('ingestion-uploads', 'ingestion-uploads', false)
+ON CONFLICT (id) DO NOTHING;
+
+-- Claims a job for a worker: the given job, or the oldest one waiting when p_job_id is NULL. Queued
+-- jobs are claimable, and so are running jobs whose worker's lease has expired. Returns no row when
+-- there is nothing to claim. SKIP LOCKED keeps two workers from claiming the same job.
+CREATE OR REPLACE FUNCTION public.claim_ingestion_job(p_job_id UUID DEFAULT NULL, p_lease_seconds INTEGER DEFAULT 120)
+RETURNS SETOF public.ingestion_jobs AS $$
+    UPDATE public.ingestion_jobs j
+    SET status = 'running',
+        locked_until = NOW() + make_interval(secs => p_lease_seconds),
+        started_at = COALESCE(j.started_at, NOW()),
+        updated_at = NOW()
+    WHERE j.id = (
+        SELECT c.id FROM public.ingestion_jobs c
+        WHERE (p_job_id IS NULL OR c.id = p_job_id)
+        AND (c.status = 'queued' OR (c.status = 'running' AND c.locked_until < NOW()))
+        ORDER BY c.created_at
+        LIMIT 1
+        FOR UPDATE SKIP LOCKED
+    )
+    RETURNING j.*;
+$$ LANGUAGE sql SECURITY DEFINER SET search_path = public;
+
+REVOKE ALL ON FUNCTION public.claim_ingestion_job(UUID, INTEGER) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.claim_ingestion_job(UUID, INTEGER) TO service_role;
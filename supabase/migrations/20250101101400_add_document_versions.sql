@@ -0,0 +1,235 @@
+-- Document versions
+-- Each ingestion of a document (by file_name) writes its chunks under a new document_versions row.
+-- The chunks stay inactive (documents.is_active = false) until every one is inserted; then
+-- activate_document_version swaps them in and the previous version's out in one transaction, so
+-- retrieval never sees a half-written or missing document. Earlier versions keep their chunks for
+-- rollback (restoring is the same swap), up to the newest p_keep versions per document.
+
+CREATE TABLE IF NOT EXISTS public.document_versions (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    file_name TEXT NOT NULL,
+    version INTEGER NOT NULL,
+    status TEXT NOT NULL DEFAULT 'building' CHECK (status IN ('building', 'active', 'superseded', 'failed')),
+    original_text TEXT NOT NULL,
+    chunk_count INTEGER NOT NULL DEFAULT 0,
+    created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    activated_at TIMESTAMP WITH TIME ZONE, -- Last time the version was made active
+    UNIQUE (file_name, version)
+);
+
+-- At most one active version per document
+CREATE UNIQUE INDEX IF NOT EXISTS idx_document_versions_active ON public.document_versions(file_name) WHERE status = 'active';
+
+ALTER TABLE public.documents
+    ADD COLUMN IF NOT EXISTS version_id UUID REFERENCES public.document_versions(id) ON DELETE CASCADE,
+    ADD COLUMN IF NOT EXISTS is_active BOOLEAN NOT NULL DEFAULT true;
+
+CREATE INDEX IF NOT EXISTS idx_documents_version_id ON public.documents(version_id);
+
+-- Existing chunks become version 1 of their document
+INSERT INTO public.document_versions (file_name, version, status, original_text, chunk_count, created_by, created_at, activated_at)
+SELECT
+    file_name,
+    1,
+    'active',
+    (array_agg(original_text ORDER BY created_at DESC))[1],
+    COUNT(*),
+    (array_agg(user_id ORDER BY created_at DESC))[1],
+    MIN(created_at),
+    MIN(created_at)
+FROM public.documents
+WHERE version_id IS NULL
+GROUP BY file_name
+ON CONFLICT (file_name, version) DO NOTHING;
+
+UPDATE public.documents
+SET version_id = document_versions.id
+FROM public.document_versions
+WHERE documents.version_id IS NULL AND document_versions.file_name = documents.file_name AND document_versions.version = 1;
+
+-- New chunks wait for their version to be activated
+ALTER TABLE public.documents ALTER COLUMN is_active SET DEFAULT false;
+
+-- Enable Row Level Security (RLS)
+ALTER TABLE public.document_versions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can view document versions" ON public.document_versions
+    FOR SELECT USING (
+        EXISTS (
+            SELECT 1 FROM public.profiles
+            WHERE profiles.id = auth.uid()
+            AND profiles.user_tier = 'admin'
+        )
+    );
+
+-- Starts a new version of a document (status 'building'), numbered after its latest version
+CREATE OR REPLACE FUNCTION public.create_document_version(p_file_name TEXT, p_original_text TEXT, p_created_by UUID)
+RETURNS public.document_versions AS $$
+    INSERT INTO public.document_versions (file_name, version, original_text, created_by)
+    SELECT p_file_name, COALESCE(MAX(v.version), 0) + 1, p_original_text, p_created_by
+    FROM public.document_versions v
+    WHERE v.file_name = p_file_name
+    RETURNING *;
+$$ LANGUAGE sql SECURITY DEFINER SET search_path = public;
+
+-- Makes a version the document's active one: its chunks are switched on and every other version's
+-- off, in one transaction. Used both to publish a freshly built version and to restore an old one.
+-- Versions beyond the newest p_keep (other than the active one) are deleted with their chunks.
+-- Callable by the service role and by admins.
+CREATE OR REPLACE FUNCTION public.activate_document_version(p_version_id UUID, p_keep INTEGER DEFAULT 5)
+RETURNS public.document_versions AS $$
+DECLARE
+    v_target public.document_versions;
+BEGIN
+    IF auth.role() IS DISTINCT FROM 'service_role' AND NOT EXISTS (
+        SELECT 1 FROM public.profiles WHERE profiles.id = auth.uid() AND profiles.user_tier = 'admin'
+    ) THEN
+        RAISE EXCEPTION 'Only admins can activate document versions' USING ERRCODE = '42501';
+    END IF;
+
+    SELECT * INTO v_target FROM public.document_versions WHERE id = p_version_id;
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Document version % not found', p_version_id USING ERRCODE = 'P0002';
+    END IF;
+    IF v_target.status = 'failed' THEN
+        RAISE EXCEPTION 'Document version % failed and cannot be activated', p_version_id USING ERRCODE = '22023';
+    END IF;
+
+    -- Serialise swaps of the same document
+    PERFORM 1 FROM public.document_versions WHERE file_name = v_target.file_name FOR UPDATE;
+
+    UPDATE public.documents
+    SET is_active = (version_id = p_version_id)
+    WHERE version_id IN (SELECT id FROM public.document_versions WHERE file_name = v_target.file_name)
+    AND is_active IS DISTINCT FROM (version_id = p_version_id);
+
+    UPDATE public.document_versions
+    SET status = 'superseded'
+    WHERE file_name = v_target.file_name AND status = 'active' AND id <> p_version_id;
+
+    UPDATE public.document_versions
+    SET status = 'active',
+        activated_at = NOW(),
+        chunk_count = (SELECT COUNT(*) FROM public.documents WHERE version_id = p_version_id)
+    WHERE id = p_version_id
+    RETURNING * INTO v_target;
+
+    DELETE FROM public.document_versions
+    WHERE file_name = v_target.file_name
+    AND id <> p_version_id
+    AND id NOT IN (
+        SELECT id FROM public.document_versions
+        WHERE file_name = v_target.file_name
+        ORDER BY version DESC
+        LIMIT p_keep
+    );
+
+    RETURN v_target;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE ALL ON FUNCTION public.create_document_version(TEXT, TEXT, UUID) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.create_document_version(TEXT, TEXT, UUID) TO service_role;
+REVOKE ALL ON FUNCTION public.activate_document_version(UUID, INTEGER) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.activate_document_version(UUID, INTEGER) TO authenticated, service_role;
+
+-- Retrieval only searches active chunks
+CREATE OR REPLACE FUNCTION match_documents(
+    query_embedding vector(1536),
+    match_threshold float DEFAULT 0.78,
+    match_count int DEFAULT 5,
+    user_filter uuid DEFAULT NULL
+)
+RETURNS TABLE (
+    id uuid,
+    user_id uuid,
+    file_name text,
+    chunk_text text,
+    metadata jsonb,
+    similarity float
+)
+LANGUAGE plpgsql
+AS $$
+BEGIN
+    RETURN QUERY
+    SELECT
+        documents.id,
+        documents.user_id,
+        documents.file_name,
+        documents.chunk_text,
+        documents.metadata,
+        1 - (documents.embedding <=> query_embedding) AS similarity
+    FROM documents
+    WHERE
+        documents.is_active
+        AND (user_filter IS NULL OR documents.user_id = user_filter)
+        AND 1 - (documents.embedding <=> query_embedding) > match_threshold
+    ORDER BY documents.embedding <=> query_embedding
+    LIMIT match_count;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION match_documents_hybrid(
+    query_text text,
+    query_embedding vector(1536),
+    match_count int DEFAULT 50,
+    match_threshold float DEFAULT 0.15,
+    user_filter uuid DEFAULT NULL
+)
+RETURNS TABLE (
+    id uuid,
+    user_id uuid,
+    file_name text,
+    chunk_text text,
+    metadata jsonb,
+    similarity float,
+    text_score float,
+    vector_rank int,
+    text_rank int
+)
+LANGUAGE sql
+STABLE
+AS $$
+    WITH lexical_query AS (
+        SELECT replace(plainto_tsquery('english', query_text)::text, '&', '|')::tsquery AS query
+    ),
+    vector_matches AS (
+        SELECT
+            documents.id,
+            row_number() OVER (ORDER BY documents.embedding <=> query_embedding)::int AS rank
+        FROM documents
+        WHERE
+            documents.is_active
+            AND (user_filter IS NULL OR documents.user_id = user_filter)
+            AND 1 - (documents.embedding <=> query_embedding) > match_threshold
+        ORDER BY documents.embedding <=> query_embedding
+        LIMIT match_count
+    ),
+    text_matches AS (
+        SELECT
+            documents.id,
+            ts_rank_cd(documents.fts, lexical_query.query, 1) AS score,
+            row_number() OVER (ORDER BY ts_rank_cd(documents.fts, lexical_query.query, 1) DESC)::int AS rank
+        FROM documents, lexical_query
+        WHERE
+            documents.is_active
+            AND (user_filter IS NULL OR documents.user_id = user_filter)
+            AND documents.fts @@ lexical_query.query
+        ORDER BY score DESC
+        LIMIT match_count
+    )
+    SELECT
+        documents.id,
+        documents.user_id,
+        documents.file_name,
+        documents.chunk_text,
+        documents.metadata,
+        1 - (documents.embedding <=> query_embedding) AS similarity,
+        COALESCE(text_matches.score, 0)::float AS text_score,
+        vector_matches.rank AS vector_rank,
+        text_matches.rank AS text_rank
+    FROM vector_matches
+    FULL OUTER JOIN text_matches ON text_matches.id = vector_matches.id
+    JOIN documents ON documents.id = COALESCE(vector_matches.id, text_matches.id);
+$$;
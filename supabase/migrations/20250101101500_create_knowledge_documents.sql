@@ -0,0 +1,348 @@
+-- Knowledge documents
+-- One knowledge_documents row per document in the shared knowledge base (title, source, checksum,
+-- page count, uploader, tags, status). documents rows become its chunks (document_id), and versions
+-- belong to it instead of being matched by file_name. The full text, previously repeated on every
+-- chunk as original_text, is kept once per version in document_versions.
+-- file_name stays the document's identity: uploading a file with the same name (or re-adding the same
+-- URL) creates a new version of the same document.
+
+CREATE TABLE IF NOT EXISTS public.knowledge_documents (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    file_name TEXT NOT NULL UNIQUE,
+    title TEXT NOT NULL,
+    source_type TEXT NOT NULL DEFAULT 'file' CHECK (source_type IN ('file', 'url')),
+    source_url TEXT,
+    checksum TEXT, -- SHA-256 of the active version's text
+    page_count INTEGER,
+    uploaded_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+    tags TEXT[] NOT NULL DEFAULT '{}',
+    -- 'processing' until the first version is live; 'failed' if it never went live
+    status TEXT NOT NULL DEFAULT 'processing' CHECK (status IN ('processing', 'active', 'failed')),
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_knowledge_documents_created ON public.knowledge_documents(created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_knowledge_documents_tags ON public.knowledge_documents USING gin (tags);
+
+CREATE TRIGGER update_knowledge_documents_updated_at
+    BEFORE UPDATE ON public.knowledge_documents
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
+
+ALTER TABLE public.document_versions
+    ADD COLUMN IF NOT EXISTS document_id UUID REFERENCES public.knowledge_documents(id) ON DELETE CASCADE,
+    ADD COLUMN IF NOT EXISTS checksum TEXT,
+    ADD COLUMN IF NOT EXISTS page_count INTEGER;
+
+ALTER TABLE public.documents
+    ADD COLUMN IF NOT EXISTS document_id UUID REFERENCES public.knowledge_documents(id) ON DELETE CASCADE;
+
+-- Migrate existing documents: one knowledge document per file_name, described by its latest version
+-- and one of that version's chunks (URL uploads carry their title and URL in chunk metadata)
+UPDATE public.document_versions
+SET checksum = encode(sha256(convert_to(original_text, 'UTF8')), 'hex')
+WHERE checksum IS NULL;
+
+INSERT INTO public.knowledge_documents (file_name, title, source_type, source_url, checksum, uploaded_by, status, created_at)
+SELECT DISTINCT ON (v.file_name)
+    v.file_name,
+    COALESCE(NULLIF(chunk.metadata->>'title', ''), v.file_name),
+    CASE WHEN chunk.metadata->>'source_type' = 'url' THEN 'url' ELSE 'file' END,
+    chunk.metadata->>'source_url',
+    v.checksum,
+    first_version.created_by,
+    CASE WHEN EXISTS (
+        SELECT 1 FROM public.document_versions a WHERE a.file_name = v.file_name AND a.status = 'active'
+    ) THEN 'active' ELSE 'failed' END,
+    first_version.created_at
+FROM public.document_versions v
+JOIN LATERAL (
+    SELECT created_by, created_at FROM public.document_versions f
+    WHERE f.file_name = v.file_name ORDER BY f.version LIMIT 1
+) first_version ON true
+LEFT JOIN LATERAL (
+    SELECT d.metadata FROM public.documents d WHERE d.version_id = v.id LIMIT 1
+) chunk ON true
+ORDER BY v.file_name, (v.status = 'active') DESC, v.version DESC
+ON CONFLICT (file_name) DO NOTHING;
+
+UPDATE public.document_versions
+SET document_id = knowledge_documents.id
+FROM public.knowledge_documents
+WHERE document_versions.document_id IS NULL AND knowledge_documents.file_name = document_versions.file_name;
+
+UPDATE public.documents
+SET document_id = document_versions.document_id
+FROM public.document_versions
+WHERE documents.document_id IS NULL AND document_versions.id = documents.version_id;
+
+-- URL documents were named "<title> (<url>)"; the URL alone identifies them now (the latest document
+-- of each URL takes it)
+UPDATE public.knowledge_documents
+SET file_name = renamed.source_url
+FROM (
+    SELECT DISTINCT ON (source_url) id, source_url
+    FROM public.knowledge_documents
+    WHERE source_type = 'url' AND source_url IS NOT NULL
+    ORDER BY source_url, created_at DESC
+) renamed
+WHERE knowledge_documents.id = renamed.id
+AND NOT EXISTS (SELECT 1 FROM public.knowledge_documents other WHERE other.file_name = renamed.source_url);
+
+-- Stop before any column is dropped if the backfill left a version or chunk without its document
+DO $$
+DECLARE
+    v_versions BIGINT;
+    v_chunks BIGINT;
+BEGIN
+    SELECT COUNT(*) INTO v_versions FROM public.document_versions WHERE document_id IS NULL;
+    SELECT COUNT(*) INTO v_chunks FROM public.documents WHERE document_id IS NULL OR version_id IS NULL;
+    IF v_versions > 0 OR v_chunks > 0 THEN
+        RAISE EXCEPTION 'Knowledge document backfill incomplete: % versions and % chunks have no document; file_name and original_text were not dropped', v_versions, v_chunks;
+    END IF;
+END $$;
+
+-- Versions are numbered per document now, and file_name lives on the document
+DROP INDEX IF EXISTS public.idx_document_versions_active;
+ALTER TABLE public.document_versions DROP CONSTRAINT IF EXISTS document_versions_file_name_version_key;
+ALTER TABLE public.document_versions ALTER COLUMN document_id SET NOT NULL;
+ALTER TABLE public.document_versions ADD CONSTRAINT document_versions_document_id_version_key UNIQUE (document_id, version);
+CREATE UNIQUE INDEX IF NOT EXISTS idx_document_versions_active ON public.document_versions(document_id) WHERE status = 'active';
+ALTER TABLE public.document_versions DROP COLUMN IF EXISTS file_name;
+
+-- Chunks no longer repeat the document's name and full text
+ALTER TABLE public.documents ALTER COLUMN document_id SET NOT NULL;
+ALTER TABLE public.documents ALTER COLUMN version_id SET NOT NULL;
+ALTER TABLE public.documents DROP COLUMN IF EXISTS original_text;
+ALTER TABLE public.documents DROP COLUMN IF EXISTS file_name;
+CREATE INDEX IF NOT EXISTS idx_documents_document_id ON public.documents(document_id);
+
+-- Enable Row Level Security (RLS), with the same rules as documents: everyone signed in can read the
+-- shared knowledge base, only admins can change it
+ALTER TABLE public.knowledge_documents ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "All authenticated users can view knowledge documents" ON public.knowledge_documents
+    FOR SELECT USING (auth.uid() IS NOT NULL);
+
+CREATE POLICY "Only admins can insert knowledge documents" ON public.knowledge_documents
+    FOR INSERT WITH CHECK (
+        EXISTS (SELECT 1 FROM public.profiles WHERE profiles.id = auth.uid() AND profiles.user_tier = 'admin')
+    );
+
+CREATE POLICY "Only admins can update knowledge documents" ON public.knowledge_documents
+    FOR UPDATE USING (
+        EXISTS (SELECT 1 FROM public.profiles WHERE profiles.id = auth.uid() AND profiles.user_tier = 'admin')
+    );
+
+CREATE POLICY "Only admins can delete knowledge documents" ON public.knowledge_documents
+    FOR DELETE USING (
+        EXISTS (SELECT 1 FROM public.profiles WHERE profiles.id = auth.uid() AND profiles.user_tier = 'admin')
+    );
+
+-- Version functions, keyed by document
+DROP FUNCTION IF EXISTS public.create_document_version(TEXT, TEXT, UUID);
+
+CREATE OR REPLACE FUNCTION public.create_document_version(
+    p_document_id UUID,
+    p_original_text TEXT,
+    p_page_count INTEGER,
+    p_created_by UUID
+)
+RETURNS public.document_versions AS $$
+    INSERT INTO public.document_versions (document_id, version, original_text, checksum, page_count, created_by)
+    SELECT
+        p_document_id,
+        COALESCE(MAX(v.version), 0) + 1,
+        p_original_text,
+        encode(sha256(convert_to(p_original_text, 'UTF8')), 'hex'),
+        p_page_count,
+        p_created_by
+    FROM public.document_versions v
+    WHERE v.document_id = p_document_id
+    RETURNING *;
+$$ LANGUAGE sql SECURITY DEFINER SET search_path = public;
+
+REVOKE ALL ON FUNCTION public.create_document_version(UUID, TEXT, INTEGER, UUID) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.create_document_version(UUID, TEXT, INTEGER, UUID) TO service_role;
+
+-- As before, and the document takes the activated version's checksum and page count
+CREATE OR REPLACE FUNCTION public.activate_document_version(p_version_id UUID, p_keep INTEGER DEFAULT 5)
+RETURNS public.document_versions AS $$
+DECLARE
+    v_target public.document_versions;
+BEGIN
+    IF auth.role() IS DISTINCT FROM 'service_role' AND NOT EXISTS (
+        SELECT 1 FROM public.profiles WHERE profiles.id = auth.uid() AND profiles.user_tier = 'admin'
+    ) THEN
+        RAISE EXCEPTION 'Only admins can activate document versions' USING ERRCODE = '42501';
+    END IF;
+
+    SELECT * INTO v_target FROM public.document_versions WHERE id = p_version_id;
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Document version % not found', p_version_id USING ERRCODE = 'P0002';
+    END IF;
+    IF v_target.status = 'failed' THEN
+        RAISE EXCEPTION 'Document version % failed and cannot be activated', p_version_id USING ERRCODE = '22023';
+    END IF;
+
+    -- Serialise swaps of the same document
+    PERFORM 1 FROM public.knowledge_documents WHERE id = v_target.document_id FOR UPDATE;
+
+    UPDATE public.documents
+    SET is_active = (version_id = p_version_id)
+    WHERE document_id = v_target.document_id
+    AND is_active IS DISTINCT FROM (version_id = p_version_id);
+
+    UPDATE public.document_versions
+    SET status = 'superseded'
+    WHERE document_id = v_target.document_id AND status = 'active' AND id <> p_version_id;
+
+    UPDATE public.document_versions
+    SET status = 'active',
+        activated_at = NOW(),
+        chunk_count = (SELECT COUNT(*) FROM public.documents WHERE version_id = p_version_id)
+    WHERE id = p_version_id
+    RETURNING * INTO v_target;
+
+    UPDATE public.knowledge_documents
+    SET status = 'active', checksum = v_target.checksum, page_count = v_target.page_count
+    WHERE id = v_target.document_id;
+
+    DELETE FROM public.document_versions
+    WHERE document_id = v_target.document_id
+    AND id <> p_version_id
+    AND id NOT IN (
+        SELECT id FROM public.document_versions
+        WHERE document_id = v_target.document_id
+        ORDER BY version DESC
+        LIMIT p_keep
+    );
+
+    RETURN v_target;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Retrieval returns each chunk's document: id, file name, title and source
+DROP FUNCTION IF EXISTS match_documents(vector, float, int, uuid);
+DROP FUNCTION IF EXISTS match_documents_hybrid(text, vector, int, float, uuid);
+
+CREATE OR REPLACE FUNCTION match_documents(
+    query_embedding vector(1536),
+    match_threshold float DEFAULT 0.78,
+    match_count int DEFAULT 5,
+    user_filter uuid DEFAULT NULL
+)
+RETURNS TABLE (
+    id uuid,
+    user_id uuid,
+    document_id uuid,
+    file_name text,
+    title text,
+    source_type text,
+    source_url text,
+    chunk_text text,
+    metadata jsonb,
+    similarity float
+)
+LANGUAGE plpgsql
+AS $$
+BEGIN
+    RETURN QUERY
+    SELECT
+        documents.id,
+        documents.user_id,
+        documents.document_id,
+        knowledge_documents.file_name,
+        knowledge_documents.title,
+        knowledge_documents.source_type,
+        knowledge_documents.source_url,
+        documents.chunk_text,
+        documents.metadata,
+        1 - (documents.embedding <=> query_embedding) AS similarity
+    FROM documents
+    JOIN knowledge_documents ON knowledge_documents.id = documents.document_id
+    WHERE
+        documents.is_active
+        AND (user_filter IS NULL OR documents.user_id = user_filter)
+        AND 1 - (documents.embedding <=> query_embedding) > match_threshold
+    ORDER BY documents.embedding <=> query_embedding
+    LIMIT match_count;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION match_documents_hybrid(
+    query_text text,
+    query_embedding vector(1536),
+    match_count int DEFAULT 50,
+    match_threshold float DEFAULT 0.15,
+    user_filter uuid DEFAULT NULL
+)
+RETURNS TABLE (
+    id uuid,
+    user_id uuid,
+    document_id uuid,
+    file_name text,
+    title text,
+    source_type text,
+    source_url text,
+    chunk_text text,
+    metadata jsonb,
+    similarity float,
+    text_score float,
+    vector_rank int,
+    text_rank int
+)
+LANGUAGE sql
+STABLE
+AS $$
+    WITH lexical_query AS (
+        SELECT replace(plainto_tsquery('english', query_text)::text, '&', '|')::tsquery AS query
+    ),
+    vector_matches AS (
+        SELECT
+            documents.id,
+            row_number() OVER (ORDER BY documents.embedding <=> query_embedding)::int AS rank
+        FROM documents
+        WHERE
+            documents.is_active
+            AND (user_filter IS NULL OR documents.user_id = user_filter)
+            AND 1 - (documents.embedding <=> query_embedding) > match_threshold
+        ORDER BY documents.embedding <=> query_embedding
+        LIMIT match_count
+    ),
+    text_matches AS (
+        SELECT
+            documents.id,
+            ts_rank_cd(documents.fts, lexical_query.query, 1) AS score,
+            row_number() OVER (ORDER BY ts_rank_cd(documents.fts, lexical_query.query, 1) DESC)::int AS rank
+        FROM documents, lexical_query
+        WHERE
+            documents.is_active
+            AND (user_filter IS NULL OR documents.user_id = user_filter)
+            AND documents.fts @@ lexical_query.query
+        ORDER BY score DESC
+        LIMIT match_count
+    )
+    SELECT
+        documents.id,
+        documents.user_id,
+        documents.document_id,
+        knowledge_documents.file_name,
+        knowledge_documents.title,
+        knowledge_documents.source_type,
+        knowledge_documents.source_url,
+        documents.chunk_text,
+        documents.metadata,
+        1 - (documents.embedding <=> query_embedding) AS similarity,
+        COALESCE(text_matches.score, 0)::float AS text_score,
+        vector_matches.rank AS vector_rank,
+        text_matches.rank AS text_rank
+    FROM vector_matches
+    FULL OUTER JOIN text_matches ON text_matches.id = vector_matches.id
+    JOIN documents ON documents.id = COALESCE(vector_matches.id, text_matches.id)
+    JOIN knowledge_documents ON knowledge_documents.id = documents.document_id;
+$$;
+
+-- Page count of the ingestion job's file, known after the parse stage
+ALTER TABLE public.ingestion_jobs ADD COLUMN IF NOT EXISTS page_count INTEGER;
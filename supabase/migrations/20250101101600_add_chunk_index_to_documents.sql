@@ -0,0 +1,15 @@
+-- Position of each chunk in its document version, so a document's chunks can be listed in order
+-- (chunks of a version are inserted in batches that share created_at)
+
+ALTER TABLE public.documents ADD COLUMN IF NOT EXISTS chunk_index INTEGER;
+
+-- Existing chunks: insertion order within their version
+UPDATE public.documents
+SET chunk_index = numbered.chunk_index
+FROM (
+    SELECT id, (row_number() OVER (PARTITION BY version_id ORDER BY created_at, id) - 1)::int AS chunk_index
+    FROM public.documents
+) numbered
+WHERE documents.id = numbered.id AND documents.chunk_index IS NULL;
+
+CREATE INDEX IF NOT EXISTS idx_documents_version_chunk ON public.documents(version_id, chunk_index);
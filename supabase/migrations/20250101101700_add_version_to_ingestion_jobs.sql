@@ -0,0 +1,36 @@
+-- The insert stage of an ingestion job writes its document version in steps: the version is started
+-- once, its chunks are stored a batch per step, and it is activated in a last step. The job keeps the
+-- version it is building so a paused or retried job carries on with the same one.
+
+ALTER TABLE public.ingestion_jobs
+    ADD COLUMN IF NOT EXISTS version_id UUID REFERENCES public.document_versions(id) ON DELETE SET NULL;
+
+-- Activates the version a job built, but only while the job is still running under the caller's
+-- lease. The job row is locked first, so a cancel that lands at the same time either waits for the
+-- activation or is seen by it; a cancelled job never publishes its version.
+CREATE OR REPLACE FUNCTION public.activate_ingestion_job_version(
+    p_job_id UUID,
+    p_locked_until TIMESTAMP WITH TIME ZONE,
+    p_keep INTEGER DEFAULT 5
+)
+RETURNS public.document_versions AS $$
+DECLARE
+    v_job public.ingestion_jobs;
+BEGIN
+    SELECT * INTO v_job FROM public.ingestion_jobs WHERE id = p_job_id FOR UPDATE;
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Ingestion job % not found', p_job_id USING ERRCODE = 'P0002';
+    END IF;
+    IF v_job.status <> 'running' OR v_job.locked_until IS DISTINCT FROM p_locked_until THEN
+        RAISE EXCEPTION 'Ingestion job % is no longer running under this lease', p_job_id USING ERRCODE = '55000';
+    END IF;
+    IF v_job.version_id IS NULL THEN
+        RAISE EXCEPTION 'Ingestion job % has no version to activate', p_job_id USING ERRCODE = '22023';
+    END IF;
+
+    RETURN public.activate_document_version(v_job.version_id, p_keep);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE ALL ON FUNCTION public.activate_ingestion_job_version(UUID, TIMESTAMP WITH TIME ZONE, INTEGER) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.activate_ingestion_job_version(UUID, TIMESTAMP WITH TIME ZONE, INTEGER) TO service_role;
@@ -0,0 +1,32 @@
+-- Content search for the admin knowledge base browser: documents whose live chunks match a web-style
+-- search, one row per document, newest first. The page is cut in the database and every row carries
+-- the total number of matching documents, so a search matching thousands of chunks returns one page.
+
+CREATE OR REPLACE FUNCTION public.search_knowledge_documents(
+    p_query TEXT,
+    p_limit INTEGER DEFAULT 25,
+    p_offset INTEGER DEFAULT 0
+)
+RETURNS TABLE (
+    document_id UUID,
+    total_count BIGINT
+)
+LANGUAGE sql
+STABLE
+AS $$
+    SELECT
+        matches.document_id,
+        COUNT(*) OVER () AS total_count
+    FROM (
+        SELECT documents.document_id
+        FROM public.documents
+        WHERE
+            documents.is_active
+            AND documents.fts @@ websearch_to_tsquery('english', p_query)
+        GROUP BY documents.document_id
+    ) matches
+    JOIN public.knowledge_documents ON knowledge_documents.id = matches.document_id
+    ORDER BY knowledge_documents.created_at DESC, knowledge_documents.id
+    LIMIT p_limit
+    OFFSET p_offset;
+$$;
@@ -0,0 +1,10 @@
+-- A wellness answer is saved as one assistant message (channel 'wellness') instead of one message per
+-- process, so a conversation's history alternates between user and assistant turns. Its content holds
+-- both answers under their labels, as the model sees them in history; `parts` keeps them apart for the
+-- chat UI, which renders each in its own panel.
+
+ALTER TABLE public.messages DROP CONSTRAINT IF EXISTS messages_channel_check;
+ALTER TABLE public.messages
+    ADD CONSTRAINT messages_channel_check CHECK (channel IN ('reply', 'generalKnowledge', 'ragDocuments', 'wellness'));
+
+ALTER TABLE public.messages ADD COLUMN IF NOT EXISTS parts JSONB; -- { generalKnowledge, ragDocuments } for wellness messages
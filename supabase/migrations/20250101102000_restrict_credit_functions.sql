@@ -0,0 +1,88 @@
+-- Credit reservations are made and settled by the server only. Signed-in users could call the credit
+-- RPCs directly, and so refund the credit /api/chat had reserved for their own request while it was
+-- still running. The functions now take the user explicitly and only the service role may run them.
+
+DROP FUNCTION IF EXISTS public.reserve_message_credit(JSONB);
+DROP FUNCTION IF EXISTS public.settle_message_credit(UUID, TEXT, JSONB);
+
+-- Takes one credit from the user if they have any left.
+-- Returns the reservation id, or NULL when the user is out of credits. The conditional UPDATE makes
+-- concurrent requests serialize on the profile row, so the balance can never go below zero.
+CREATE OR REPLACE FUNCTION public.reserve_message_credit(p_user_id UUID, p_details JSONB DEFAULT '{}'::jsonb)
+RETURNS UUID AS $$
+DECLARE
+    v_balance INTEGER;
+    v_reservation_id UUID := gen_random_uuid();
+BEGIN
+    IF p_user_id IS NULL THEN
+        RAISE EXCEPTION 'A user is required';
+    END IF;
+
+    UPDATE public.profiles
+    SET message_credits = message_credits - 1
+    WHERE id = p_user_id AND message_credits > 0
+    RETURNING message_credits INTO v_balance;
+
+    IF NOT FOUND THEN
+        RETURN NULL;
+    END IF;
+
+    INSERT INTO public.credit_ledger (user_id, reservation_id, entry_type, delta, balance_after, details)
+    VALUES (p_user_id, v_reservation_id, 'reserve', -1, v_balance, COALESCE(p_details, '{}'::jsonb));
+
+    RETURN v_reservation_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Settles an open reservation of the user. 'commit' keeps the credit spent; 'refund' returns it.
+-- Returns FALSE if the reservation does not exist or was already settled.
+CREATE OR REPLACE FUNCTION public.settle_message_credit(
+    p_user_id UUID,
+    p_reservation_id UUID,
+    p_outcome TEXT,
+    p_details JSONB DEFAULT '{}'::jsonb
+)
+RETURNS BOOLEAN AS $$
+DECLARE
+    v_balance INTEGER;
+    v_delta INTEGER;
+BEGIN
+    IF p_user_id IS NULL THEN
+        RAISE EXCEPTION 'A user is required';
+    END IF;
+    IF p_outcome NOT IN ('commit', 'refund') THEN
+        RAISE EXCEPTION 'Invalid outcome: %', p_outcome;
+    END IF;
+
+    -- Lock the reservation so a concurrent commit and refund cannot both settle it
+    PERFORM 1 FROM public.credit_ledger
+    WHERE reservation_id = p_reservation_id AND user_id = p_user_id AND entry_type = 'reserve'
+    FOR UPDATE;
+    IF NOT FOUND THEN
+        RETURN FALSE;
+    END IF;
+
+    IF EXISTS (
+        SELECT 1 FROM public.credit_ledger
+        WHERE reservation_id = p_reservation_id AND entry_type IN ('commit', 'refund')
+    ) THEN
+        RETURN FALSE;
+    END IF;
+
+    v_delta := CASE WHEN p_outcome = 'refund' THEN 1 ELSE 0 END;
+    UPDATE public.profiles
+    SET message_credits = message_credits + v_delta
+    WHERE id = p_user_id
+    RETURNING message_credits INTO v_balance;
+
+    INSERT INTO public.credit_ledger (user_id, reservation_id, entry_type, delta, balance_after, details)
+    VALUES (p_user_id, p_reservation_id, p_outcome, v_delta, v_balance, COALESCE(p_details, '{}'::jsonb));
+
+    RETURN TRUE;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE ALL ON FUNCTION public.reserve_message_credit(UUID, JSONB) FROM PUBLIC, anon, authenticated;
+REVOKE ALL ON FUNCTION public.settle_message_credit(UUID, UUID, TEXT, JSONB) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.reserve_message_credit(UUID, JSONB) TO service_role;
+GRANT EXECUTE ON FUNCTION public.settle_message_credit(UUID, UUID, TEXT, JSONB) TO service_role;
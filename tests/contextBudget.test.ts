@@ -0,0 +1,56 @@
+// History tests (src/lib/ai/contextBudget.ts): synthetic turns counted one token per word, no
+// provider calls.
+
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { fitHistory, mergeConsecutiveTurns } from '@/lib/ai/contextBudget';
+import type { ChatTurn } from '@/lib/ai/chatProvider';
+
+// One token per word keeps the budget arithmetic readable
+const countWords = (text: string) => text.split(/\s+/).filter(Boolean).length;
+
+const roles = (turns: ChatTurn[]) => turns.map(turn => turn.role);
+
+describe('mergeConsecutiveTurns', () => {
+  it('joins runs of the same role so turns alternate', () => {
+    const merged = mergeConsecutiveTurns<ChatTurn>([
+      { role: 'user', content: 'first try' },
+      { role: 'user', content: 'second try' },
+      { role: 'assistant', content: 'General Knowledge answer' },
+      { role: 'assistant', content: 'Wellness Evidence answer' },
+      { role: 'user', content: 'thanks' },
+    ]);
+    assert.deepEqual(roles(merged), ['user', 'assistant', 'user']);
+    assert.equal(merged[0].content, 'first try\n\nsecond try');
+    assert.equal(merged[1].content, 'General Knowledge answer\n\nWellness Evidence answer');
+  });
+
+  it('keeps the fields of the last turn in a run', () => {
+    const merged = mergeConsecutiveTurns([
+      { role: 'user' as const, content: 'a', created_at: '1' },
+      { role: 'user' as const, content: 'b', created_at: '2' },
+    ]);
+    assert.deepEqual(merged, [{ role: 'user', content: 'a\n\nb', created_at: '2' }]);
+  });
+});
+
+describe('fitHistory', () => {
+  const history: ChatTurn[] = [
+    { role: 'user', content: 'one two three' },
+    { role: 'assistant', content: 'four five six' },
+    { role: 'user', content: 'seven' },
+    { role: 'assistant', content: 'eight' },
+  ];
+
+  it('keeps the newest turns that fit and starts with a user turn', () => {
+    // Each turn also costs 4 framing tokens; 20 fits the last three, but the first kept must be a user turn
+    const fitted = fitHistory(history, 20, countWords);
+    assert.deepEqual(roles(fitted.kept), ['user', 'assistant']);
+    assert.equal(fitted.dropped.length, 2);
+    assert.equal(fitted.tokens, 10);
+  });
+
+  it('keeps everything within budget', () => {
+    assert.equal(fitHistory(history, 100, countWords).kept.length, 4);
+  });
+});
@@ -0,0 +1,37 @@
+// Model registry lookups (src/lib/ai/models.ts) and the context windows and prices read from it.
+
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { DEFAULT_CONTEXT_WINDOW, getContextWindow } from '@/lib/ai/contextBudget';
+import { findChatModel } from '@/lib/ai/models';
+import { getModelPrice } from '@/lib/ai/pricing';
+
+describe('findChatModel', () => {
+  it('finds models by id', () => {
+    assert.equal(findChatModel('gpt-4')?.displayName, 'GPT-4');
+    assert.equal(findChatModel('gpt-4o')?.displayName, 'GPT-4o');
+  });
+
+  it('finds models by a listed alias', () => {
+    assert.equal(findChatModel('gpt-4o-2024-08-06')?.id, 'gpt-4o');
+    assert.equal(findChatModel('claude-3-5-sonnet-latest')?.id, 'claude-3-5-sonnet-20241022');
+  });
+
+  it('does not match unlisted ids by prefix', () => {
+    assert.equal(findChatModel('gpt-4.1'), undefined);
+    assert.equal(findChatModel('gpt-4o-audio-preview'), undefined);
+    assert.equal(findChatModel('gemini-1.5-pro-exp'), undefined);
+  });
+});
+
+describe('registry lookups', () => {
+  it('uses the default window and no price for unknown models', () => {
+    assert.equal(getContextWindow('gpt-4.1'), DEFAULT_CONTEXT_WINDOW);
+    assert.equal(getModelPrice('gpt-4.1'), null);
+  });
+
+  it('reads the window and price of aliases from their model', () => {
+    assert.equal(getContextWindow('gpt-4o-2024-08-06'), 128_000);
+    assert.deepEqual(getModelPrice('gpt-4o-mini-2024-07-18'), { inputPerMillion: 0.15, outputPerMillion: 0.6 });
+  });
+});
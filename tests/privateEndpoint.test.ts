@@ -0,0 +1,46 @@
+// Endpoint checks for BYOK base URLs (src/lib/ai/providers/local.ts): address literals and localhost,
+// so no outside DNS is needed.
+
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { isPrivateAddress, isPrivateEndpoint } from '@/lib/ai/providers/local';
+
+describe('isPrivateAddress', () => {
+  it('covers loopback, private, shared and unspecified ranges', () => {
+    for (const address of ['127.0.0.1', '10.1.2.3', '172.31.0.1', '192.168.1.1', '169.254.169.254', '100.64.0.1', '0.0.0.0', '::1', '::', 'fd00::1', 'fe80::1']) {
+      assert.equal(isPrivateAddress(address), true, address);
+    }
+  });
+
+  it('checks IPv4-mapped IPv6 addresses against the IPv4 ranges', () => {
+    assert.equal(isPrivateAddress('::ffff:127.0.0.1'), true);
+    assert.equal(isPrivateAddress('::ffff:7f00:1'), true);
+    assert.equal(isPrivateAddress('::ffff:8.8.8.8'), false);
+  });
+
+  it('allows public addresses', () => {
+    for (const address of ['8.8.8.8', '1.1.1.1', '172.32.0.1', '100.128.0.1', '2606:4700:4700::1111']) {
+      assert.equal(isPrivateAddress(address), false, address);
+    }
+  });
+});
+
+describe('isPrivateEndpoint', () => {
+  it('sees through decimal, octal, hex and bracketed hosts', async () => {
+    for (const url of ['http://2130706433/v1', 'http://0177.0.0.1/v1', 'http://0x7f.1/v1', 'http://[::ffff:127.0.0.1]:11434/v1', 'http://0.0.0.0:8080/v1', 'http://100.64.1.1/v1']) {
+      assert.equal(await isPrivateEndpoint(url), true, url);
+    }
+  });
+
+  it('resolves host names before deciding', async () => {
+    assert.equal(await isPrivateEndpoint('http://localhost:11434/v1'), true);
+  });
+
+  it('refuses host names that do not resolve', async () => {
+    assert.equal(await isPrivateEndpoint('https://does-not-exist.invalid/v1'), true);
+  });
+
+  it('allows public address literals', async () => {
+    assert.equal(await isPrivateEndpoint('https://8.8.8.8/v1'), false);
+  });
+});
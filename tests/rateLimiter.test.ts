@@ -0,0 +1,92 @@
+// Rate limiter tests (src/lib/rateLimit): the in-memory store on a fake clock, so windows can be
+// crossed without waiting.
+
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import type { RateLimitPolicies } from '@/lib/rateLimit/policies';
+import { createRateLimiter, getClientIp, rateLimitExceededResponse } from '@/lib/rateLimit/rateLimiter';
+import { createMemoryStore } from '@/lib/rateLimit/stores/memory';
+
+const POLICIES: RateLimitPolicies = {
+  chat: {
+    free_trial: [{ unit: 'requests', limit: 2, windowSeconds: 60 }, { unit: 'tokens', limit: 1_000, windowSeconds: 3_600 }],
+  },
+  image: {},
+  document_upload: {},
+  invite_request: {},
+};
+
+const SUBJECT = { id: 'user-1', tier: 'free_trial' as const };
+
+function createClockedLimiter(start = 0) {
+  const clock = { now: start };
+  const now = () => clock.now;
+  return { clock, limiter: createRateLimiter(createMemoryStore(now), POLICIES, now) };
+}
+
+describe('createRateLimiter', () => {
+  it('rejects requests over the limit until the window ends', async () => {
+    const { clock, limiter } = createClockedLimiter(10_000); // 10s into a 60s window
+
+    assert.equal((await limiter.check('chat', SUBJECT)).allowed, true);
+    assert.equal((await limiter.check('chat', SUBJECT)).allowed, true);
+    const rejected = await limiter.check('chat', SUBJECT);
+    assert.equal(rejected.allowed, false);
+    assert.equal(rejected.retryAfterSeconds, 50);
+    assert.deepEqual(rejected.rule, POLICIES.chat.free_trial![0]);
+
+    clock.now = 60_000;
+    assert.equal((await limiter.check('chat', SUBJECT)).allowed, true);
+  });
+
+  it('keeps subjects apart', async () => {
+    const { limiter } = createClockedLimiter();
+    await limiter.check('chat', SUBJECT);
+    await limiter.check('chat', SUBJECT);
+    assert.equal((await limiter.check('chat', SUBJECT)).allowed, false);
+    assert.equal((await limiter.check('chat', { ...SUBJECT, id: 'user-2' })).allowed, true);
+  });
+
+  it('blocks once the token budget is spent', async () => {
+    const { clock, limiter } = createClockedLimiter();
+    await limiter.consumeTokens('chat', SUBJECT, 1_000);
+    clock.now = 61_000; // A new request window, but the same token window
+    const rejected = await limiter.check('chat', SUBJECT);
+    assert.equal(rejected.allowed, false);
+    assert.equal(rejected.rule?.unit, 'tokens');
+    assert.equal(rejected.retryAfterSeconds, 3_539);
+  });
+
+  it('does not limit tiers without rules', async () => {
+    const { limiter } = createClockedLimiter();
+    for (let i = 0; i < 5; i++) {
+      assert.equal((await limiter.check('chat', { id: 'user-3', tier: 'byok' })).allowed, true);
+    }
+  });
+});
+
+describe('rateLimitExceededResponse', () => {
+  it('sends 429 with Retry-After and the limit', async () => {
+    const response = rateLimitExceededResponse({ allowed: false, retryAfterSeconds: 50, rule: POLICIES.chat.free_trial![0] });
+    assert.equal(response.status, 429);
+    assert.equal(response.headers.get('Retry-After'), '50');
+    assert.equal(response.headers.get('X-RateLimit-Limit'), '2');
+    const body = await response.json();
+    assert.equal(body.code, 'RATE_LIMITED');
+    assert.match(body.error, /2 requests per minute/);
+  });
+});
+
+describe('getClientIp', () => {
+  it('prefers X-Real-IP', () => {
+    assert.equal(getClientIp(new Headers({ 'x-real-ip': '203.0.113.7', 'x-forwarded-for': '1.2.3.4, 203.0.113.7' })), '203.0.113.7');
+  });
+
+  it('ignores the client-supplied X-Forwarded-For entries', () => {
+    assert.equal(getClientIp(new Headers({ 'x-forwarded-for': '1.2.3.4, 198.51.100.2' })), '198.51.100.2');
+  });
+
+  it('falls back to unknown', () => {
+    assert.equal(getClientIp(new Headers()), 'unknown');
+  });
+});
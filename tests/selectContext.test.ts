@@ -0,0 +1,113 @@
+// Fixture tests for context selection (src/lib/rag/selectContext.ts): synthetic candidate pools,
+// no Supabase or embedding calls.
+
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { getMaxChunksForDocument, selectContext } from '@/lib/rag/selectContext';
+import type { QueryResult } from '@/lib/vector/supabaseVectorClient';
+
+// Each chunk also costs 20 header tokens (CHUNK_OVERHEAD_TOKENS)
+const HEADER_TOKENS = 20;
+
+// One token per word keeps the budget arithmetic readable
+const countWords = (text: string) => text.split(/\s+/).filter(Boolean).length;
+
+function chunk(id: string, fileName: string, score: number, text = `chunk ${id} text`): QueryResult {
+  return { id, file_name: fileName, score, chunk_text: text };
+}
+
+function words(count: number): string {
+  return Array.from({ length: count }, (_, i) => `w${i}`).join(' ');
+}
+
+const ids = (results: QueryResult[]) => results.map(result => result.id);
+
+describe('getMaxChunksForDocument', () => {
+  it('uses the tier below when the score equals a tier boundary', () => {
+    assert.equal(getMaxChunksForDocument(0.76), 5);
+    assert.equal(getMaxChunksForDocument(0.75), 4);
+    assert.equal(getMaxChunksForDocument(0.65), 3);
+    assert.equal(getMaxChunksForDocument(0.55), 2);
+    assert.equal(getMaxChunksForDocument(0.45), 1);
+  });
+});
+
+describe('selectContext (diversity)', () => {
+  it('caps the chunks each document contributes by its best score', () => {
+    const strong = Array.from({ length: 7 }, (_, i) => chunk(`a${i}`, 'strong.pdf', 0.8 - i * 0.01));
+    const weak = Array.from({ length: 4 }, (_, i) => chunk(`b${i}`, 'weak.pdf', 0.5 - i * 0.01));
+
+    const { results, documents } = selectContext([...strong, ...weak], { countTokens: countWords });
+
+    assert.deepEqual(ids(results), ['a0', 'a1', 'a2', 'a3', 'a4', 'b0', 'b1']);
+    assert.deepEqual(
+      documents.map(({ fileName, available, selected }) => ({ fileName, available, selected })),
+      [
+        { fileName: 'strong.pdf', available: 7, selected: 5 },
+        { fileName: 'weak.pdf', available: 4, selected: 2 },
+      ]
+    );
+  });
+
+  it('fills the best-ranked document up to its cap before the next document', () => {
+    // b0 outranks a1, but a.pdf (best chunk first) is filled first, as the original selection did
+    const candidates = [
+      chunk('a0', 'a.pdf', 0.8),
+      chunk('b0', 'b.pdf', 0.79),
+      chunk('a1', 'a.pdf', 0.78),
+      chunk('a2', 'a.pdf', 0.77),
+    ];
+
+    const { results } = selectContext(candidates, { maxChunks: 3, countTokens: countWords });
+
+    assert.deepEqual(ids(results), ['a0', 'a1', 'a2']);
+  });
+
+  it('skips a chunk too big for the remaining budget in favour of a smaller one further down', () => {
+    const candidates = [
+      chunk('first', 'a.pdf', 0.9, words(50)),
+      chunk('big', 'b.pdf', 0.85, words(100)),
+      chunk('small', 'c.pdf', 0.8, words(30)),
+    ];
+
+    const { results, totalTokens } = selectContext(candidates, { tokenBudget: 150, countTokens: countWords });
+
+    assert.deepEqual(ids(results), ['first', 'small']);
+    assert.equal(totalTokens, 50 + 30 + 2 * HEADER_TOKENS);
+  });
+
+  it('stops at maxChunks', () => {
+    const candidates = Array.from({ length: 6 }, (_, i) => chunk(`c${i}`, `doc${i}.pdf`, 0.8));
+
+    const { results } = selectContext(candidates, { maxChunks: 3, countTokens: countWords });
+
+    assert.deepEqual(ids(results), ['c0', 'c1', 'c2']);
+  });
+});
+
+describe('selectContext (mmr)', () => {
+  it('prefers a less relevant but new chunk over a near-duplicate', () => {
+    const candidates = [
+      chunk('original', 'a.pdf', 0.9, 'magnesium improves sleep quality in older adults'),
+      chunk('duplicate', 'a.pdf', 0.89, 'magnesium improves sleep quality in older adults.'),
+      chunk('novel', 'b.pdf', 0.7, 'daylight exposure regulates circadian rhythm'),
+    ];
+
+    const { results } = selectContext(candidates, { strategy: 'mmr', maxChunks: 2, countTokens: countWords });
+
+    assert.deepEqual(ids(results), ['original', 'novel']);
+  });
+
+  it('returns the chosen chunks in candidate rank order', () => {
+    // With a low lambda the novel third chunk is chosen before the overlapping second one
+    const candidates = [
+      chunk('first', 'a.pdf', 0.9, 'magnesium improves sleep quality'),
+      chunk('overlapping', 'a.pdf', 0.85, 'magnesium improves mood'),
+      chunk('novel', 'b.pdf', 0.8, 'daylight regulates circadian rhythm'),
+    ];
+
+    const { results } = selectContext(candidates, { strategy: 'mmr', mmrLambda: 0.3, countTokens: countWords });
+
+    assert.deepEqual(ids(results), ['first', 'overlapping', 'novel']);
+  });
+});